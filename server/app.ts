@@ -0,0 +1,251 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { SELECT_TAXONOMY_FIELDS, isTaxonomyValue, type IncidentTaxonomy } from "../src/config/taxonomy";
+import { queryIncidents, type IncidentQuery } from "../src/lib/incidentQuery";
+import { createInitialTransition, isIncidentStatus } from "../src/lib/incidentStatus";
+import { validateIncident } from "../src/lib/incidentTransfer";
+import { QueryParseError, parseSearchQuery } from "../src/lib/searchQuery";
+import { isSeverity } from "../src/lib/severity";
+import { parseTags } from "../src/lib/tags";
+import { TRASH_FILTERS, filterTrash, type TrashFilter } from "../src/lib/trash";
+import type { Incident, SortOrder } from "../src/types";
+import { HttpError, readJsonBody, sendJson } from "./http";
+import type { IncidentStore } from "./store";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const parsePositiveInt = (value: string | null, name: string, fallback: number) => {
+  if (value === null) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new HttpError(400, `${name} must be a positive integer`);
+  }
+  return number;
+};
+
+// Mirrors the dashboard's filter, taxonomy and tag filters, searchTerm and sortOrder controls
+const parseQuery = (params: URLSearchParams): IncidentQuery => {
+  const severity = params.get("severity") ?? "All";
+  const status = params.get("status") ?? "All";
+  const sort = params.get("sort") ?? "newest";
+
+  if (severity !== "All" && !isSeverity(severity)) {
+    throw new HttpError(400, `Unknown severity "${severity}"`);
+  }
+  if (status !== "All" && !isIncidentStatus(status)) {
+    throw new HttpError(400, `Unknown status "${status}"`);
+  }
+  if (sort !== "newest" && sort !== "oldest") {
+    throw new HttpError(400, `sort must be "newest" or "oldest"`);
+  }
+  const taxonomy: IncidentTaxonomy = {};
+  for (const { key } of SELECT_TAXONOMY_FIELDS) {
+    const value = params.get(key);
+    if (value === null) continue;
+    if (!isTaxonomyValue(key, value)) {
+      throw new HttpError(400, `Unknown ${key} "${value}"`);
+    }
+    taxonomy[key] = value;
+  }
+  // Repeatable: ?tag=a&tag=b matches incidents tagged with both
+  const tags = parseTags(params.getAll("tag").join(","));
+  // Exact names, ignoring case
+  const reporter = params.get("reporter") || undefined;
+  const assignee = params.get("assignee") || undefined;
+  const search = params.get("search") ?? "";
+  try {
+    parseSearchQuery(search);
+  } catch (error) {
+    if (!(error instanceof QueryParseError)) throw error;
+    throw new HttpError(400, `Invalid search at position ${error.position}: ${error.message}`);
+  }
+  return { severity, status, taxonomy, tags, reporter, assignee, search, sort: sort as SortOrder };
+};
+
+// Trashed incidents are hidden unless asked for; sync clients need them all
+const parseTrashFilter = (params: URLSearchParams): TrashFilter => {
+  const trash = params.get("trash") ?? "exclude";
+  if (!TRASH_FILTERS.includes(trash as TrashFilter)) {
+    throw new HttpError(400, `trash must be one of ${TRASH_FILTERS.join(", ")}`);
+  }
+  return trash as TrashFilter;
+};
+
+const toIncident = (raw: unknown): Incident => {
+  const { incident, errors } = validateIncident(raw);
+  if (!incident) {
+    throw new HttpError(422, errors.join("; "));
+  }
+  return incident;
+};
+
+const etag = (incident: Incident) => `"${incident.version}"`;
+
+class PreconditionFailed extends HttpError {
+  current: Incident | null;
+
+  constructor(current: Incident | null) {
+    super(412, "Incident was changed by someone else");
+    this.current = current;
+  }
+}
+
+/**
+ * Optimistic concurrency for sync clients: `If-Match: "<version>"` requires the
+ * stored copy to be at that version, `If-None-Match: *` requires that none exists.
+ * Requests without either header always succeed.
+ */
+const checkPrecondition = (req: IncomingMessage, current: Incident | undefined) => {
+  const ifMatch = req.headers["if-match"];
+  const ifNoneMatch = req.headers["if-none-match"];
+  const failed =
+    (ifNoneMatch === "*" && current !== undefined) ||
+    (ifMatch !== undefined && (current === undefined || etag(current) !== ifMatch));
+  if (failed) {
+    throw new PreconditionFailed(current ?? null);
+  }
+};
+
+// POST accepts a bare report; the server fills in identity and workflow fields
+const toNewIncident = (raw: unknown): Incident => {
+  const body = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  const reportedAt = typeof body.reported_at === "string" ? body.reported_at : new Date().toISOString();
+  return toIncident({
+    id: Date.now(),
+    status: "Open",
+    status_history: [createInitialTransition(reportedAt, "api")],
+    revisions: [],
+    reporter: null,
+    assignee: null,
+    ...body,
+    reported_at: reportedAt,
+  });
+};
+
+const parseBatch = (raw: unknown): { put: Incident[]; delete: number[] } => {
+  const body = typeof raw === "object" && raw !== null ? (raw as Record<string, unknown>) : {};
+  const put = body.put ?? [];
+  const ids = body.delete ?? [];
+  if (!Array.isArray(put) || !Array.isArray(ids)) {
+    throw new HttpError(400, "Expected `put` and `delete` arrays");
+  }
+  if (!ids.every(id => Number.isInteger(id) && id > 0)) {
+    throw new HttpError(400, "Incident ids must be positive integers");
+  }
+  return { put: put.map(toIncident), delete: ids };
+};
+
+export const createApp = (store: IncidentStore) => {
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const [, api, resource, idSegment, ...rest] = url.pathname.split("/");
+
+    if (api !== "api") {
+      throw new HttpError(404, "Not found");
+    }
+    if (resource === "health" && req.method === "GET") {
+      return sendJson(res, 200, { ok: true });
+    }
+    if (resource !== "incidents" || rest.length > 0) {
+      throw new HttpError(404, "Not found");
+    }
+
+    if (!idSegment) {
+      switch (req.method) {
+        case "GET": {
+          const query = parseQuery(url.searchParams);
+          const trash = parseTrashFilter(url.searchParams);
+          const page = parsePositiveInt(url.searchParams.get("page"), "page", 1);
+          const pageSize = Math.min(
+            parsePositiveInt(url.searchParams.get("pageSize"), "pageSize", DEFAULT_PAGE_SIZE),
+            MAX_PAGE_SIZE
+          );
+          const matches = queryIncidents(filterTrash(await store.list(), trash), query);
+          const items = matches.slice((page - 1) * pageSize, page * pageSize);
+          return sendJson(res, 200, { items, total: matches.length, page, pageSize });
+        }
+        case "POST": {
+          const incident = toNewIncident(await readJsonBody(req));
+          if (await store.get(incident.id)) {
+            throw new HttpError(409, `Incident ${incident.id} already exists`);
+          }
+          await store.putMany([incident]);
+          return sendJson(res, 201, incident);
+        }
+        case "PUT": {
+          // Bulk upsert: validated as a whole, written in one go
+          const body = await readJsonBody(req);
+          if (!Array.isArray(body)) {
+            throw new HttpError(400, "Expected an array of incidents");
+          }
+          const incidents = body.map(toIncident);
+          await store.putMany(incidents);
+          return sendJson(res, 200, { count: incidents.length });
+        }
+        case "PATCH": {
+          // Batch of upserts and deletes: validated as a whole, written in one go
+          const { put, delete: ids } = parseBatch(await readJsonBody(req));
+          await store.update(incidents => {
+            const missing = ids.filter(id => !incidents.has(id));
+            if (missing.length > 0) throw new HttpError(404, `Incident ${missing.join(", ")} not found`);
+            put.forEach(incident => incidents.set(incident.id, incident));
+            ids.forEach(id => incidents.delete(id));
+          });
+          return sendJson(res, 200, { count: put.length + ids.length });
+        }
+      }
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const id = Number(idSegment);
+    if (!Number.isInteger(id) || id < 1) {
+      throw new HttpError(400, "Incident id must be a positive integer");
+    }
+
+    switch (req.method) {
+      case "GET": {
+        const incident = await store.get(id);
+        if (!incident) throw new HttpError(404, `Incident ${id} not found`);
+        res.setHeader("ETag", etag(incident));
+        return sendJson(res, 200, incident);
+      }
+      case "PUT": {
+        const incident = toIncident(await readJsonBody(req));
+        if (incident.id !== id) {
+          throw new HttpError(400, "Incident id does not match the URL");
+        }
+        await store.update(incidents => {
+          checkPrecondition(req, incidents.get(id));
+          incidents.set(id, incident);
+        });
+        res.setHeader("ETag", etag(incident));
+        return sendJson(res, 200, incident);
+      }
+      case "DELETE": {
+        await store.update(incidents => {
+          const current = incidents.get(id);
+          if (!current) throw new HttpError(404, `Incident ${id} not found`);
+          checkPrecondition(req, current);
+          incidents.delete(id);
+        });
+        return sendJson(res, 204);
+      }
+    }
+    throw new HttpError(405, "Method not allowed");
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+      await route(req, res);
+    } catch (error) {
+      if (error instanceof PreconditionFailed) {
+        sendJson(res, error.status, { error: error.message, current: error.current });
+      } else if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error(`${req.method} ${req.url} failed:`, error);
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    }
+  };
+};
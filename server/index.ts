@@ -0,0 +1,12 @@
+import { createServer } from "node:http";
+import { createApp } from "./app";
+import { createFileStore } from "./store";
+
+const PORT = Number(process.env.PORT ?? 3001);
+const DATA_FILE = process.env.DATA_FILE ?? "data/incidents.json";
+
+const server = createServer(createApp(createFileStore(DATA_FILE)));
+
+server.listen(PORT, () => {
+  console.log(`Incident API listening on port ${PORT} (data: ${DATA_FILE})`);
+});
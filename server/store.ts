@@ -0,0 +1,79 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { initialIncidents } from "../src/data/initialIncidents";
+import { withAssignmentDefaults } from "../src/lib/assignment";
+import { withCommentDefaults } from "../src/lib/comments";
+import { withLinkDefaults } from "../src/lib/incidentLinks";
+import { withTaxonomyDefaults } from "../src/lib/incidentRevisions";
+import { withVersionDefaults } from "../src/lib/incidentVersion";
+import { withTagDefaults } from "../src/lib/tags";
+import { withTranscriptDefaults } from "../src/lib/transcript";
+import { withTrashDefaults } from "../src/lib/trash";
+import type { Incident } from "../src/types";
+
+export interface IncidentStore {
+  list: () => Promise<Incident[]>;
+  get: (id: number) => Promise<Incident | undefined>;
+  putMany: (incidents: Incident[]) => Promise<void>;
+  // Runs a read-check-write atomically; throwing inside `change` writes nothing
+  update: <T>(change: (incidents: Map<number, Incident>) => T) => Promise<T>;
+}
+
+/**
+ * JSON-file backed store. The whole file is held in memory; every write replaces
+ * it atomically (write to a temp file, then rename), one write at a time.
+ */
+export const createFileStore = (filePath: string): IncidentStore => {
+  let cache: Map<number, Incident> | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const load = async (): Promise<Map<number, Incident>> => {
+    if (cache) return cache;
+    try {
+      const data: Incident[] = JSON.parse(await readFile(filePath, "utf8"));
+      // Files written before a field existed get the same defaults as the browser migrations
+      cache = new Map(data.map(incident => [
+        incident.id,
+        withAssignmentDefaults(withLinkDefaults(withTranscriptDefaults(
+          withCommentDefaults(withTagDefaults(withTrashDefaults(withTaxonomyDefaults(withVersionDefaults(incident)))))
+        ))),
+      ]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      // First run: seed with the same sample data as the browser store
+      cache = new Map(initialIncidents.map(incident => [incident.id, incident]));
+      await persist(cache);
+    }
+    return cache;
+  };
+
+  const persist = async (incidents: Map<number, Incident>) => {
+    await mkdir(dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify([...incidents.values()], null, 2));
+    await rename(tempPath, filePath);
+  };
+
+  // Applies a change to a copy and only swaps it in once it is on disk
+  const mutate = <T>(change: (incidents: Map<number, Incident>) => T): Promise<T> => {
+    const result = writeQueue.then(async () => {
+      const next = new Map(await load());
+      const value = change(next);
+      await persist(next);
+      cache = next;
+      return value;
+    });
+    writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  };
+
+  return {
+    list: async () => [...(await load()).values()],
+    get: async (id) => (await load()).get(id),
+    putMany: (incidents) =>
+      mutate(map => {
+        incidents.forEach(incident => map.set(incident.id, incident));
+      }),
+    update: mutate,
+  };
+};
@@ -1,7 +1,38 @@
-import Dashboard from "./components/Dashboard";
+import { BrowserRouter, Navigate, Route, Routes } from "react-router";
+import Layout from "./components/Layout";
+import ThemeProvider from "./context/ThemeProvider";
+import DigestPage from "./pages/DigestPage";
+import IncidentDetailPage from "./pages/IncidentDetailPage";
+import IncidentListPage from "./pages/IncidentListPage";
+import NewIncidentPage from "./pages/NewIncidentPage";
+import SettingsPage from "./pages/SettingsPage";
+import TagsPage from "./pages/TagsPage";
+import TrashPage from "./pages/TrashPage";
+import TriagePage from "./pages/TriagePage";
+import IncidentStoreProvider from "./store/IncidentStoreProvider";
 
 function App() {
-  return <Dashboard />;
+  return (
+    <ThemeProvider>
+      <IncidentStoreProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route element={<Layout />}>
+              <Route index element={<IncidentListPage />} />
+              <Route path="incidents/new" element={<NewIncidentPage />} />
+              <Route path="incidents/:id" element={<IncidentDetailPage />} />
+              <Route path="triage" element={<TriagePage />} />
+              <Route path="digest" element={<DigestPage />} />
+              <Route path="tags" element={<TagsPage />} />
+              <Route path="trash" element={<TrashPage />} />
+              <Route path="settings" element={<SettingsPage />} />
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Route>
+          </Routes>
+        </BrowserRouter>
+      </IncidentStoreProvider>
+    </ThemeProvider>
+  );
 }
 
 export default App;
@@ -0,0 +1,146 @@
+import { useMemo, useState } from "react";
+import { useTheme } from "../context/ThemeContext";
+import {
+  BREAKDOWN_FIELDS,
+  breakdownBy,
+  countByPeriod,
+  getResolutionTimes,
+  resolutionDistribution,
+  rollingAverage,
+  summarizeResolution,
+  type Granularity,
+} from "../lib/analytics";
+import type { Incident } from "../types";
+import BreakdownChart from "./charts/BreakdownChart";
+import SeverityLegend from "./charts/SeverityLegend";
+import StackedBarChart from "./charts/StackedBarChart";
+
+interface AnalyticsPanelProps {
+  // The list's filtered incidents, so the list filters scope the charts
+  incidents: Incident[];
+}
+
+const TREND_WINDOWS: Record<Granularity, number> = { week: 4, month: 3 };
+
+const formatPeriod = (start: string, granularity: Granularity) =>
+  new Date(start).toLocaleDateString(undefined, granularity === "month"
+    ? { month: "short", year: "2-digit", timeZone: "UTC" }
+    : { month: "short", day: "numeric", timeZone: "UTC" });
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return "–";
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)}d`;
+};
+
+export default function AnalyticsPanel({ incidents }: AnalyticsPanelProps) {
+  const { darkMode } = useTheme();
+  const [granularity, setGranularity] = useState<Granularity>("week");
+  const [breakdownField, setBreakdownField] = useState("harm_category");
+
+  const periods = useMemo(() => countByPeriod(incidents, granularity), [incidents, granularity]);
+  const trend = useMemo(
+    () => rollingAverage(periods.map(period => period.total), TREND_WINDOWS[granularity]),
+    [periods, granularity]
+  );
+  const resolutionTimes = useMemo(() => getResolutionTimes(incidents), [incidents]);
+  const breakdown = useMemo(() => breakdownBy(incidents, breakdownField), [incidents, breakdownField]);
+
+  const cardClass = `${darkMode
+    ? 'bg-gray-800 border-gray-700'
+    : 'bg-white border-indigo-100'} p-5 rounded-xl shadow-md border transition-colors duration-300`;
+  const headingClass = `text-lg font-semibold ${darkMode ? 'text-gray-100' : 'text-gray-800'}`;
+  const mutedClass = `text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const selectClass = `px-3 py-1.5 rounded-lg text-sm shadow-sm ${darkMode
+    ? 'bg-gray-700 text-gray-300 border border-gray-600'
+    : 'bg-white text-gray-700 border border-indigo-200'}`;
+
+  if (incidents.length === 0) {
+    return (
+      <div className={`${cardClass} text-center`}>
+        <p className={mutedClass}>No incidents match the current filters.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className={cardClass}>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className={headingClass}>Incidents per {granularity}</h3>
+          <select
+            value={granularity}
+            onChange={e => setGranularity(e.target.value as Granularity)}
+            aria-label="Period"
+            className={selectClass}
+          >
+            <option value="week">Weekly</option>
+            <option value="month">Monthly</option>
+          </select>
+        </div>
+        <StackedBarChart
+          bars={periods.map(period => ({ ...period, label: formatPeriod(period.start, granularity) }))}
+          trend={trend}
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2 mt-3">
+          <SeverityLegend />
+          <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            Line: {TREND_WINDOWS[granularity]}-{granularity} rolling average
+          </span>
+        </div>
+      </section>
+
+      <section className={cardClass}>
+        <h3 className={`${headingClass} mb-1`}>Time to resolution</h3>
+        {resolutionTimes.length === 0 ? (
+          <p className={mutedClass}>None of these incidents has been resolved yet.</p>
+        ) : (
+          <>
+            <p className={`${mutedClass} mb-4`}>
+              {resolutionTimes.length} resolved incident{resolutionTimes.length === 1 ? "" : "s"}, from report to Resolved or Closed.
+            </p>
+            <StackedBarChart bars={resolutionDistribution(resolutionTimes)} height={140} />
+            <table className={`w-full mt-4 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              <thead>
+                <tr className={darkMode ? 'text-gray-400' : 'text-gray-500'}>
+                  <th className="text-left font-medium">Severity</th>
+                  <th className="text-right font-medium">Resolved</th>
+                  <th className="text-right font-medium">Median</th>
+                  <th className="text-right font-medium">90th pct.</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summarizeResolution(resolutionTimes).map(row => (
+                  <tr key={row.severity}>
+                    <td>{row.severity}</td>
+                    <td className="text-right">{row.count}</td>
+                    <td className="text-right">{formatHours(row.medianHours)}</td>
+                    <td className="text-right">{formatHours(row.p90Hours)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </section>
+
+      <section className={cardClass}>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className={headingClass}>Breakdown</h3>
+          <select
+            value={breakdownField}
+            onChange={e => setBreakdownField(e.target.value)}
+            aria-label="Group by"
+            className={selectClass}
+          >
+            {BREAKDOWN_FIELDS.map(field => (
+              <option key={field.key} value={field.key}>{field.label}</option>
+            ))}
+          </select>
+        </div>
+        <BreakdownChart rows={breakdown} />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React, { useId, useState } from "react";
+import { useTheme } from "../context/ThemeContext";
+import { MAX_ATTACHMENT_BYTES, formatBytes } from "../lib/attachments";
+
+interface AttachmentDropZoneProps {
+  onFiles: (files: File[]) => void;
+}
+
+/** Drop target that also opens the file picker when clicked. */
+export default function AttachmentDropZone({ onFiles }: AttachmentDropZoneProps) {
+  const { darkMode } = useTheme();
+  const inputId = useId();
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onFiles(files);
+  };
+
+  return (
+    <label
+      htmlFor={inputId}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`flex flex-col items-center justify-center gap-1 p-4 rounded-lg border-2 border-dashed cursor-pointer text-sm text-center transition-colors duration-200 ${
+        isDragging
+          ? (darkMode ? 'border-purple-400 bg-purple-900/20 text-purple-200' : 'border-indigo-400 bg-indigo-50 text-indigo-700')
+          : (darkMode ? 'border-gray-600 text-gray-400 hover:border-purple-500' : 'border-indigo-200 text-gray-500 hover:border-indigo-400')
+      }`}
+    >
+      <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"></path>
+      </svg>
+      <span>Drop screenshots, transcripts or logs here, or <span className="underline">browse</span></span>
+      <span className="text-xs opacity-75">Up to {formatBytes(MAX_ATTACHMENT_BYTES)} per file</span>
+      <input
+        id={inputId}
+        type="file"
+        multiple
+        className="sr-only"
+        onChange={(e) => {
+          const files = Array.from(e.target.files ?? []);
+          // Reset so picking the same file again still fires a change
+          e.target.value = "";
+          if (files.length > 0) onFiles(files);
+        }}
+      />
+    </label>
+  );
+}
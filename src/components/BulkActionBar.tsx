@@ -0,0 +1,102 @@
+import React, { useState } from "react";
+import { SEVERITY_LEVELS } from "../config/severity";
+import { useTheme } from "../context/ThemeContext";
+import { parseTags } from "../lib/tags";
+import type { Severity } from "../types";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  matchingCount: number;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  // Actions the user's role doesn't allow are left out
+  onSetSeverity?: (severity: Severity) => void;
+  onTag?: (tags: string[]) => void;
+  onExport: () => void;
+  onDelete?: () => void;
+}
+
+export default function BulkActionBar({
+  selectedCount,
+  matchingCount,
+  onSelectAllMatching,
+  onClear,
+  onSetSeverity,
+  onTag,
+  onExport,
+  onDelete,
+}: BulkActionBarProps) {
+  const { darkMode } = useTheme();
+  const [tagInput, setTagInput] = useState("");
+
+  const tags = parseTags(tagInput);
+
+  const handleTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (tags.length === 0) return;
+    onTag?.(tags);
+    setTagInput("");
+  };
+
+  const controlClass = `px-3 py-1.5 rounded-lg text-sm shadow-sm ${darkMode
+    ? 'bg-gray-700 text-gray-300 border border-gray-600'
+    : 'bg-white text-gray-700 border border-indigo-200'}`;
+  const buttonClass = `${controlClass} font-medium transition-colors ${darkMode ? 'hover:bg-gray-600' : 'hover:bg-indigo-50'}`;
+  const linkClass = `text-sm underline ${darkMode ? 'text-purple-300' : 'text-indigo-600'}`;
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className={`sticky top-20 z-20 mb-4 p-3 rounded-xl shadow-md border flex flex-wrap items-center gap-3 ${darkMode 
+        ? 'bg-gray-800 border-purple-700' 
+        : 'bg-white border-indigo-300'}`}
+    >
+      <span className="text-sm font-semibold">{selectedCount} selected</span>
+      {selectedCount < matchingCount && (
+        <button onClick={onSelectAllMatching} className={linkClass}>Select all {matchingCount} matching</button>
+      )}
+      <button onClick={onClear} className={linkClass}>Clear</button>
+
+      {onSetSeverity && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onSetSeverity(e.target.value as Severity)}
+          aria-label="Set severity"
+          className={controlClass}
+        >
+          <option value="">Set severity…</option>
+          {SEVERITY_LEVELS.map(level => (
+            <option key={level.name} value={level.name}>{level.name}</option>
+          ))}
+        </select>
+      )}
+
+      {onTag && (
+        <form onSubmit={handleTag} className="flex gap-2">
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="tag, another tag"
+            aria-label="Tags to add"
+            className={`${controlClass} w-40`}
+          />
+          <button type="submit" disabled={tags.length === 0} className={`${buttonClass} disabled:opacity-50`}>Tag</button>
+        </form>
+      )}
+
+      <button onClick={onExport} className={buttonClass}>Export</button>
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          className={`px-3 py-1.5 rounded-lg text-sm font-medium shadow-sm transition-colors ${darkMode 
+            ? 'text-rose-400 border border-rose-700 hover:bg-rose-900/30' 
+            : 'text-rose-600 border border-rose-200 hover:bg-rose-50'}`}
+        >
+          Delete
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useRef, type ReactNode } from "react";
+import { useTheme } from "../context/ThemeContext";
+
+interface DeleteConfirmDialogProps {
+  heading?: string;
+  // The question, e.g. `Move "Prompt leak" to the trash?`
+  message: ReactNode;
+  // What happens afterwards, shown in smaller type
+  note: string;
+  confirmLabel?: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export default function DeleteConfirmDialog({
+  heading = "Delete Incident",
+  message,
+  note,
+  confirmLabel = "Delete",
+  onConfirm,
+  onCancel,
+}: DeleteConfirmDialogProps) {
+  const { darkMode } = useTheme();
+  const popupRef = useRef<HTMLDivElement>(null);
+
+  // Handle click outside delete popup
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (popupRef.current && !popupRef.current.contains(event.target as Node)) {
+        onCancel();
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 bg-black/30 dark:bg-gray-800/50 z-50 flex items-center justify-center backdrop-blur-sm">
+      <div 
+        ref={popupRef}
+        className={`relative ${darkMode 
+          ? 'bg-gray-800 border-rose-800' 
+          : 'bg-white border-rose-100'} rounded-xl p-6 max-w-md w-full transform transition-all duration-300 shadow-2xl border`}
+        style={{ animation: "popup-appear 0.3s ease-out" }}
+      >
+        <div className="absolute -top-16 left-1/2 transform -translate-x-1/2 bg-gradient-to-br from-rose-500 to-red-600 w-24 h-24 rounded-full flex items-center justify-center shadow-lg">
+          <svg className="w-12 h-12 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"></path>
+          </svg>
+        </div>
+        
+        <h3 className={`text-xl font-bold ${darkMode ? 'text-gray-100' : 'text-gray-800'} mt-8 mb-2 text-center`}>{heading}</h3>
+        <p className={`${darkMode ? 'text-gray-300' : 'text-gray-600'} mb-6 text-center`}>
+          {message}
+          <br />
+          <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{note}</span>
+        </p>
+        
+        <div className="flex gap-4">
+          <button 
+            onClick={onCancel}
+            className={`flex-1 py-2 rounded-lg transition-colors duration-200 shadow-sm ${darkMode 
+              ? 'border border-gray-600 text-gray-300 hover:bg-gray-700' 
+              : 'border border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+          >
+            Cancel
+          </button>
+          <button 
+            onClick={onConfirm}
+            className="flex-1 py-2 rounded-lg bg-gradient-to-r from-rose-500 to-red-600 text-white font-medium hover:from-rose-600 hover:to-red-700 transition-colors duration-200 shadow-sm"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useRef } from "react";
+import { Link } from "react-router";
+import { useTheme } from "../context/ThemeContext";
+import type { DuplicateMatch } from "../lib/duplicates";
+import SeverityBadge from "./SeverityBadge";
+import StatusBadge from "./StatusBadge";
+
+interface DuplicateWarningDialogProps {
+  matches: DuplicateMatch[];
+  onLink: (duplicateOf: number) => void;
+  onFileAnyway: () => void;
+  onCancel: () => void;
+}
+
+export default function DuplicateWarningDialog({ matches, onLink, onFileAnyway, onCancel }: DuplicateWarningDialogProps) {
+  const { darkMode } = useTheme();
+  const popupRef = useRef<HTMLDivElement>(null);
+
+  // Handle click outside and Escape
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (popupRef.current && !popupRef.current.contains(event.target as Node)) {
+        onCancel();
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onCancel();
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-50 flex items-center justify-center backdrop-blur-sm p-4">
+      <div
+        ref={popupRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="duplicate-warning-heading"
+        className={`${darkMode
+          ? 'bg-gray-800 border-gray-700'
+          : 'bg-white border-indigo-100'} rounded-xl p-6 max-w-lg w-full shadow-2xl border`}
+        style={{ animation: "popup-appear 0.3s ease-out" }}
+      >
+        <h3 id="duplicate-warning-heading" className={`text-xl font-bold mb-1 ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>
+          Possible duplicate
+        </h3>
+        <p className={`text-sm mb-4 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {matches.length === 1 ? "An existing incident looks" : `${matches.length} existing incidents look`} like this report.
+          Link it as a duplicate, or file it as a new incident.
+        </p>
+
+        <ul className={`divide-y mb-5 ${darkMode ? 'divide-gray-700' : 'divide-indigo-100'}`}>
+          {matches.map(({ incident, score }) => (
+            <li key={incident.id} className="py-3 flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <Link
+                  to={`/incidents/${incident.id}`}
+                  target="_blank"
+                  className={`font-semibold break-words ${darkMode ? 'text-gray-100 hover:text-purple-300' : 'text-gray-800 hover:text-indigo-600'}`}
+                >
+                  {incident.title}
+                </Link>
+                <div className="flex flex-wrap gap-2 items-center mt-1">
+                  <SeverityBadge severity={incident.severity} />
+                  <StatusBadge status={incident.status} />
+                  <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{Math.round(score * 100)}% similar</span>
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onLink(incident.id)}
+                className={`shrink-0 px-3 py-1 text-sm rounded-md transition-colors duration-150 shadow-sm ${darkMode
+                  ? 'text-purple-300 border border-purple-700 hover:bg-purple-900/30'
+                  : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50'}`}
+              >
+                Duplicate of this
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className={`flex-1 py-2 rounded-lg transition-colors duration-200 shadow-sm ${darkMode
+              ? 'border border-gray-600 text-gray-300 hover:bg-gray-700'
+              : 'border border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+          >
+            Keep editing
+          </button>
+          <button
+            type="button"
+            onClick={onFileAnyway}
+            className={`flex-1 py-2 rounded-lg text-white font-medium transition-colors duration-200 shadow-sm ${darkMode
+              ? 'bg-gradient-to-r from-purple-600 to-indigo-700 hover:from-purple-700 hover:to-indigo-800'
+              : 'bg-gradient-to-r from-indigo-600 to-indigo-700 hover:from-indigo-700 hover:to-indigo-800'}`}
+          >
+            File anyway
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
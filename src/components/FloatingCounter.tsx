@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { SEVERITY_LEVELS } from "../config/severity";
+import { useTheme } from "../context/ThemeContext";
+import { getWorkloads } from "../lib/assignment";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Severity } from "../types";
+
+// Busiest assignees shown; the rest are in the tooltip
+const MAX_WORKLOADS = 3;
+
+interface FloatingCounterProps {
+  onSelectSeverity: (severity: Severity) => void;
+}
+
+export default function FloatingCounter({ onSelectSeverity }: FloatingCounterProps) {
+  const { darkMode } = useTheme();
+  const { incidents } = useIncidentStore();
+  const [isCountExpanded, setIsCountExpanded] = useState(false);
+  const [isCountRotating, setIsCountRotating] = useState(false);
+  const [countAnimation, setCountAnimation] = useState(false);
+  const floatingCounterRef = useRef<HTMLDivElement>(null);
+
+  const toggleCountDisplay = useCallback(() => {
+    setIsCountRotating(true);
+    setTimeout(() => {
+      setIsCountExpanded(expanded => !expanded);
+      setIsCountRotating(false);
+    }, 300);
+  }, []);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (isCountExpanded && 
+          floatingCounterRef.current && 
+          !floatingCounterRef.current.contains(event.target as Node)) {
+        toggleCountDisplay();
+      }
+    };
+  
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isCountExpanded, toggleCountDisplay]);
+
+  // Trigger count animation when incident count changes
+  useEffect(() => {
+    setCountAnimation(true);
+    const timer = setTimeout(() => setCountAnimation(false), 1000);
+    return () => clearTimeout(timer);
+  }, [incidents.length]);
+
+  // Count stats for the floating counter
+  const severityCounts = SEVERITY_LEVELS.map(level => ({
+    level,
+    count: incidents.filter(i => i.severity === level.name).length,
+  }));
+  const totalCount = incidents.length;
+  const workloads = getWorkloads(incidents);
+  const assigned = workloads.filter(workload => workload.assignee !== null);
+  const shownWorkloads = [
+    ...assigned.slice(0, MAX_WORKLOADS),
+    ...workloads.filter(workload => workload.assignee === null),
+  ];
+  const workloadSummary = workloads
+    .map(({ assignee, count }) => `${assignee ?? "Unassigned"}: ${count}`)
+    .join("\n");
+
+  return (
+    <div 
+      ref={floatingCounterRef}
+      className="fixed bottom-8 right-8 z-40 transition-all duration-500 ease-in-out will-change-transform"
+    >
+      <div 
+        className={`relative ${darkMode 
+          ? 'bg-gray-800 border-purple-500 hover:border-purple-400' 
+          : 'bg-white border-indigo-300 hover:border-indigo-400'} rounded-full shadow-xl cursor-pointer
+          transform transition-all duration-300 ease-out hover:shadow-2xl
+          border-4 
+          ${isCountExpanded ? 'w-72 h-72' : 'w-16 h-16'}
+          ${isCountRotating ? 'rotate-180' : 'rotate-0'}
+          ${!isCountExpanded ? 'animate-pulse-gentle' : ''}
+          flex items-center justify-center
+          will-change-transform will-change-size
+        `}
+        onClick={toggleCountDisplay}
+        style={{
+          transform: `translate3d(0, ${!isCountExpanded ? '0' : '0'}, 0)`,
+          backfaceVisibility: 'hidden'
+        }}
+      >
+        {/* Compact view when collapsed */}
+        {!isCountExpanded && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <span className={`text-2xl font-bold ${darkMode ? 'text-purple-400' : 'text-indigo-600'} ${countAnimation ? 'animate-pulse-fast' : ''}`}>
+              {totalCount}
+            </span>
+            
+            {/* Animated pulse rings - optimized */}
+            <div className={`absolute inset-0 border-2 rounded-full ${darkMode ? 'border-purple-500' : 'border-indigo-300'} ${countAnimation ? 'animate-ping-gentle' : 'opacity-0'}`}></div>
+          </div>
+        )}
+        
+        {/* Expanded view - uses CSS transitions for smoother rendering */}
+        {isCountExpanded && (
+          <div className="absolute inset-0 p-4 flex flex-col items-center justify-center opacity-0 animate-fade-in">
+            <div className="text-center mb-2">
+              <span className={`text-lg font-semibold ${darkMode ? 'text-gray-200' : 'text-indigo-900'}`}>Incident Count</span>
+              <div className={`text-3xl font-bold ${darkMode ? 'text-purple-400' : 'text-indigo-600'} mb-3`}>{totalCount}</div>
+            </div>
+            
+            <div className="flex flex-wrap justify-center gap-2 w-full">
+              {severityCounts.map(({ level, count }) => {
+                const palette = darkMode ? level.dark : level.light;
+                return (
+                  <div
+                    key={level.name}
+                    title={level.description}
+                    className={`${palette.counter} w-16
+                      rounded-full p-2 flex flex-col items-center shadow-sm border transform transition-transform hover:scale-105 active:scale-95`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onSelectSeverity(level.name);
+                    }}
+                  >
+                    <span className={`text-xs font-medium ${palette.counterLabel}`}>{level.name}</span>
+                    <span className={`text-lg font-bold ${palette.counterValue}`}>{count}</span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {shownWorkloads.length > 0 && (
+              <div className="mt-3 w-full text-center" title={`Active incidents per assignee\n${workloadSummary}`}>
+                <span className={`text-xs font-semibold uppercase tracking-wide ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Workload</span>
+                <div className="flex flex-wrap justify-center gap-1 mt-1">
+                  {shownWorkloads.map(({ assignee, count }) => (
+                    <span
+                      key={assignee ?? ""}
+                      className={`px-2 py-0.5 rounded-full text-xs border max-w-[7rem] truncate ${assignee === null
+                        ? (darkMode ? 'border-amber-600 text-amber-300' : 'border-amber-300 text-amber-700')
+                        : (darkMode ? 'border-gray-600 text-gray-300' : 'border-indigo-200 text-indigo-700')}`}
+                    >
+                      {assignee ?? "Unassigned"} <span className="font-bold">{count}</span>
+                    </span>
+                  ))}
+                  {assigned.length > MAX_WORKLOADS && (
+                    <span className={`px-2 py-0.5 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      +{assigned.length - MAX_WORKLOADS}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
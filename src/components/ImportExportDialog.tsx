@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useState } from "react";
+import { useTheme } from "../context/ThemeContext";
+import { downloadFile } from "../lib/download";
+import {
+  TRANSFER_FORMATS,
+  detectFormat,
+  parseIncidents,
+  planImport,
+  serializeIncidents,
+  type ConflictStrategy,
+  type ImportPlan,
+  type ImportRow,
+  type TransferFormat,
+} from "../lib/incidentTransfer";
+import type { Incident } from "../types";
+
+interface ImportExportDialogProps {
+  incidents: Incident[];
+  // Every stored incident, trashed ones included, so imported ids are checked against all of them
+  existingIncidents: Incident[];
+  filteredIncidents: Incident[];
+  // Offered as an export scope (and preselected) when there is a selection
+  selectedIncidents?: Incident[];
+  // Left out when the user's role can't import; the dialog then only exports
+  onImport?: (plan: ImportPlan) => void;
+  onClose: () => void;
+}
+
+const FORMATS = Object.keys(TRANSFER_FORMATS) as TransferFormat[];
+
+const CONFLICT_LABELS: Record<ConflictStrategy, string> = {
+  skip: "Skip existing",
+  overwrite: "Overwrite existing",
+  "keep-both": "Keep both (new id)",
+};
+
+export default function ImportExportDialog({
+  incidents,
+  existingIncidents,
+  filteredIncidents,
+  selectedIncidents = [],
+  onImport,
+  onClose,
+}: ImportExportDialogProps) {
+  const { darkMode } = useTheme();
+  const [exportScope, setExportScope] = useState<"selected" | "filtered" | "all">(
+    selectedIncidents.length > 0 ? "selected" : "filtered"
+  );
+  const [importFile, setImportFile] = useState<{ name: string; text: string } | null>(null);
+  const [importFormat, setImportFormat] = useState<TransferFormat>("json");
+  const [strategy, setStrategy] = useState<ConflictStrategy>("skip");
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  // Dry run: parse and plan on every input change, nothing is written until confirmed
+  const preview = useMemo((): { rows: ImportRow[]; plan: ImportPlan } | { error: string } | null => {
+    if (!importFile) return null;
+    try {
+      const rows = parseIncidents(importFile.text, importFormat);
+      return { rows, plan: planImport(rows, existingIncidents, strategy) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [importFile, importFormat, strategy, existingIncidents]);
+
+  const handleExport = (format: TransferFormat) => {
+    const data = { selected: selectedIncidents, filtered: filteredIncidents, all: incidents }[exportScope];
+    const { extension, mimeType } = TRANSFER_FORMATS[format];
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(serializeIncidents(data, format), `incidents-${date}.${extension}`, mimeType);
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    setImportFormat(detectFormat(file.name) ?? "json");
+    setImportFile({ name: file.name, text: await file.text() });
+  };
+
+  const plan = preview && "plan" in preview ? preview.plan : null;
+  const applyCount = plan ? plan.added.length + plan.overwritten.length : 0;
+
+  const sectionTitle = `text-sm font-semibold mb-2 ${darkMode ? 'text-gray-200' : 'text-indigo-900'}`;
+  const selectClass = `px-3 py-1.5 rounded-lg text-sm shadow-sm ${darkMode
+    ? 'bg-gray-700 text-gray-300 border border-gray-600'
+    : 'bg-white text-gray-700 border border-indigo-200'}`;
+  const mutedText = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className="fixed inset-0 bg-black/30 dark:bg-gray-800/50 z-50 flex items-center justify-center backdrop-blur-sm">
+      <div
+        role="dialog"
+        aria-label="Import and export incidents"
+        className={`relative ${darkMode
+          ? 'bg-gray-800 border-gray-700 text-gray-200'
+          : 'bg-white border-indigo-100 text-gray-800'} rounded-xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto shadow-2xl border`}
+        style={{ animation: "popup-appear 0.3s ease-out" }}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">Import / Export</h3>
+          <button onClick={onClose} aria-label="Close" className={`text-2xl leading-none ${mutedText}`}>×</button>
+        </div>
+
+        <section className="mb-6">
+          <h4 className={sectionTitle}>Export</h4>
+          <div className="flex flex-wrap items-center gap-4 mb-3 text-sm">
+            {selectedIncidents.length > 0 && (
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={exportScope === "selected"} onChange={() => setExportScope("selected")} />
+                Selected ({selectedIncidents.length})
+              </label>
+            )}
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={exportScope === "filtered"} onChange={() => setExportScope("filtered")} />
+              Current view ({filteredIncidents.length})
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={exportScope === "all"} onChange={() => setExportScope("all")} />
+              All incidents ({incidents.length})
+            </label>
+          </div>
+          <div className="flex gap-2">
+            {FORMATS.map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium shadow-sm transition-colors ${darkMode
+                  ? 'bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600'
+                  : 'bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50'}`}
+              >
+                {TRANSFER_FORMATS[format].label}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h4 className={sectionTitle}>Import</h4>
+          {!onImport && (
+            <p className={`text-sm mb-3 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Only admins can import incidents.
+            </p>
+          )}
+          <input
+            type="file"
+            disabled={!onImport}
+            accept=".json,.csv,.ndjson,.jsonl"
+            onChange={e => handleFileChange(e.target.files?.[0])}
+            className="block w-full text-sm mb-3"
+          />
+          <div className="flex flex-wrap gap-4 mb-4 text-sm">
+            <label className="flex items-center gap-2">
+              Format
+              <select value={importFormat} onChange={e => setImportFormat(e.target.value as TransferFormat)} className={selectClass}>
+                {FORMATS.map(format => (
+                  <option key={format} value={format}>{TRANSFER_FORMATS[format].label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              On duplicate id
+              <select value={strategy} onChange={e => setStrategy(e.target.value as ConflictStrategy)} className={selectClass}>
+                {(Object.keys(CONFLICT_LABELS) as ConflictStrategy[]).map(option => (
+                  <option key={option} value={option}>{CONFLICT_LABELS[option]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {preview && "error" in preview && (
+            <p className="text-sm text-rose-500 mb-3">Could not read {importFile?.name}: {preview.error}</p>
+          )}
+
+          {preview && "plan" in preview && (
+            <div className={`rounded-lg p-3 mb-4 text-sm ${darkMode ? 'bg-gray-700/50' : 'bg-indigo-50/50'}`}>
+              <p className="font-medium mb-2">
+                Preview of {importFile?.name}: {preview.rows.length} record{preview.rows.length === 1 ? "" : "s"}
+              </p>
+              <ul className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-2">
+                <li>New: <span className="font-semibold">{preview.plan.added.length}</span></li>
+                <li>Overwrite: <span className="font-semibold">{preview.plan.overwritten.length}</span></li>
+                <li>Skip: <span className="font-semibold">{preview.plan.skipped.length}</span></li>
+                <li className={preview.plan.invalid.length > 0 ? 'text-rose-500' : ''}>
+                  Invalid: <span className="font-semibold">{preview.plan.invalid.length}</span>
+                </li>
+              </ul>
+              {preview.plan.invalid.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto space-y-1">
+                  {preview.plan.invalid.map(row => (
+                    <li key={row.row} className="text-rose-500">
+                      Row {row.row}: {row.errors.join("; ")}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            <button
+              onClick={onClose}
+              className={`flex-1 py-2 rounded-lg transition-colors duration-200 shadow-sm ${darkMode
+                ? 'border border-gray-600 text-gray-300 hover:bg-gray-700'
+                : 'border border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+            >
+              Close
+            </button>
+            <button
+              onClick={() => plan && onImport?.(plan)}
+              disabled={applyCount === 0 || !onImport}
+              className={`flex-1 py-2 rounded-lg text-white font-medium shadow-sm transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${darkMode
+                ? 'bg-purple-600 hover:bg-purple-700'
+                : 'bg-indigo-600 hover:bg-indigo-700'}`}
+            >
+              Import {applyCount} incident{applyCount === 1 ? "" : "s"}
+            </button>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { useTheme } from "../context/ThemeContext";
+import type { Attachment } from "../db/attachmentRepository";
+import { TEXT_PREVIEW_BYTES, formatBytes, isImageAttachment, isTextAttachment } from "../lib/attachments";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident } from "../types";
+import AttachmentDropZone from "./AttachmentDropZone";
+import DeleteConfirmDialog from "./DeleteConfirmDialog";
+
+function TextPreview({ blob }: { blob: Blob }) {
+  const { darkMode } = useTheme();
+  const [text, setText] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    blob.slice(0, TEXT_PREVIEW_BYTES).text().then(content => {
+      if (!cancelled) setText(content);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [blob]);
+
+  return (
+    <pre className={`max-h-64 overflow-auto p-2 rounded text-xs font-mono whitespace-pre-wrap break-words ${darkMode ? 'bg-gray-900 text-gray-200' : 'bg-gray-50 text-gray-800'}`}>
+      {text ?? "Loading…"}
+      {blob.size > TEXT_PREVIEW_BYTES && text !== null && `\n… (showing the first ${formatBytes(TEXT_PREVIEW_BYTES)})`}
+    </pre>
+  );
+}
+
+function AttachmentItem({ attachment, onRemove }: { attachment: Attachment; onRemove?: () => void }) {
+  const { darkMode } = useTheme();
+  const [url, setUrl] = useState<string | null>(null);
+
+  // Object URLs pin the Blob in memory, so release them with the preview
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(attachment.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [attachment.blob]);
+
+  const linkClass = `text-xs transition-colors ${darkMode ? 'text-gray-400 hover:text-purple-300' : 'text-gray-500 hover:text-indigo-600'}`;
+
+  return (
+    <li className={`p-3 rounded-md text-sm ${darkMode ? 'bg-gray-800/60' : 'bg-white/70'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <p className="min-w-0">
+          <span className={`font-medium break-all ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>{attachment.name}</span>
+          <span className={`text-xs ml-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {formatBytes(attachment.size)} · {new Date(attachment.created_at).toLocaleString()}
+          </span>
+        </p>
+        <div className="flex gap-3">
+          {url && <a href={url} download={attachment.name} className={linkClass}>Download</a>}
+          {onRemove && <button type="button" className={linkClass} onClick={onRemove}>Remove</button>}
+        </div>
+      </div>
+      {url && isImageAttachment(attachment) && (
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          <img src={url} alt={attachment.name} className={`max-h-64 rounded border ${darkMode ? 'border-gray-700' : 'border-gray-200'}`} />
+        </a>
+      )}
+      {!isImageAttachment(attachment) && isTextAttachment(attachment) && <TextPreview blob={attachment.blob} />}
+    </li>
+  );
+}
+
+interface IncidentAttachmentsProps {
+  incident: Incident;
+  // Trashed incidents show their files but can't be changed
+  readOnly?: boolean;
+}
+
+export default function IncidentAttachments({ incident, readOnly = false }: IncidentAttachmentsProps) {
+  const { darkMode } = useTheme();
+  const { attachments, addAttachments, removeAttachment } = useIncidentStore();
+  const [pendingRemove, setPendingRemove] = useState<Attachment | null>(null);
+  const files = attachments.filter(attachment => attachment.incident_id === incident.id);
+
+  return (
+    <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-gray-600' : 'border-indigo-100'}`}>
+      {pendingRemove && (
+        <DeleteConfirmDialog
+          heading="Remove Attachment"
+          message={<>Remove "<span className="text-rose-500 font-semibold">{pendingRemove.name}</span>"?</>}
+          note="The file is deleted from this browser and can't be restored."
+          confirmLabel="Remove"
+          onConfirm={() => {
+            removeAttachment(pendingRemove);
+            setPendingRemove(null);
+          }}
+          onCancel={() => setPendingRemove(null)}
+        />
+      )}
+      <h4 className={`text-sm font-medium mb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Evidence ({files.length})</h4>
+      {files.length > 0 && (
+        <ul className="space-y-3 mb-3">
+          {files.map(attachment => (
+            <AttachmentItem
+              key={attachment.id}
+              attachment={attachment}
+              onRemove={readOnly ? undefined : () => setPendingRemove(attachment)}
+            />
+          ))}
+        </ul>
+      )}
+      {!readOnly && <AttachmentDropZone onFiles={selected => addAttachments(incident, selected)} />}
+      {readOnly && files.length === 0 && (
+        <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>No files attached.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import React, { useState } from "react";
+import { useTheme } from "../context/ThemeContext";
+import { MAX_COMMENT_LENGTH, getRootCause, isOwnComment } from "../lib/comments";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident, IncidentComment } from "../types";
+import Markdown from "./Markdown";
+
+interface CommentEditorProps {
+  initialBody?: string;
+  submitLabel: string;
+  // Returns false to keep the text (e.g. it was rejected)
+  onSubmit: (body: string) => boolean;
+  onCancel?: () => void;
+}
+
+function CommentEditor({ initialBody = "", submitLabel, onSubmit, onCancel }: CommentEditorProps) {
+  const { darkMode } = useTheme();
+  const [body, setBody] = useState(initialBody);
+  const [isPreview, setIsPreview] = useState(false);
+
+  const submit = () => {
+    if (onSubmit(body) && !onCancel) {
+      setBody("");
+      setIsPreview(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      submit();
+    } else if (e.key === "Escape" && onCancel) {
+      onCancel();
+    }
+  };
+
+  const tabClass = (active: boolean) => `px-2 py-0.5 text-xs rounded-md transition-colors ${active
+    ? (darkMode ? 'bg-gray-600 text-gray-100' : 'bg-indigo-100 text-indigo-800')
+    : (darkMode ? 'text-gray-400 hover:text-gray-200' : 'text-gray-500 hover:text-gray-700')}`;
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <div className="flex gap-1">
+        <button type="button" className={tabClass(!isPreview)} onClick={() => setIsPreview(false)}>Write</button>
+        <button type="button" className={tabClass(isPreview)} onClick={() => setIsPreview(true)}>Preview</button>
+      </div>
+      {isPreview ? (
+        <div className={`min-h-[80px] p-2 rounded-lg border ${darkMode ? 'border-gray-600' : 'border-indigo-200'}`}>
+          {body.trim() ? <Markdown source={body} /> : <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Nothing to preview.</p>}
+        </div>
+      ) : (
+        <textarea
+          autoFocus={Boolean(onCancel)}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={handleKeyDown}
+          maxLength={MAX_COMMENT_LENGTH}
+          placeholder="Add a finding or note. Markdown is supported."
+          aria-label="Comment"
+          className={`w-full min-h-[80px] rounded-lg p-2 text-sm ${darkMode
+            ? 'border-gray-600 bg-gray-700/50 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500'
+            : 'border-indigo-200 bg-white text-gray-800 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'} transition-colors duration-300`}
+        />
+      )}
+      <div className="flex items-center gap-2">
+        <span className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>**bold**, *italic*, `code`, - lists, &gt; quotes, [links](https://…)</span>
+        <div className="flex gap-2 ml-auto">
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className={`px-3 py-1 text-sm rounded-md transition-colors duration-150 shadow-sm ${darkMode
+                ? 'border border-gray-600 text-gray-300 hover:bg-gray-700'
+                : 'border border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={!body.trim()}
+            className={`px-3 py-1 text-sm rounded-md text-white shadow-sm transition-colors duration-150 disabled:opacity-50 ${darkMode
+              ? 'bg-purple-600 hover:bg-purple-700'
+              : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+interface IncidentCommentsProps {
+  incident: Incident;
+  // Trashed incidents show their thread but can't be changed
+  readOnly?: boolean;
+}
+
+export default function IncidentComments({ incident, readOnly = false }: IncidentCommentsProps) {
+  const { darkMode } = useTheme();
+  const { currentUser, can, addComment, editComment, deleteComment, pinRootCause } = useIncidentStore();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const rootCause = getRootCause(incident);
+  // Anyone can comment, but pinning the root cause edits the incident
+  const canPin = can("edit", incident);
+
+  const actionClass = `text-xs transition-colors ${darkMode ? 'text-gray-400 hover:text-purple-300' : 'text-gray-500 hover:text-indigo-600'}`;
+
+  const meta = (comment: IncidentComment) => (
+    <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+      <span className={`font-medium ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>{comment.author}</span>
+      {" · "}
+      <time dateTime={comment.created_at}>{new Date(comment.created_at).toLocaleString()}</time>
+      {comment.edited_at && (
+        <span title={`Edited ${new Date(comment.edited_at).toLocaleString()}`}> · edited</span>
+      )}
+    </p>
+  );
+
+  return (
+    <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-gray-600' : 'border-indigo-100'}`}>
+      <h4 className={`text-sm font-medium mb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+        Investigation Notes ({incident.comments.length})
+      </h4>
+
+      {rootCause && (
+        <div className={`mb-3 p-3 rounded-md border-l-4 ${darkMode ? 'bg-amber-900/20 border-amber-500' : 'bg-amber-50 border-amber-400'}`}>
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <span className={`text-xs font-semibold uppercase tracking-wide ${darkMode ? 'text-amber-300' : 'text-amber-700'}`}>Root cause</span>
+            {!readOnly && canPin && (
+              <button type="button" className={actionClass} onClick={() => pinRootCause(incident, null)}>Unpin</button>
+            )}
+          </div>
+          <Markdown source={rootCause.body} />
+          <div className="mt-1">{meta(rootCause)}</div>
+        </div>
+      )}
+
+      {incident.comments.length === 0 ? (
+        <p className={`text-sm mb-3 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>No notes yet.</p>
+      ) : (
+        <ul className="space-y-3 mb-3">
+          {incident.comments.map(comment => {
+            const isOwn = isOwnComment(comment, currentUser);
+            const isRootCause = comment.id === incident.root_cause_comment_id;
+            return (
+              <li key={comment.id} className={`p-3 rounded-md text-sm ${darkMode ? 'bg-gray-800/60' : 'bg-white/70'}`}>
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                  {meta(comment)}
+                  {!readOnly && editingId !== comment.id && (
+                    <div className="flex gap-3">
+                      {canPin && (
+                        <button type="button" className={actionClass} onClick={() => pinRootCause(incident, isRootCause ? null : comment.id)}>
+                          {isRootCause ? "Unpin root cause" : "Pin as root cause"}
+                        </button>
+                      )}
+                      {isOwn && (
+                        <>
+                          <button type="button" className={actionClass} onClick={() => setEditingId(comment.id)}>Edit</button>
+                          <button type="button" className={actionClass} onClick={() => deleteComment(incident, comment.id)}>Delete</button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+                {editingId === comment.id ? (
+                  <CommentEditor
+                    initialBody={comment.body}
+                    submitLabel="Save"
+                    onSubmit={body => {
+                      const saved = editComment(incident, comment.id, body);
+                      if (saved) setEditingId(null);
+                      return saved;
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <Markdown source={comment.body} />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {!readOnly && (
+        <CommentEditor submitLabel="Comment" onSubmit={body => addComment(incident, body)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import React, { useId, useState } from "react";
+import { useTheme } from "../context/ThemeContext";
+import { getPeople } from "../lib/assignment";
+import { getEditableValues, type IncidentEdit } from "../lib/incidentRevisions";
+import { SEVERITIES } from "../lib/severity";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident, Severity } from "../types";
+import TaxonomyFields from "./TaxonomyFields";
+
+interface IncidentEditFormProps {
+  incident: Incident;
+  onSave: (incident: Incident, values: IncidentEdit) => void;
+  onCancel: () => void;
+}
+
+export default function IncidentEditForm({ incident, onSave, onCancel }: IncidentEditFormProps) {
+  const { darkMode } = useTheme();
+  const { incidents } = useIncidentStore();
+  const [values, setValues] = useState<IncidentEdit>(() => getEditableValues(incident));
+  const peopleListId = useId();
+
+  const inputClass = `w-full rounded-lg p-2 ${darkMode
+    ? 'border-gray-600 bg-gray-700/50 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500'
+    : 'border-indigo-200 bg-indigo-50/50 text-gray-800 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'} transition-colors duration-300`;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(incident, { ...values, title: values.title.trim(), description: values.description.trim() });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <input
+        className={inputClass}
+        value={values.title}
+        onChange={e => setValues({ ...values, title: e.target.value })}
+        aria-label="Incident title"
+      />
+      <textarea
+        className={`${inputClass} min-h-[100px]`}
+        value={values.description}
+        onChange={e => setValues({ ...values, description: e.target.value })}
+        aria-label="Incident description"
+      />
+      <TaxonomyFields compact values={values} onChange={(key, value) => setValues({ ...values, [key]: value })} />
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={values.severity}
+          onChange={e => setValues({ ...values, severity: e.target.value as Severity })}
+          aria-label="Severity"
+          className={`px-3 py-1.5 rounded-lg text-sm shadow-sm ${darkMode
+            ? 'bg-gray-700 text-gray-300 border border-gray-600'
+            : 'bg-white text-gray-700 border border-indigo-200'}`}
+        >
+          {SEVERITIES.map(severity => (
+            <option key={severity} value={severity}>{severity}</option>
+          ))}
+        </select>
+        <input
+          value={values.assignee}
+          onChange={e => setValues({ ...values, assignee: e.target.value })}
+          list={peopleListId}
+          placeholder="Unassigned"
+          aria-label="Assignee"
+          className={`px-3 py-1.5 rounded-lg text-sm shadow-sm ${darkMode
+            ? 'bg-gray-700 text-gray-300 border border-gray-600'
+            : 'bg-white text-gray-700 border border-indigo-200'}`}
+        />
+        <datalist id={peopleListId}>
+          {getPeople(incidents).map(name => <option key={name} value={name} />)}
+        </datalist>
+        <div className="flex gap-2 ml-auto">
+          <button
+            type="button"
+            onClick={onCancel}
+            className={`px-3 py-1 text-sm rounded-md transition-colors duration-150 shadow-sm ${darkMode
+              ? 'border border-gray-600 text-gray-300 hover:bg-gray-700'
+              : 'border border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className={`px-3 py-1 text-sm rounded-md text-white shadow-sm transition-colors duration-150 ${darkMode
+              ? 'bg-purple-600 hover:bg-purple-700'
+              : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
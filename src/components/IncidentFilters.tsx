@@ -0,0 +1,244 @@
+import { SEVERITY_LEVELS } from "../config/severity";
+import { SELECT_TAXONOMY_FIELDS, type TaxonomyKey } from "../config/taxonomy";
+import { useTheme } from "../context/ThemeContext";
+import { INCIDENT_STATUSES } from "../lib/incidentStatus";
+import { SEARCH_FIELDS, type QueryParseError } from "../lib/searchQuery";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { IncidentStatus } from "../types";
+import type { ListView } from "../views/listView";
+import SavedViewsMenu from "./SavedViewsMenu";
+import TagInput from "./TagInput";
+
+interface IncidentFiltersProps {
+  view: ListView;
+  onChange: (changes: Partial<ListView>) => void;
+  searchError: QueryParseError | null;
+  onOpenTransfer: () => void;
+}
+
+export default function IncidentFilters({ view, onChange, searchError, onOpenTransfer }: IncidentFiltersProps) {
+  const { darkMode } = useTheme();
+  const { tags, currentUser } = useIncidentStore();
+
+  const setTaxonomyFilterValue = (key: TaxonomyKey, value: string) => {
+    onChange({ taxonomy: { ...view.taxonomy, [key]: value || undefined } });
+  };
+
+  return (
+    <div className={`${darkMode 
+      ? 'bg-gray-800 border-gray-700' 
+      : 'bg-white border-indigo-100'} p-5 rounded-xl shadow-md mb-6 border transition-colors duration-300`}>
+      <div className="mb-4">
+        <div className="relative">
+          <input
+            type="text"
+            placeholder='Search incidents... e.g. severity:>=medium reported:>2025-03-01 "data leak"'
+            value={view.search}
+            onChange={(e) => onChange({ search: e.target.value })}
+            aria-invalid={searchError !== null}
+            aria-describedby="search-help"
+            className={`w-full p-3 pl-10 rounded-lg ${searchError ? 'ring-2 ring-rose-500 ' : ''}${darkMode 
+              ? 'border-gray-600 bg-gray-700/50 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500' 
+              : 'border-indigo-200 bg-indigo-50/50 text-gray-800 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'} transition-colors duration-300`}
+          />
+          <svg className={`absolute left-3 top-3.5 h-5 w-5 ${darkMode ? 'text-gray-400' : 'text-indigo-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"></path>
+          </svg>
+        </div>
+        <p
+          id="search-help"
+          role={searchError ? "alert" : undefined}
+          className={`mt-2 text-xs ${searchError
+            ? (darkMode ? 'text-rose-400' : 'text-rose-600')
+            : (darkMode ? 'text-gray-400' : 'text-gray-500')}`}
+        >
+          {searchError
+            ? `${searchError.message} (at character ${searchError.position + 1})`
+            : `Combine terms with AND, OR, NOT or -word; qualify with ${SEARCH_FIELDS.join(", ")}.`}
+        </p>
+      </div>
+      
+      <div className="flex flex-wrap gap-4">
+        <div>
+          <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Filter by Severity</label>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onChange({ severity: "All" })}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm
+                ${view.severity === "All" 
+                  ? (darkMode ? "bg-purple-600 text-white" : "bg-indigo-600 text-white")
+                  : (darkMode 
+                      ? "bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600" 
+                      : "bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50")
+                }`}
+            >
+              All
+            </button>
+            {SEVERITY_LEVELS.map(level => (
+              <button
+                key={level.name}
+                onClick={() => onChange({ severity: level.name })}
+                title={level.description}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm
+                  ${view.severity === level.name 
+                    ? level.activeButton 
+                    : (darkMode ? level.dark.button : level.light.button)
+                  }`}
+              >
+                {level.name}
+              </button>
+            ))}
+          </div>
+        </div>
+        
+        <div>
+          <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Filter by Status</label>
+          <select
+            value={view.status}
+            onChange={(e) => onChange({ status: e.target.value as IncidentStatus | "All" })}
+            className={`px-4 py-2 rounded-lg text-sm font-medium shadow-sm ${darkMode 
+              ? 'bg-gray-700 text-gray-300 border border-gray-600' 
+              : 'bg-white text-gray-700 border border-indigo-200'}`}
+          >
+            <option value="All">All</option>
+            {INCIDENT_STATUSES.map(status => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+          </select>
+        </div>
+
+        {SELECT_TAXONOMY_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>{field.label}</label>
+            <select
+              value={view.taxonomy[field.key] ?? ""}
+              onChange={(e) => setTaxonomyFilterValue(field.key, e.target.value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium shadow-sm ${darkMode 
+                ? 'bg-gray-700 text-gray-300 border border-gray-600' 
+                : 'bg-white text-gray-700 border border-indigo-200'}`}
+            >
+              <option value="">All</option>
+              {field.options.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+
+        <div>
+          <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>SLA</label>
+          <button
+            onClick={() => onChange({ breaching: !view.breaching })}
+            aria-pressed={view.breaching}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm
+              ${view.breaching 
+                ? "bg-rose-600 text-white"
+                : (darkMode 
+                    ? "bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600" 
+                    : "bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50")
+              }`}
+          >
+            Breaching SLA only
+          </button>
+        </div>
+
+        <div>
+          <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>People</label>
+          <div className="flex gap-2">
+            {([
+              ["reportedByMe", "My incidents", `Reported by ${currentUser}`],
+              ["assignedToMe", "Assigned to me", `Assigned to ${currentUser}`],
+            ] as const).map(([key, label, title]) => (
+              <button
+                key={key}
+                onClick={() => onChange({ [key]: !view[key] })}
+                aria-pressed={view[key]}
+                title={title}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm
+                  ${view[key] 
+                    ? (darkMode ? "bg-purple-600 text-white" : "bg-indigo-600 text-white")
+                    : (darkMode 
+                        ? "bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600" 
+                        : "bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50")
+                  }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="w-full sm:w-64">
+          <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Tags</label>
+          <TagInput
+            label="Filter by tags"
+            tags={view.tags}
+            onChange={tagList => onChange({ tags: tagList })}
+            suggestions={tags.map(tag => tag.name)}
+            allowNew={false}
+            placeholder="Any tag"
+          />
+        </div>
+
+        <div>
+          <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Sort by</label>
+          <div className="flex gap-2">
+            <button
+              onClick={() => onChange({ sort: "newest" })}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm
+                ${view.sort === "newest" 
+                  ? (darkMode ? "bg-purple-600 text-white" : "bg-indigo-600 text-white")
+                  : (darkMode 
+                      ? "bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600" 
+                      : "bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50")
+                }`}
+            >
+              Newest First
+            </button>
+            <button
+              onClick={() => onChange({ sort: "oldest" })}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm
+                ${view.sort === "oldest" 
+                  ? (darkMode ? "bg-purple-600 text-white" : "bg-indigo-600 text-white")
+                  : (darkMode 
+                      ? "bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600" 
+                      : "bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50")
+                }`}
+            >
+              Oldest First
+            </button>
+            <button
+              onClick={() => onChange({ sort: "sla" })}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm
+                ${view.sort === "sla" 
+                  ? (darkMode ? "bg-purple-600 text-white" : "bg-indigo-600 text-white")
+                  : (darkMode 
+                      ? "bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600" 
+                      : "bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50")
+                }`}
+            >
+              Breaching SLA
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Saved Views</label>
+          <SavedViewsMenu view={view} onApply={onChange} />
+        </div>
+
+        <div>
+          <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Data</label>
+          <button
+            onClick={onOpenTransfer}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm ${darkMode 
+              ? "bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600" 
+              : "bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50"}`}
+          >
+            Import / Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
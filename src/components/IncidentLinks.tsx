@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import { useTheme } from "../context/ThemeContext";
+import { INCIDENT_LINK_TYPES, INVERSE_LINK_LABELS, LINK_LABELS, getRelatedIncidents } from "../lib/incidentLinks";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident, IncidentLinkType } from "../types";
+import LinkGraph from "./LinkGraph";
+import SeverityBadge from "./SeverityBadge";
+import StatusBadge from "./StatusBadge";
+
+interface IncidentLinksProps {
+  incident: Incident;
+  // Trashed incidents show their links but can't be changed
+  readOnly?: boolean;
+}
+
+export default function IncidentLinks({ incident, readOnly = false }: IncidentLinksProps) {
+  const { darkMode } = useTheme();
+  const { incidents, trashedIncidents, linkIncidents, unlinkIncidents } = useIncidentStore();
+  const [type, setType] = useState<IncidentLinkType>("related_to");
+  const [targetId, setTargetId] = useState("");
+
+  // Links to trashed incidents still count until they're deleted for good
+  const allIncidents = [...incidents, ...trashedIncidents];
+  const related = getRelatedIncidents(incident, allIncidents);
+  const candidates = incidents.filter(other => other.id !== incident.id);
+  const target = candidates.find(other => String(other.id) === targetId);
+
+  const actionClass = `text-xs transition-colors ${darkMode ? 'text-gray-400 hover:text-purple-300' : 'text-gray-500 hover:text-indigo-600'}`;
+  const controlClass = `px-2 py-1 rounded-lg text-sm shadow-sm ${darkMode
+    ? 'bg-gray-700 text-gray-300 border border-gray-600'
+    : 'bg-white text-gray-700 border border-indigo-200'}`;
+
+  return (
+    <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-gray-600' : 'border-indigo-100'}`}>
+      <h4 className={`text-sm font-medium mb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+        Linked Incidents ({related.length})
+      </h4>
+
+      {related.length === 0 ? (
+        <p className={`text-sm mb-3 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>No linked incidents.</p>
+      ) : (
+        <>
+          <ul className="space-y-2 mb-3">
+            {related.map(link => {
+              const other = link.incident;
+              const isTrashed = other.deleted_at !== null;
+              return (
+                <li
+                  key={`${link.inverse ? 'in' : 'out'}-${link.type}-${other.id}`}
+                  className={`flex flex-wrap items-center gap-2 p-2 rounded-md text-sm ${darkMode ? 'bg-gray-800/60' : 'bg-white/70'}`}
+                >
+                  <span className={`text-xs font-semibold uppercase tracking-wide w-28 shrink-0 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {link.inverse ? INVERSE_LINK_LABELS[link.type] : LINK_LABELS[link.type]}
+                  </span>
+                  <Link
+                    to={`/incidents/${other.id}`}
+                    className={`font-medium hover:underline min-w-0 truncate ${darkMode ? 'text-purple-300' : 'text-indigo-700'}`}
+                  >
+                    #{other.id} {other.title}
+                  </Link>
+                  <SeverityBadge severity={other.severity} />
+                  <StatusBadge status={other.status} />
+                  {isTrashed && <span className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>(in trash)</span>}
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      className={`${actionClass} ml-auto`}
+                      onClick={() => unlinkIncidents(link.source, link.type, link.inverse ? incident.id : other.id)}
+                    >
+                      Unlink
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <LinkGraph incident={incident} incidents={allIncidents} />
+        </>
+      )}
+
+      {!readOnly && (
+        <form
+          className="flex flex-wrap items-center gap-2 mt-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!target) return;
+            linkIncidents(incident, type, target);
+            setTargetId("");
+          }}
+        >
+          <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>This incident</span>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as IncidentLinkType)}
+            aria-label="Link type"
+            className={controlClass}
+          >
+            {INCIDENT_LINK_TYPES.map(linkType => (
+              <option key={linkType} value={linkType}>{LINK_LABELS[linkType].toLowerCase()}</option>
+            ))}
+          </select>
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            aria-label="Linked incident"
+            className={`${controlClass} flex-1 min-w-[12rem]`}
+          >
+            <option value="">Choose an incident…</option>
+            {candidates.map(other => (
+              <option key={other.id} value={other.id}>#{other.id} {other.title}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!target}
+            className={`px-3 py-1 text-sm rounded-md text-white shadow-sm transition-colors duration-150 disabled:opacity-50 ${darkMode
+              ? 'bg-purple-600 hover:bg-purple-700'
+              : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            Link
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import { formatTaxonomyValue } from "../config/taxonomy";
+import { useTheme } from "../context/ThemeContext";
+import { getDuplicateOf } from "../lib/incidentLinks";
+import type { IncidentEdit } from "../lib/incidentRevisions";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident } from "../types";
+import IncidentAttachments from "./IncidentAttachments";
+import IncidentComments from "./IncidentComments";
+import IncidentEditForm from "./IncidentEditForm";
+import IncidentRevisionHistory from "./IncidentRevisionHistory";
+import IncidentStatusPanel from "./IncidentStatusPanel";
+import IncidentTranscript from "./IncidentTranscript";
+import SeverityBadge from "./SeverityBadge";
+import SlaBadge from "./SlaBadge";
+import StatusBadge from "./StatusBadge";
+import SyncIndicator from "./SyncIndicator";
+import TaxonomySummary from "./TaxonomySummary";
+
+interface IncidentListItemProps {
+  incident: Incident;
+  expanded: boolean;
+  onToggleDetails: () => void;
+  onDelete: () => void;
+  // Clicking a tag chip filters the list by it
+  onSelectTag: (tag: string) => void;
+}
+
+export default function IncidentListItem({ incident, expanded, onToggleDetails, onDelete, onSelectTag }: IncidentListItemProps) {
+  const { darkMode } = useTheme();
+  const { isSyncMode, getSyncStatus, can, editIncident, changeStatus, revertIncident } = useIncidentStore();
+  const [isEditing, setIsEditing] = useState(false);
+  const duplicateOf = getDuplicateOf(incident);
+  const canEdit = can("edit", incident);
+
+  const handleEdit = (target: Incident, values: IncidentEdit) => {
+    if (editIncident(target, values)) setIsEditing(false);
+  };
+
+  return (
+    <div className="p-5">
+      {isEditing ? (
+        <IncidentEditForm
+          incident={incident}
+          onSave={handleEdit}
+          onCancel={() => setIsEditing(false)}
+        />
+      ) : (
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-2">
+          <div className="flex-1">
+            <h2 className={`text-lg font-semibold ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}>
+              <Link
+                to={`/incidents/${incident.id}`}
+                className={darkMode ? 'hover:text-purple-300' : 'hover:text-indigo-600'}
+              >
+                {incident.title}
+              </Link>
+            </h2>
+            <div className="flex flex-wrap gap-2 items-center mt-1">
+              <SeverityBadge severity={incident.severity} />
+              <StatusBadge status={incident.status} />
+              <SlaBadge incident={incident} />
+              {duplicateOf !== null && (
+                <Link
+                  to={`/incidents/${duplicateOf}`}
+                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${darkMode ? 'bg-gray-700 text-amber-300 hover:bg-gray-600' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'}`}
+                >
+                  Duplicate of #{duplicateOf}
+                </Link>
+              )}
+              {isSyncMode && <SyncIndicator status={getSyncStatus(incident.id)} />}
+              {incident.taxonomy.harm_category && (
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${darkMode ? 'bg-gray-700 text-gray-300' : 'bg-indigo-50 text-indigo-700'}`}>
+                  {formatTaxonomyValue("harm_category", incident.taxonomy.harm_category)}
+                </span>
+              )}
+              {incident.tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => onSelectTag(tag)}
+                  title={`Show incidents tagged ${tag}`}
+                  className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs transition-colors ${darkMode ? 'bg-gray-700 text-purple-300 hover:bg-gray-600' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+              <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {new Date(incident.reported_at).toLocaleString()}
+                {incident.reporter && ` by ${incident.reporter}`}
+                {` · ${incident.assignee ? `Assigned to ${incident.assignee}` : "Unassigned"}`}
+              </span>
+            </div>
+          </div>
+          <div className="flex gap-2 mt-2 sm:mt-0">
+            <button 
+              className={`px-3 py-1 text-sm rounded-md transition-colors duration-150 focus:outline-none focus:ring-2 shadow-sm ${
+                darkMode 
+                  ? 'text-purple-400 border border-purple-700 hover:bg-purple-900/30 focus:ring-purple-500' 
+                  : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50 focus:ring-indigo-500'
+              } focus:ring-opacity-50`}
+              onClick={onToggleDetails}
+            >
+              {expanded ? "Hide Details" : "View Details"}
+            </button>
+            {canEdit && (
+              <button 
+                className={`px-3 py-1 text-sm rounded-md transition-colors duration-150 focus:outline-none focus:ring-2 shadow-sm ${
+                  darkMode 
+                    ? 'text-gray-300 border border-gray-600 hover:bg-gray-700 focus:ring-gray-500' 
+                    : 'text-gray-700 border border-gray-300 hover:bg-gray-50 focus:ring-gray-400'
+                } focus:ring-opacity-50`}
+                onClick={() => setIsEditing(true)}
+              >
+                Edit
+              </button>
+            )}
+            {can("delete") && (
+              <button 
+                className={`px-3 py-1 text-sm rounded-md transition-colors duration-150 focus:outline-none focus:ring-2 shadow-sm ${
+                  darkMode 
+                    ? 'text-rose-400 border border-rose-700 hover:bg-rose-900/30 focus:ring-rose-500' 
+                    : 'text-rose-600 border border-rose-200 hover:bg-rose-50 focus:ring-rose-500'
+                } focus:ring-opacity-50`} 
+                onClick={onDelete}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      {expanded && (
+        <div className={`mt-3 p-4 rounded-md shadow-sm ${
+          darkMode 
+            ? 'bg-gray-700/50 border-l-4 border-purple-500' 
+            : 'bg-indigo-50/50 border-l-4 border-indigo-500'
+        } ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          {incident.description}
+          <TaxonomySummary incident={incident} />
+          <IncidentTranscript incident={incident} readOnly={!canEdit} />
+          <IncidentAttachments incident={incident} readOnly={!canEdit} />
+          <IncidentComments incident={incident} />
+          <IncidentStatusPanel incident={incident} onTransition={can("status") ? changeStatus : undefined} />
+          <IncidentRevisionHistory incident={incident} onRevert={canEdit ? revertIncident : undefined} />
+        </div>
+      )}
+    </div>
+  );
+}
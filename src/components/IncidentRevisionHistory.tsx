@@ -0,0 +1,111 @@
+import { TAXONOMY_FIELDS, formatTaxonomyValue, isTaxonomyKey } from "../config/taxonomy";
+import { useTheme } from "../context/ThemeContext";
+import { ORIGINAL_REVISION_ID, diffWords } from "../lib/incidentRevisions";
+import type { FieldChange, Incident } from "../types";
+
+interface IncidentRevisionHistoryProps {
+  incident: Incident;
+  // Left out when the user can't edit the incident
+  onRevert?: (incident: Incident, revisionId: number) => void;
+}
+
+const FIELD_LABELS = {
+  title: "Title",
+  description: "Description",
+  severity: "Severity",
+  assignee: "Assignee",
+  ...Object.fromEntries(TAXONOMY_FIELDS.map(field => [field.key, field.label])),
+} as Record<FieldChange["field"], string>;
+
+function ChangeDiff({ change }: { change: FieldChange }) {
+  const { darkMode } = useTheme();
+
+  if (change.field === "severity" || change.field === "assignee" || isTaxonomyKey(change.field)) {
+    const format = (value: string) =>
+      isTaxonomyKey(change.field) && value ? formatTaxonomyValue(change.field, value) : value || "(none)";
+    return (
+      <span>
+        <span className="line-through opacity-70">{format(change.from)}</span> → <span className="font-medium">{format(change.to)}</span>
+      </span>
+    );
+  }
+
+  return (
+    <span className="whitespace-pre-wrap">
+      {diffWords(change.from, change.to).map((segment, index) => (
+        <span
+          key={index}
+          className={
+            segment.type === "added"
+              ? (darkMode ? 'bg-emerald-900/60 text-emerald-200' : 'bg-emerald-100 text-emerald-800')
+              : segment.type === "removed"
+                ? (darkMode ? 'bg-rose-900/60 text-rose-200 line-through' : 'bg-rose-100 text-rose-800 line-through')
+                : ''
+          }
+        >
+          {segment.text}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export default function IncidentRevisionHistory({ incident, onRevert }: IncidentRevisionHistoryProps) {
+  const { darkMode } = useTheme();
+  const latestId = incident.revisions.length > 0
+    ? incident.revisions[incident.revisions.length - 1].id
+    : ORIGINAL_REVISION_ID;
+
+  const revertButton = (revisionId: number) => onRevert && (
+    <button
+      type="button"
+      onClick={() => onRevert(incident, revisionId)}
+      className={`px-2 py-0.5 text-xs rounded-md transition-colors duration-150 shadow-sm ${
+        darkMode
+          ? 'text-purple-300 border border-purple-700 hover:bg-purple-900/30'
+          : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50'
+      }`}
+    >
+      Revert to this version
+    </button>
+  );
+
+  return (
+    <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-gray-600' : 'border-indigo-100'}`}>
+      <h4 className={`text-sm font-medium mb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>History</h4>
+      {incident.revisions.length === 0 ? (
+        <p className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>No edits since this incident was reported.</p>
+      ) : (
+        <ul className="space-y-3">
+          {[...incident.revisions].reverse().map(revision => (
+            <li key={revision.id} className={`p-3 rounded-md text-sm ${darkMode ? 'bg-gray-800/60' : 'bg-white/70'}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Revision {revision.id} · {new Date(revision.at).toLocaleString()} by {revision.by}
+                  {revision.reverted_to !== undefined && (
+                    <> · reverted to {revision.reverted_to === ORIGINAL_REVISION_ID ? "original" : `revision ${revision.reverted_to}`}</>
+                  )}
+                </span>
+                {revision.id !== latestId && revertButton(revision.id)}
+              </div>
+              <dl className="space-y-1">
+                {revision.changes.map(change => (
+                  <div key={change.field}>
+                    <dt className="inline font-medium">{FIELD_LABELS[change.field]}: </dt>
+                    <dd className="inline"><ChangeDiff change={change} /></dd>
+                  </div>
+                ))}
+              </dl>
+            </li>
+          ))}
+          <li className={`p-3 rounded-md text-sm flex flex-wrap items-center justify-between gap-2 ${darkMode ? 'bg-gray-800/60' : 'bg-white/70'}`}>
+            <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Original report · {new Date(incident.reported_at).toLocaleString()}
+            </span>
+            {revertButton(ORIGINAL_REVISION_ID)}
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+}
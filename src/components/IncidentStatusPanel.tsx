@@ -0,0 +1,61 @@
+import { useTheme } from "../context/ThemeContext";
+import { getAllowedTransitions, getTransitionLabel } from "../lib/incidentStatus";
+import type { Incident, IncidentStatus } from "../types";
+import StatusBadge from "./StatusBadge";
+
+interface IncidentStatusPanelProps {
+  incident: Incident;
+  // Left out when the user can't change the status; only the history is shown
+  onTransition?: (incident: Incident, to: IncidentStatus) => void;
+}
+
+export default function IncidentStatusPanel({ incident, onTransition }: IncidentStatusPanelProps) {
+  const { darkMode } = useTheme();
+  const nextStatuses = onTransition ? getAllowedTransitions(incident.status) : [];
+
+  return (
+    <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-gray-600' : 'border-indigo-100'}`}>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <span className={`text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Status:</span>
+        <StatusBadge status={incident.status} />
+        {nextStatuses.map(status => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => onTransition?.(incident, status)}
+            className={`px-3 py-1 text-xs rounded-md transition-colors duration-150 shadow-sm ${
+              darkMode
+                ? 'text-purple-300 border border-purple-700 hover:bg-purple-900/30'
+                : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50'
+            }`}
+          >
+            {getTransitionLabel(incident.status, status)}
+          </button>
+        ))}
+      </div>
+
+      <h4 className={`text-sm font-medium mb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Status History</h4>
+      <ol className={`relative border-l ml-1 ${darkMode ? 'border-gray-600' : 'border-indigo-200'}`}>
+        {[...incident.status_history].reverse().map((transition, index) => (
+          <li key={`${transition.at}-${index}`} className="ml-4 mb-2 last:mb-0">
+            <div className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border ${
+              darkMode ? 'bg-gray-800 border-purple-500' : 'bg-white border-indigo-500'
+            }`}></div>
+            <p className="text-sm">
+              {transition.from ? (
+                <>
+                  <span className="font-medium">{transition.from}</span> → <span className="font-medium">{transition.to}</span>
+                </>
+              ) : (
+                <>Reported as <span className="font-medium">{transition.to}</span></>
+              )}
+            </p>
+            <p className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {new Date(transition.at).toLocaleString()} by {transition.by}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useRef, useState } from "react";
+import { toast } from "react-toastify";
+import { useTheme } from "../context/ThemeContext";
+import { downloadFile } from "../lib/download";
+import { addHighlight, removeHighlight, segmentTurn, toReplayRequest } from "../lib/transcript";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident, TranscriptHighlight, TranscriptRole } from "../types";
+import TranscriptEditor from "./TranscriptEditor";
+
+const ROLE_LABELS: Record<TranscriptRole, string> = {
+  system: "System",
+  user: "User",
+  assistant: "Assistant",
+};
+
+/** The selected text as a highlight range, if it lies within a single turn of `container`. */
+const getSelectedRange = (container: HTMLElement): Omit<TranscriptHighlight, "note"> | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  const turnOf = (node: Node) =>
+    (node instanceof Element ? node : node.parentElement)?.closest<HTMLElement>("[data-turn]") ?? null;
+  const turnElement = turnOf(range.startContainer);
+  if (!turnElement || turnElement !== turnOf(range.endContainer) || !container.contains(turnElement)) return null;
+
+  // Offsets count characters from the start of the turn, across any existing marks
+  const before = document.createRange();
+  before.selectNodeContents(turnElement);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+  return { turn: Number(turnElement.dataset.turn), start, end: start + range.toString().length };
+};
+
+interface IncidentTranscriptProps {
+  incident: Incident;
+  // Trashed incidents show their transcript but can't be changed
+  readOnly?: boolean;
+}
+
+export default function IncidentTranscript({ incident, readOnly = false }: IncidentTranscriptProps) {
+  const { darkMode } = useTheme();
+  const { setTranscript } = useIncidentStore();
+  const { transcript } = incident;
+  const [isEditing, setIsEditing] = useState(false);
+  // A selection waiting for its note
+  const [pendingHighlight, setPendingHighlight] = useState<Omit<TranscriptHighlight, "note"> | null>(null);
+  const [note, setNote] = useState("");
+  const chatRef = useRef<HTMLOListElement>(null);
+
+  const buttonClass = `px-2 py-0.5 text-xs rounded-md transition-colors duration-150 shadow-sm ${darkMode
+    ? 'text-purple-300 border border-purple-700 hover:bg-purple-900/30'
+    : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50'}`;
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+
+  const bubbleClass = (role: TranscriptRole) => {
+    switch (role) {
+      case "system": return `mx-auto max-w-full italic ${darkMode ? 'bg-gray-800 text-gray-400' : 'bg-gray-100 text-gray-600'}`;
+      case "user": return `ml-auto max-w-[85%] ${darkMode ? 'bg-purple-900/50 text-gray-100' : 'bg-indigo-600 text-white'}`;
+      case "assistant": return `mr-auto max-w-[85%] ${darkMode ? 'bg-gray-700 text-gray-200' : 'bg-white text-gray-800 border border-indigo-100'}`;
+    }
+  };
+
+  const startHighlight = () => {
+    const range = chatRef.current && getSelectedRange(chatRef.current);
+    if (!range) {
+      toast.info("Select text within one turn to highlight it");
+      return;
+    }
+    setPendingHighlight(range);
+    setNote("");
+  };
+
+  const saveHighlight = () => {
+    if (!transcript || !pendingHighlight) return;
+    setTranscript(incident, addHighlight(transcript, { ...pendingHighlight, note: note.trim() }));
+    setPendingHighlight(null);
+  };
+
+  const exportTranscript = () => {
+    if (!transcript) return;
+    downloadFile(
+      JSON.stringify(toReplayRequest(transcript), null, 2),
+      `incident-${incident.id}-transcript.json`,
+      "application/json"
+    );
+  };
+
+  if (isEditing) {
+    return (
+      <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-gray-600' : 'border-indigo-100'}`}>
+        <h4 className={`text-sm font-medium mb-2 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Transcript</h4>
+        <TranscriptEditor
+          transcript={transcript}
+          onSave={updated => {
+            setTranscript(incident, updated);
+            setIsEditing(false);
+          }}
+          onCancel={() => setIsEditing(false)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={`mt-4 pt-4 border-t ${darkMode ? 'border-gray-600' : 'border-indigo-100'}`}>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <h4 className={`text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Transcript</h4>
+        {transcript && (
+          <span className={`text-xs ${mutedClass}`}>
+            {transcript.model || "Unknown model"}
+            {Object.entries(transcript.parameters).map(([key, value]) => ` · ${key}=${value}`).join("")}
+          </span>
+        )}
+        <div className="flex gap-2 ml-auto">
+          {transcript && (
+            <>
+              {!readOnly && (
+                <button
+                  type="button"
+                  className={buttonClass}
+                  // Keep the text selection when the button is pressed
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={startHighlight}
+                >
+                  Highlight selection
+                </button>
+              )}
+              <button type="button" className={buttonClass} onClick={exportTranscript} title="OpenAI-style chat request for replaying the conversation">
+                Export
+              </button>
+            </>
+          )}
+          {!readOnly && (
+            <button type="button" className={buttonClass} onClick={() => setIsEditing(true)}>
+              {transcript ? "Edit" : "Add transcript"}
+            </button>
+          )}
+          {transcript && !readOnly && (
+            <button type="button" className={buttonClass} onClick={() => setTranscript(incident, null)}>Remove</button>
+          )}
+        </div>
+      </div>
+
+      {!transcript ? (
+        <p className={`text-sm ${mutedClass}`}>No transcript. Add the conversation that caused this incident, or import a chat log.</p>
+      ) : (
+        <>
+          <ol ref={chatRef} className="space-y-2">
+            {transcript.turns.map((turn, index) => (
+              <li key={index} className="flex flex-col">
+                <span className={`text-[0.65rem] uppercase tracking-wide mb-0.5 ${mutedClass} ${turn.role === "user" ? 'self-end' : turn.role === "system" ? 'self-center' : ''}`}>
+                  {ROLE_LABELS[turn.role]}
+                </span>
+                <div data-turn={index} className={`px-3 py-2 rounded-2xl text-sm whitespace-pre-wrap break-words ${bubbleClass(turn.role)}`}>
+                  {segmentTurn(transcript, index).map((segment, segmentIndex) =>
+                    segment.highlight ? (
+                      <mark
+                        key={segmentIndex}
+                        title={segment.highlight.note || "Highlighted"}
+                        className={`rounded px-0.5 ${darkMode ? 'bg-amber-500/40 text-amber-100' : 'bg-amber-200 text-gray-900'}`}
+                      >
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      segment.text
+                    )
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          {pendingHighlight && (
+            <form
+              className="mt-3 flex flex-wrap items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveHighlight();
+              }}
+            >
+              <span className={`text-xs ${mutedClass}`}>
+                Highlight "{transcript.turns[pendingHighlight.turn].content.slice(pendingHighlight.start, pendingHighlight.end)}"
+              </span>
+              <input
+                autoFocus
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Why is this wrong? (optional)"
+                aria-label="Highlight note"
+                className={`flex-1 min-w-[10rem] px-2 py-1 rounded-md text-xs border ${darkMode
+                  ? 'bg-gray-700 text-gray-200 border-gray-600'
+                  : 'bg-white text-gray-700 border-indigo-200'}`}
+              />
+              <button type="submit" className={buttonClass}>Save</button>
+              <button type="button" className={buttonClass} onClick={() => setPendingHighlight(null)}>Cancel</button>
+            </form>
+          )}
+
+          {transcript.highlights.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {transcript.highlights.map((highlight, index) => (
+                <li key={index} className={`flex items-start gap-2 text-xs ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                  <span className={`mt-1 w-2 h-2 rounded-full shrink-0 ${darkMode ? 'bg-amber-500' : 'bg-amber-400'}`}></span>
+                  <span className="flex-1">
+                    <span className={mutedClass}>{ROLE_LABELS[transcript.turns[highlight.turn]?.role ?? "assistant"]}, turn {highlight.turn + 1}: </span>
+                    "{transcript.turns[highlight.turn]?.content.slice(highlight.start, highlight.end)}"
+                    {highlight.note && <> — {highlight.note}</>}
+                  </span>
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      className={`${mutedClass} hover:text-rose-500`}
+                      onClick={() => setTranscript(incident, removeHighlight(transcript, highlight))}
+                    >
+                      Remove
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { Link, NavLink, Outlet, useLocation, useNavigate, useSearchParams } from "react-router";
+import { ToastContainer } from "react-toastify";
+import "react-toastify/dist/ReactToastify.css";
+import { useTheme } from "../context/ThemeContext";
+import { useIncidentAlerts } from "../notifications/useIncidentAlerts";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import { syncEngine } from "../sync/syncClient";
+import type { Severity } from "../types";
+import { DEFAULT_LIST_VIEW, fromSearchParams, toSearchParams } from "../views/listView";
+import FloatingCounter from "./FloatingCounter";
+import SyncConflictDialog from "./SyncConflictDialog";
+import SyncStatusBar from "./SyncStatusBar";
+
+const NAV_LINKS = [
+  { to: "/", label: "Incidents" },
+  { to: "/incidents/new", label: "Report" },
+  { to: "/triage", label: "Triage" },
+  { to: "/digest", label: "Digest" },
+  { to: "/tags", label: "Tags" },
+  { to: "/trash", label: "Trash" },
+  { to: "/settings", label: "Settings" },
+];
+
+/** Page chrome shared by every route: navbar, sync status, counter and toasts. */
+export default function Layout() {
+  const { darkMode, toggleDarkMode } = useTheme();
+  const { syncState, isSyncMode, undo, redo } = useIncidentStore();
+  const [isConflictDialogOpen, setIsConflictDialogOpen] = useState(false);
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  useIncidentAlerts();
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") return;
+      const target = event.target as HTMLElement;
+      if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+      event.preventDefault();
+      if (event.shiftKey) redo();
+      else undo();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  // Filter the list by severity, keeping the rest of the list view if it is open
+  const showSeverity = (severity: Severity) => {
+    const view = location.pathname === "/" ? fromSearchParams(searchParams) : DEFAULT_LIST_VIEW;
+    navigate({ pathname: "/", search: toSearchParams({ ...view, severity }).toString() });
+  };
+
+  return (
+    <div className={`min-h-screen transition-colors duration-300 ${darkMode 
+      ? 'bg-gradient-to-br from-gray-900 to-slate-800 text-gray-100' 
+      : 'bg-gradient-to-br from-indigo-50 to-sky-50 text-gray-800'}`}>
+      <ToastContainer 
+        position="bottom-left" 
+        autoClose={1000} 
+        theme={darkMode ? "dark" : "light"} 
+      />
+      
+      {/* Navbar */}
+      <div className={`${darkMode 
+        ? 'bg-gray-800 shadow-md border-b border-gray-700' 
+        : 'bg-white shadow-md border-b border-indigo-100'} sticky top-0 z-30`}>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className={`text-2xl font-bold ${darkMode ? 'text-gray-100' : 'text-indigo-900'}`}>
+            <Link to="/">
+              <span className={darkMode ? 'text-purple-400' : 'text-indigo-600'}>AI</span> Safety Incident Dashboard
+            </Link>
+          </h1>
+          <div className="flex items-center gap-3">
+            <nav className="flex gap-1">
+              {NAV_LINKS.map(({ to, label }) => (
+                <NavLink
+                  key={to}
+                  to={to}
+                  end
+                  className={({ isActive }) => `px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${isActive
+                    ? (darkMode ? 'bg-purple-600 text-white' : 'bg-indigo-600 text-white')
+                    : (darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-indigo-50')}`}
+                >
+                  {label}
+                </NavLink>
+              ))}
+            </nav>
+            <button 
+              onClick={toggleDarkMode}
+              className={`p-2 rounded-lg transition-colors duration-200 ${darkMode 
+                ? 'bg-gray-700 hover:bg-gray-600 text-yellow-300' 
+                : 'bg-indigo-100 hover:bg-indigo-200 text-indigo-800'}`}
+              aria-label="Toggle dark mode"
+            >
+              {darkMode ? (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
+                </svg>
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+                </svg>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+      
+      {isSyncMode && (
+        <SyncStatusBar
+          state={syncState}
+          onSyncNow={() => syncEngine.syncNow()}
+          onShowConflicts={() => setIsConflictDialogOpen(true)}
+        />
+      )}
+
+      {isConflictDialogOpen && (
+        <SyncConflictDialog
+          conflicts={syncState.conflicts}
+          onResolve={(id, choice) => syncEngine.resolveConflict(id, choice)}
+          onClose={() => setIsConflictDialogOpen(false)}
+        />
+      )}
+
+      {/* Floating Animated Counter Circle */}
+      <FloatingCounter onSelectSeverity={showSeverity} />
+      
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Outlet />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useNavigate } from "react-router";
+import { useTheme } from "../context/ThemeContext";
+import { LINK_LABELS, INCIDENT_LINK_TYPES, getLinkCluster } from "../lib/incidentLinks";
+import { getSeverityLevel } from "../lib/severity";
+import type { Incident, IncidentLinkType } from "../types";
+
+// Spelled out in full so Tailwind picks them up
+const EDGE_COLORS: Record<IncidentLinkType, string> = {
+  duplicate_of: "text-amber-500",
+  caused_by: "text-rose-500",
+  related_to: "text-gray-400",
+  regression_of: "text-purple-500",
+};
+
+interface LinkGraphProps {
+  incident: Incident;
+  // Every incident, including the trash, so the whole cluster can be drawn
+  incidents: Incident[];
+}
+
+/** The cluster of linked incidents in rings around the current one. Click a node to open it. */
+export default function LinkGraph({ incident, incidents }: LinkGraphProps) {
+  const { darkMode } = useTheme();
+  const navigate = useNavigate();
+  const { nodes, edges } = getLinkCluster(incident, incidents);
+  const maxDepth = Math.max(1, ...nodes.map(node => node.depth));
+
+  // Ring coordinates to percentages of the drawing area, leaving room for labels
+  const position = new Map(nodes.map(node => [
+    node.incident.id,
+    { left: 50 + (node.x / maxDepth) * 38, top: 50 + (node.y / maxDepth) * 38 },
+  ]));
+  const usedTypes = INCIDENT_LINK_TYPES.filter(type => edges.some(edge => edge.type === type));
+
+  return (
+    <div>
+      <div
+        className={`relative h-72 rounded-lg overflow-hidden ${darkMode ? 'bg-gray-900/40' : 'bg-indigo-50/40'}`}
+        role="img"
+        aria-label={`Graph of ${nodes.length} linked incidents`}
+      >
+        <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+          {edges.map((edge, index) => {
+            const from = position.get(edge.from)!;
+            const to = position.get(edge.to)!;
+            return (
+              <line
+                key={index}
+                x1={from.left}
+                y1={from.top}
+                x2={to.left}
+                y2={to.top}
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeDasharray={edge.type === "related_to" ? "4 3" : undefined}
+                vectorEffect="non-scaling-stroke"
+                className={EDGE_COLORS[edge.type]}
+              />
+            );
+          })}
+        </svg>
+        {nodes.map(node => {
+          const { left, top } = position.get(node.incident.id)!;
+          const isRoot = node.incident.id === incident.id;
+          return (
+            <button
+              key={node.incident.id}
+              type="button"
+              onClick={() => !isRoot && navigate(`/incidents/${node.incident.id}`)}
+              title={`${node.incident.title} (${node.incident.severity}, ${node.incident.status})`}
+              className={`absolute -translate-x-1/2 -translate-y-1/2 flex flex-col items-center max-w-[8rem] ${isRoot ? 'cursor-default' : 'hover:opacity-80'}`}
+              style={{ left: `${left}%`, top: `${top}%` }}
+            >
+              <span className={`block rounded-full ${getSeverityLevel(node.incident.severity).chart} ${isRoot
+                ? `w-5 h-5 ring-4 ${darkMode ? 'ring-purple-500/60' : 'ring-indigo-400/60'}`
+                : 'w-3.5 h-3.5'}`}></span>
+              <span className={`mt-1 text-[0.65rem] leading-tight text-center truncate max-w-full px-1 rounded ${darkMode ? 'text-gray-300 bg-gray-800/80' : 'text-gray-700 bg-white/80'} ${isRoot ? 'font-semibold' : ''}`}>
+                {node.incident.title}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      {usedTypes.length > 0 && (
+        <div className={`flex flex-wrap gap-3 mt-2 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {usedTypes.map(type => (
+            <span key={type} className="flex items-center gap-1">
+              <svg className={`w-4 h-2 ${EDGE_COLORS[type]}`} viewBox="0 0 16 2" aria-hidden="true">
+                <line x1="0" y1="1" x2="16" y2="1" stroke="currentColor" strokeWidth="2" strokeDasharray={type === "related_to" ? "4 3" : undefined} />
+              </svg>
+              {LINK_LABELS[type]}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useMemo } from "react";
+import { useTheme } from "../context/ThemeContext";
+import { parseMarkdown, type MarkdownInline } from "../lib/markdown";
+
+function Inlines({ nodes }: { nodes: MarkdownInline[] }) {
+  const { darkMode } = useTheme();
+
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text": return node.text;
+      case "break": return <br key={index} />;
+      case "strong": return <strong key={index}><Inlines nodes={node.children} /></strong>;
+      case "em": return <em key={index}><Inlines nodes={node.children} /></em>;
+      case "code":
+        return (
+          <code key={index} className={`px-1 rounded text-[0.85em] font-mono ${darkMode ? 'bg-gray-700 text-purple-200' : 'bg-indigo-50 text-indigo-800'}`}>
+            {node.text}
+          </code>
+        );
+      case "link":
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className={`underline ${darkMode ? 'text-purple-300 hover:text-purple-200' : 'text-indigo-600 hover:text-indigo-800'}`}
+          >
+            <Inlines nodes={node.children} />
+          </a>
+        );
+    }
+  });
+}
+
+/** Renders the comment Markdown subset from src/lib/markdown.ts; never injects HTML. */
+export default function Markdown({ source }: { source: string }) {
+  const { darkMode } = useTheme();
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={`space-y-2 text-sm break-words ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case "paragraph":
+            return <p key={index}><Inlines nodes={block.children} /></p>;
+          case "heading": {
+            const size = block.level === 1 ? "text-lg" : block.level === 2 ? "text-base" : "text-sm";
+            return (
+              <p key={index} role="heading" aria-level={block.level} className={`${size} font-semibold ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>
+                <Inlines nodes={block.children} />
+              </p>
+            );
+          }
+          case "list": {
+            const items = block.items.map((item, itemIndex) => <li key={itemIndex}><Inlines nodes={item} /></li>);
+            return block.ordered
+              ? <ol key={index} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+              : <ul key={index} className="list-disc pl-5 space-y-0.5">{items}</ul>;
+          }
+          case "quote":
+            return (
+              <blockquote key={index} className={`border-l-4 pl-3 ${darkMode ? 'border-gray-600 text-gray-400' : 'border-indigo-200 text-gray-500'}`}>
+                <Inlines nodes={block.children} />
+              </blockquote>
+            );
+          case "code":
+            return (
+              <pre key={index} className={`p-3 rounded-lg overflow-x-auto text-xs font-mono ${darkMode ? 'bg-gray-900 text-gray-200' : 'bg-gray-50 text-gray-800 border border-gray-200'}`}>
+                {block.text}
+              </pre>
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident } from "../types";
+import DeleteConfirmDialog from "./DeleteConfirmDialog";
+
+interface MoveToTrashDialogProps {
+  incidents: Incident[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export default function MoveToTrashDialog({ incidents, onConfirm, onCancel }: MoveToTrashDialogProps) {
+  const { trashPurgeDays } = useIncidentStore();
+  const single = incidents.length === 1;
+  const pronoun = single ? "it" : "them";
+  return (
+    <DeleteConfirmDialog
+      heading={single ? "Delete Incident" : "Delete Incidents"}
+      message={single
+        ? <>Move "<span className="text-rose-500 font-semibold">{incidents[0].title}</span>" to the trash?</>
+        : <>Move <span className="text-rose-500 font-semibold">{incidents.length} incidents</span> to the trash?</>}
+      note={trashPurgeDays === null
+        ? `You can restore ${pronoun} from the trash until someone deletes ${pronoun} for good.`
+        : `You can restore ${pronoun} from the trash for ${trashPurgeDays} days.`}
+      onConfirm={onConfirm}
+      onCancel={onCancel}
+    />
+  );
+}
@@ -0,0 +1,197 @@
+import React, { useState } from "react";
+import { toast } from "react-toastify";
+import { SEVERITY_LEVELS } from "../config/severity";
+import { useTheme } from "../context/ThemeContext";
+import { formatBytes, getAttachmentError } from "../lib/attachments";
+import { findLikelyDuplicates, type DuplicateMatch } from "../lib/duplicates";
+import { SEVERITIES, getSeverityLevel } from "../lib/severity";
+import { useIncidentStore, type IncidentReport } from "../store/IncidentStoreContext";
+import type { Incident } from "../types";
+import AttachmentDropZone from "./AttachmentDropZone";
+import DuplicateWarningDialog from "./DuplicateWarningDialog";
+import SeverityRubric from "./SeverityRubric";
+import StorageQuota from "./StorageQuota";
+import TagInput from "./TagInput";
+import TaxonomyFields from "./TaxonomyFields";
+
+// The report form starts at the least severe level
+const emptyReport = (): IncidentReport => ({
+  title: "",
+  description: "",
+  severity: SEVERITIES[0],
+  taxonomy: {},
+  tags: [],
+});
+
+interface ReportIncidentFormProps {
+  onReported?: (incident: Incident) => void;
+}
+
+export default function ReportIncidentForm({ onReported }: ReportIncidentFormProps) {
+  const { darkMode } = useTheme();
+  const { reportIncident, addAttachments, tags, incidents } = useIncidentStore();
+  const [newIncident, setNewIncident] = useState(emptyReport);
+  // Evidence is stored once the incident exists
+  const [files, setFiles] = useState<File[]>([]);
+  // Similar incidents found on submit, waiting for the reporter's decision
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[] | null>(null);
+  // Bumped on submit to reset the uncontrolled parts of the form
+  const [reportFormKey, setReportFormKey] = useState(0);
+
+  const submit = (duplicateOf?: number) => {
+    setDuplicates(null);
+    const incident = reportIncident(newIncident, duplicateOf);
+    if (!incident) return;
+    if (files.length > 0) addAttachments(incident, files);
+    setNewIncident(emptyReport());
+    setFiles([]);
+    setReportFormKey(key => key + 1);
+    onReported?.(incident);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Incomplete reports go straight through so the store can reject them
+    const matches = newIncident.title.trim() && newIncident.description.trim()
+      ? findLikelyDuplicates(newIncident, incidents)
+      : [];
+    if (matches.length > 0) setDuplicates(matches);
+    else submit();
+  };
+
+  const addFiles = (selected: File[]) => {
+    const accepted = selected.filter(file => {
+      const error = getAttachmentError(file);
+      if (error) toast.error(error);
+      return !error;
+    });
+    setFiles(current => [...current, ...accepted]);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {duplicates && (
+        <DuplicateWarningDialog
+          matches={duplicates}
+          onLink={submit}
+          onFileAnyway={() => submit()}
+          onCancel={() => setDuplicates(null)}
+        />
+      )}
+      <div>
+        <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>Incident Title</label>
+        <input
+          className={`w-full rounded-lg p-3 ${darkMode 
+            ? 'border-gray-600 bg-gray-700/50 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500' 
+            : 'border-indigo-200 bg-indigo-50/50 text-gray-800 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'} transition-colors duration-300`}
+          placeholder="Enter a descriptive title"
+          value={newIncident.title}
+          onChange={e => setNewIncident({ ...newIncident, title: e.target.value })}
+        />
+      </div>
+      <div>
+        <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>Description</label>
+        <textarea
+          className={`w-full rounded-lg p-3 min-h-[150px] ${darkMode 
+            ? 'border-gray-600 bg-gray-700/50 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500' 
+            : 'border-indigo-200 bg-indigo-50/50 text-gray-800 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'} transition-colors duration-300`}
+          placeholder="Provide a detailed description of the incident"
+          value={newIncident.description}
+          onChange={e => setNewIncident({ ...newIncident, description: e.target.value })}
+        />
+      </div>
+      <div>
+        <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>Severity Level</label>
+        <div className="flex flex-wrap gap-2">
+          {SEVERITY_LEVELS.map(level => (
+            <button
+              key={level.name}
+              type="button"
+              onClick={() => setNewIncident({ ...newIncident, severity: level.name })}
+              className={`flex-1 py-2 px-4 rounded-lg font-medium text-sm transition-colors 
+                ${newIncident.severity === level.name 
+                  ? level.activeButton 
+                  : (darkMode ? level.dark.button : level.light.button)
+                }`}
+            >
+              {level.name}
+            </button>
+          ))}
+        </div>
+        <p className={`mt-2 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {getSeverityLevel(newIncident.severity).description}
+        </p>
+      </div>
+      <div>
+        <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>Tags</label>
+        <TagInput
+          label="Tags"
+          tags={newIncident.tags}
+          onChange={tagList => setNewIncident({ ...newIncident, tags: tagList })}
+          suggestions={tags.map(tag => tag.name)}
+          placeholder="e.g. red-team, prompt-injection"
+        />
+      </div>
+      <div>
+        <label className={`block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}>Evidence</label>
+        <AttachmentDropZone onFiles={addFiles} />
+        {files.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {files.map((file, index) => (
+              <li key={`${file.name}-${index}`} className={`flex items-center justify-between gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                <span className="truncate">{file.name} <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{formatBytes(file.size)}</span></span>
+                <button
+                  type="button"
+                  onClick={() => setFiles(current => current.filter((_file, i) => i !== index))}
+                  aria-label={`Remove ${file.name}`}
+                  className={`text-xs ${darkMode ? 'text-gray-400 hover:text-rose-400' : 'text-gray-500 hover:text-rose-600'}`}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="mt-2">
+          <StorageQuota />
+        </div>
+      </div>
+      <details>
+        <summary className={`cursor-pointer text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          Not sure? Score it (impact × likelihood × reach)
+        </summary>
+        <div className="mt-3">
+          <SeverityRubric
+            key={reportFormKey}
+            current={newIncident.severity}
+            onApply={severity => setNewIncident({ ...newIncident, severity })}
+          />
+        </div>
+      </details>
+      <details>
+        <summary className={`cursor-pointer text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          Classification (model, deployment, harm)
+        </summary>
+        <div className="mt-3">
+          <TaxonomyFields
+            values={newIncident.taxonomy}
+            onChange={(key, value) => setNewIncident({
+              ...newIncident,
+              taxonomy: { ...newIncident.taxonomy, [key]: value },
+            })}
+          />
+        </div>
+      </details>
+      <button 
+        type="submit" 
+        className={`w-full px-6 py-3 rounded-lg font-medium transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-opacity-50 shadow-md ${
+          darkMode 
+            ? 'bg-gradient-to-r from-purple-600 to-indigo-700 text-white hover:from-purple-700 hover:to-indigo-800 focus:ring-purple-500' 
+            : 'bg-gradient-to-r from-indigo-600 to-indigo-700 text-white hover:from-indigo-700 hover:to-indigo-800 focus:ring-indigo-500'
+        }`}
+      >
+        Submit Incident Report
+      </button>
+    </form>
+  );
+}
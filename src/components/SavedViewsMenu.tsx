@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import { toast } from "react-toastify";
+import { useTheme } from "../context/ThemeContext";
+import { isSameFilter, type ListView } from "../views/listView";
+import { deleteSavedView, getSavedViews, saveView, toListView } from "../views/savedViews";
+
+interface SavedViewsMenuProps {
+  view: ListView;
+  onApply: (view: ListView) => void;
+}
+
+export default function SavedViewsMenu({ view, onApply }: SavedViewsMenuProps) {
+  const { darkMode } = useTheme();
+  const [savedViews, setSavedViews] = useState(getSavedViews);
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState("");
+
+  const active = savedViews.find(saved => isSameFilter(toListView(saved), view));
+
+  const controlClass = `px-4 py-2 rounded-lg text-sm font-medium shadow-sm ${darkMode
+    ? 'bg-gray-700 text-gray-300 border border-gray-600'
+    : 'bg-white text-gray-700 border border-indigo-200'}`;
+  const buttonClass = `${controlClass} transition-all ${darkMode ? 'hover:bg-gray-600' : 'hover:bg-indigo-50'}`;
+
+  const handleSelect = (id: string) => {
+    const saved = savedViews.find(entry => String(entry.id) === id);
+    if (saved) onApply({ ...toListView(saved), expanded: view.expanded });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setSavedViews(saveView(trimmed, view));
+    setIsNaming(false);
+    setName("");
+    toast.success(`Saved view "${trimmed}"`);
+  };
+
+  if (isNaming) {
+    return (
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input
+          autoFocus
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={e => e.key === "Escape" && setIsNaming(false)}
+          placeholder="View name"
+          aria-label="View name"
+          className={`${controlClass} w-36`}
+        />
+        <button type="submit" className={buttonClass}>Save</button>
+        <button type="button" onClick={() => setIsNaming(false)} className={buttonClass}>Cancel</button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex gap-2">
+      <select
+        value={active ? String(active.id) : ""}
+        onChange={e => handleSelect(e.target.value)}
+        aria-label="Saved views"
+        className={controlClass}
+      >
+        <option value="" disabled>{savedViews.length === 0 ? "No saved views" : "Choose a view"}</option>
+        {savedViews.map(saved => (
+          <option key={saved.id} value={saved.id}>{saved.name}</option>
+        ))}
+      </select>
+      {active ? (
+        <button type="button" onClick={() => setSavedViews(deleteSavedView(active.id))} className={buttonClass}>
+          Delete
+        </button>
+      ) : (
+        <button type="button" onClick={() => setIsNaming(true)} className={buttonClass}>
+          Save view
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { useTheme } from "../context/ThemeContext";
+import { getSeverityLevel, getSeverityPalette } from "../lib/severity";
+import type { Severity } from "../types";
+
+export default function SeverityBadge({ severity }: { severity: Severity }) {
+  const { darkMode } = useTheme();
+  return (
+    <span
+      title={getSeverityLevel(severity).description}
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getSeverityPalette(severity, darkMode).badge}`}
+    >
+      {severity}
+    </span>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { SCORING_FACTORS } from "../config/severity";
+import { useTheme } from "../context/ThemeContext";
+import { MAX_RUBRIC_SCORE, scoreRubric, suggestSeverity, type RubricScores } from "../lib/severity";
+import type { Severity } from "../types";
+
+interface SeverityRubricProps {
+  current: Severity;
+  onApply: (severity: Severity) => void;
+}
+
+/** Optional impact × likelihood × reach scoring that suggests a severity level. */
+export default function SeverityRubric({ current, onApply }: SeverityRubricProps) {
+  const { darkMode } = useTheme();
+  const [scores, setScores] = useState<Partial<RubricScores>>({});
+
+  const complete = SCORING_FACTORS.every(factor => scores[factor.key] !== undefined);
+  const suggestion = complete ? suggestSeverity(scores as RubricScores) : null;
+
+  const selectClass = `w-full rounded-lg p-2 text-sm ${darkMode
+    ? 'border-gray-600 bg-gray-700/50 text-gray-200'
+    : 'border-indigo-200 bg-indigo-50/50 text-gray-800'} transition-colors duration-300`;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {SCORING_FACTORS.map(factor => (
+          <div key={factor.key}>
+            <label htmlFor={`rubric-${factor.key}`} className={`block text-xs font-medium mb-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              {factor.label}
+            </label>
+            <select
+              id={`rubric-${factor.key}`}
+              className={selectClass}
+              value={scores[factor.key] ?? ""}
+              onChange={e => setScores({ ...scores, [factor.key]: e.target.value ? Number(e.target.value) : undefined })}
+            >
+              <option value="">–</option>
+              {factor.options.map((label, index) => (
+                <option key={label} value={index + 1}>{index + 1} · {label}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      {suggestion && (
+        <div className={`flex items-center justify-between gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          <span>
+            Score {scoreRubric(scores as RubricScores)}/{MAX_RUBRIC_SCORE} · suggests <strong>{suggestion}</strong>
+          </span>
+          {suggestion !== current && (
+            <button
+              type="button"
+              onClick={() => onApply(suggestion)}
+              className={`px-3 py-1 text-sm rounded-md shadow-sm transition-colors duration-150 ${darkMode
+                ? 'text-purple-300 border border-purple-700 hover:bg-purple-900/30'
+                : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50'}`}
+            >
+              Use {suggestion}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
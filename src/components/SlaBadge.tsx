@@ -0,0 +1,39 @@
+import { useTheme } from "../context/ThemeContext";
+import { getSlaLabel, getSlaStatus, type SlaLevel } from "../lib/sla";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident } from "../types";
+
+const LEVEL_COLORS: Record<SlaLevel, { light: string; dark: string }> = {
+  on_track: {
+    light: "bg-white text-gray-600 border-gray-300",
+    dark: "bg-gray-800 text-gray-300 border-gray-600",
+  },
+  escalated: {
+    light: "bg-amber-100 text-amber-800 border-amber-400",
+    dark: "bg-amber-900 text-amber-200 border-amber-600",
+  },
+  breached: {
+    light: "bg-rose-600 text-white border-rose-700",
+    dark: "bg-rose-700 text-white border-rose-500",
+  },
+};
+
+/** Live countdown to the incident's current SLA target; nothing once it is resolved. */
+export default function SlaBadge({ incident }: { incident: Incident }) {
+  const { darkMode } = useTheme();
+  const { slaSettings, now } = useIncidentStore();
+  const status = getSlaStatus(incident, slaSettings, now);
+  if (!status) return null;
+  const colors = LEVEL_COLORS[status.level];
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium border ${darkMode ? colors.dark : colors.light}`}
+      title={`${status.phase === "acknowledge" ? "Acknowledgement" : "Resolution"} due ${new Date(status.dueAt).toLocaleString()}`}
+    >
+      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path>
+      </svg>
+      {getSlaLabel(status)}
+    </span>
+  );
+}
@@ -0,0 +1,39 @@
+import { useTheme } from "../context/ThemeContext";
+import type { IncidentStatus } from "../types";
+
+const STATUS_COLORS: Record<IncidentStatus, { light: string; dark: string }> = {
+  Open: {
+    light: "bg-sky-100 text-sky-800 border-sky-300",
+    dark: "bg-sky-900 text-sky-200 border-sky-700",
+  },
+  Triaged: {
+    light: "bg-violet-100 text-violet-800 border-violet-300",
+    dark: "bg-violet-900 text-violet-200 border-violet-700",
+  },
+  Investigating: {
+    light: "bg-orange-100 text-orange-800 border-orange-300",
+    dark: "bg-orange-900 text-orange-200 border-orange-700",
+  },
+  Mitigated: {
+    light: "bg-teal-100 text-teal-800 border-teal-300",
+    dark: "bg-teal-900 text-teal-200 border-teal-700",
+  },
+  Resolved: {
+    light: "bg-green-100 text-green-800 border-green-300",
+    dark: "bg-green-900 text-green-200 border-green-700",
+  },
+  Closed: {
+    light: "bg-gray-100 text-gray-700 border-gray-300",
+    dark: "bg-gray-700 text-gray-200 border-gray-500",
+  },
+};
+
+export default function StatusBadge({ status }: { status: IncidentStatus }) {
+  const { darkMode } = useTheme();
+  const colors = STATUS_COLORS[status];
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${darkMode ? colors.dark : colors.light}`}>
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { useTheme } from "../context/ThemeContext";
+import { formatBytes } from "../lib/attachments";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+
+/** Browser storage used by this site, with the share taken by attachments. */
+export default function StorageQuota() {
+  const { darkMode } = useTheme();
+  const { attachments } = useIncidentStore();
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const attachmentBytes = attachments.reduce((total, attachment) => total + attachment.size, 0);
+
+  // Re-estimate whenever files are added or removed
+  useEffect(() => {
+    // Only available in secure contexts
+    if (!navigator.storage) return;
+    let cancelled = false;
+    navigator.storage.estimate()
+      .then(result => {
+        if (!cancelled) setEstimate(result);
+      })
+      .catch(error => console.error("Failed to estimate storage:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [attachmentBytes]);
+
+  const usage = estimate?.usage ?? attachmentBytes;
+  const quota = estimate?.quota;
+  const percent = quota ? Math.min(100, (usage / quota) * 100) : 0;
+  const barColor = percent > 90 ? 'bg-rose-500' : percent > 70 ? 'bg-amber-500' : (darkMode ? 'bg-purple-500' : 'bg-indigo-500');
+
+  return (
+    <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+      <div className="flex justify-between mb-1">
+        <span>Attachments: {formatBytes(attachmentBytes)} in {attachments.length} {attachments.length === 1 ? "file" : "files"}</span>
+        <span>{quota ? `${formatBytes(usage)} of ${formatBytes(quota)} used` : "Storage quota unavailable"}</span>
+      </div>
+      {quota !== undefined && (
+        <div
+          role="meter"
+          aria-label="Browser storage used"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(percent)}
+          className={`h-1.5 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-indigo-100'}`}
+        >
+          <div className={`h-full ${barColor} transition-all duration-500`} style={{ width: `${percent}%` }}></div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useEffect } from "react";
+import { useTheme } from "../context/ThemeContext";
+import { pickNewest, type ConflictChoice, type SyncConflict } from "../sync/syncEngine";
+import type { Incident } from "../types";
+
+interface SyncConflictDialogProps {
+  conflicts: SyncConflict[];
+  onResolve: (id: number, choice: ConflictChoice) => void;
+  onClose: () => void;
+}
+
+function ConflictSide({ label, incident, changedAt }: { label: string; incident: Incident | null; changedAt: string }) {
+  const { darkMode } = useTheme();
+  return (
+    <div className={`flex-1 p-3 rounded-md ${darkMode ? 'bg-gray-700/50' : 'bg-indigo-50/50'}`}>
+      <p className={`text-xs mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        {label} · {new Date(changedAt).toLocaleString()}
+      </p>
+      {incident ? (
+        <>
+          <p className="font-medium">{incident.title}</p>
+          <p className="text-xs mb-1">{incident.severity} · {incident.status}</p>
+          <p className="text-sm line-clamp-3">{incident.description}</p>
+        </>
+      ) : (
+        <p className="italic">Deleted</p>
+      )}
+    </div>
+  );
+}
+
+export default function SyncConflictDialog({ conflicts, onResolve, onClose }: SyncConflictDialogProps) {
+  const { darkMode } = useTheme();
+
+  useEffect(() => {
+    if (conflicts.length === 0) onClose();
+  }, [conflicts.length, onClose]);
+
+  const buttonClass = `px-3 py-1 text-sm rounded-md shadow-sm transition-colors duration-150 ${darkMode
+    ? 'text-purple-300 border border-purple-700 hover:bg-purple-900/30'
+    : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/30 dark:bg-gray-800/50 z-50 flex items-center justify-center backdrop-blur-sm">
+      <div
+        role="dialog"
+        aria-label="Resolve sync conflicts"
+        className={`relative ${darkMode
+          ? 'bg-gray-800 border-gray-700 text-gray-200'
+          : 'bg-white border-indigo-100 text-gray-800'} rounded-xl p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto shadow-2xl border`}
+        style={{ animation: "popup-appear 0.3s ease-out" }}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-xl font-bold">Sync Conflicts</h3>
+          <button onClick={onClose} aria-label="Close" className={`text-2xl leading-none ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>×</button>
+        </div>
+        <p className={`text-sm mb-4 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          These incidents were changed here and on the server since the last sync. Choose which copy to keep.
+        </p>
+        <button
+          onClick={() => conflicts.forEach(conflict => onResolve(conflict.id, pickNewest(conflict)))}
+          className={`${buttonClass} mb-4`}
+        >
+          Resolve all: newest change wins
+        </button>
+
+        <ul className="space-y-4">
+          {conflicts.map(conflict => (
+            <li key={conflict.id} className={`p-3 rounded-lg border ${darkMode ? 'border-gray-700' : 'border-indigo-100'}`}>
+              <div className="flex flex-col sm:flex-row gap-3 mb-3">
+                <ConflictSide label="This browser" incident={conflict.local} changedAt={conflict.localChangedAt} />
+                <ConflictSide
+                  label="Server"
+                  incident={conflict.remote}
+                  changedAt={conflict.remote?.updated_at ?? conflict.detectedAt}
+                />
+              </div>
+              <div className="flex gap-2 justify-end">
+                <button onClick={() => onResolve(conflict.id, "local")} className={buttonClass}>Keep mine</button>
+                <button onClick={() => onResolve(conflict.id, "remote")} className={buttonClass}>Keep server</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
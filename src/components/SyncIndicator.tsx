@@ -0,0 +1,24 @@
+import { useTheme } from "../context/ThemeContext";
+
+export type IncidentSyncStatus = "synced" | "pending" | "conflict";
+
+const LABELS: Record<IncidentSyncStatus, string> = {
+  synced: "Synced",
+  pending: "Pending sync",
+  conflict: "Sync conflict",
+};
+
+export default function SyncIndicator({ status }: { status: IncidentSyncStatus }) {
+  const { darkMode } = useTheme();
+  const dotColor = status === "synced" ? "bg-emerald-500" : status === "pending" ? "bg-amber-500" : "bg-rose-500";
+
+  return (
+    <span
+      title={LABELS[status]}
+      className={`inline-flex items-center gap-1 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
+    >
+      <span className={`w-2 h-2 rounded-full ${dotColor} ${status === "pending" ? 'animate-pulse' : ''}`}></span>
+      {status !== "synced" && LABELS[status]}
+    </span>
+  );
+}
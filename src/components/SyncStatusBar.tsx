@@ -0,0 +1,51 @@
+import { useTheme } from "../context/ThemeContext";
+import type { SyncState } from "../sync/syncEngine";
+
+interface SyncStatusBarProps {
+  state: SyncState;
+  onSyncNow: () => void;
+  onShowConflicts: () => void;
+}
+
+export default function SyncStatusBar({ state, onSyncNow, onShowConflicts }: SyncStatusBarProps) {
+  const { darkMode } = useTheme();
+  const pendingCount = state.pendingIds.length - state.conflicts.length;
+
+  const status = !state.online
+    ? "Offline: changes are saved locally"
+    : state.syncing
+      ? "Syncing…"
+      : state.error
+        ? state.error
+        : state.lastSyncedAt
+          ? `Last synced ${new Date(state.lastSyncedAt).toLocaleTimeString()}`
+          : "Not synced yet";
+
+  return (
+    <div className={`${darkMode
+      ? 'bg-gray-800/80 border-b border-gray-700 text-gray-300'
+      : 'bg-indigo-50 border-b border-indigo-100 text-gray-700'} text-sm`}>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center gap-4">
+        <span className="flex items-center gap-2">
+          <span className={`w-2 h-2 rounded-full ${!state.online ? 'bg-gray-400' : state.error ? 'bg-rose-500' : 'bg-emerald-500'}`}></span>
+          {status}
+        </span>
+        {pendingCount > 0 && <span>{pendingCount} change{pendingCount === 1 ? "" : "s"} waiting to upload</span>}
+        {state.conflicts.length > 0 && (
+          <button onClick={onShowConflicts} className="text-rose-500 font-medium hover:underline">
+            {state.conflicts.length} conflict{state.conflicts.length === 1 ? "" : "s"} to resolve
+          </button>
+        )}
+        <button
+          onClick={onSyncNow}
+          disabled={!state.online || state.syncing}
+          className={`ml-auto px-3 py-1 rounded-md text-xs font-medium shadow-sm disabled:opacity-50 ${darkMode
+            ? 'border border-gray-600 hover:bg-gray-700'
+            : 'border border-indigo-200 bg-white hover:bg-indigo-50'}`}
+        >
+          Sync now
+        </button>
+      </div>
+    </div>
+  );
+}
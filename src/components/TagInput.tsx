@@ -0,0 +1,134 @@
+import React, { useId, useState } from "react";
+import { useTheme } from "../context/ThemeContext";
+import { normalizeTag } from "../lib/tags";
+
+const MAX_SUGGESTIONS = 8;
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Known tags offered while typing
+  suggestions: string[];
+  // When false only suggested tags can be picked (used by filters)
+  allowNew?: boolean;
+  placeholder?: string;
+  label: string;
+}
+
+/** Chip list with an autocompleting text box. Enter or comma adds, Backspace removes. */
+export default function TagInput({ tags, onChange, suggestions, allowNew = true, placeholder, label }: TagInputProps) {
+  const { darkMode } = useTheme();
+  const listId = useId();
+  const [text, setText] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const query = normalizeTag(text);
+  const matches = suggestions
+    .filter(tag => !tags.includes(tag) && tag.includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+  const showList = isOpen && matches.length > 0;
+
+  const add = (tag: string) => {
+    const name = normalizeTag(tag);
+    if (name && !tags.includes(name) && (allowNew || suggestions.includes(name))) {
+      onChange([...tags, name]);
+    }
+    setText("");
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        if (matches.length === 0) return;
+        e.preventDefault();
+        setIsOpen(true);
+        setHighlighted(current => (current + (e.key === "ArrowDown" ? 1 : matches.length - 1)) % matches.length);
+        return;
+      case "Enter":
+      case ",":
+        if (!text.trim() && !showList) return;
+        e.preventDefault();
+        add(showList && (e.key === "Enter" || !allowNew) ? matches[highlighted] ?? text : text);
+        return;
+      case "Backspace":
+        if (text === "" && tags.length > 0) onChange(tags.slice(0, -1));
+        return;
+      case "Escape":
+        setIsOpen(false);
+        return;
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className={`flex flex-wrap items-center gap-1.5 w-full rounded-lg p-2 border ${darkMode 
+        ? 'border-gray-600 bg-gray-700/50 text-gray-200 focus-within:ring-2 focus-within:ring-purple-500' 
+        : 'border-indigo-200 bg-indigo-50/50 text-gray-800 focus-within:ring-2 focus-within:ring-indigo-500'} transition-colors duration-300`}>
+        {tags.map(tag => (
+          <span key={tag} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${darkMode ? 'bg-gray-600 text-purple-200' : 'bg-indigo-100 text-indigo-700'}`}>
+            #{tag}
+            <button
+              type="button"
+              onClick={() => onChange(tags.filter(t => t !== tag))}
+              aria-label={`Remove tag ${tag}`}
+              className="leading-none hover:opacity-70"
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          role="combobox"
+          aria-label={label}
+          aria-expanded={showList}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={showList ? `${listId}-${highlighted}` : undefined}
+          value={text}
+          placeholder={tags.length === 0 ? placeholder : undefined}
+          onChange={(e) => {
+            setText(e.target.value);
+            setIsOpen(true);
+            setHighlighted(0);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+          className="flex-1 min-w-[6rem] bg-transparent border-none p-1 text-sm focus:outline-none focus:ring-0"
+        />
+      </div>
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className={`absolute z-20 mt-1 w-full max-h-48 overflow-y-auto rounded-lg shadow-lg border text-sm ${darkMode 
+            ? 'bg-gray-800 border-gray-600' 
+            : 'bg-white border-indigo-200'}`}
+        >
+          {matches.map((tag, index) => (
+            <li
+              key={tag}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown so the pick lands before the input blurs
+              onMouseDown={(e) => {
+                e.preventDefault();
+                add(tag);
+              }}
+              className={`px-3 py-1.5 cursor-pointer ${index === highlighted
+                ? (darkMode ? 'bg-purple-900/40' : 'bg-indigo-50')
+                : ''}`}
+            >
+              #{tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { TAXONOMY_FIELDS, type IncidentTaxonomy, type TaxonomyKey } from "../config/taxonomy";
+import { useTheme } from "../context/ThemeContext";
+
+interface TaxonomyFieldsProps {
+  values: IncidentTaxonomy;
+  onChange: (key: TaxonomyKey, value: string) => void;
+  // Smaller inputs for the inline edit form
+  compact?: boolean;
+}
+
+export default function TaxonomyFields({ values, onChange, compact = false }: TaxonomyFieldsProps) {
+  const { darkMode } = useTheme();
+
+  const inputClass = `w-full rounded-lg ${compact ? 'p-2 text-sm' : 'p-3'} ${darkMode
+    ? 'border-gray-600 bg-gray-700/50 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500'
+    : 'border-indigo-200 bg-indigo-50/50 text-gray-800 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'} transition-colors duration-300`;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {TAXONOMY_FIELDS.map(field => (
+        <div key={field.key}>
+          <label
+            htmlFor={`taxonomy-${field.key}${compact ? '-edit' : ''}`}
+            className={`block ${compact ? 'text-xs' : 'text-sm'} font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`}
+          >
+            {field.label}
+          </label>
+          {field.kind === "select" ? (
+            <select
+              id={`taxonomy-${field.key}${compact ? '-edit' : ''}`}
+              className={inputClass}
+              value={values[field.key] ?? ""}
+              onChange={e => onChange(field.key, e.target.value)}
+            >
+              <option value="">Not specified</option>
+              {field.options.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              id={`taxonomy-${field.key}${compact ? '-edit' : ''}`}
+              className={inputClass}
+              placeholder={field.placeholder}
+              value={values[field.key] ?? ""}
+              onChange={e => onChange(field.key, e.target.value)}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { TAXONOMY_FIELDS, formatTaxonomyValue } from "../config/taxonomy";
+import { useTheme } from "../context/ThemeContext";
+import type { Incident } from "../types";
+
+export default function TaxonomySummary({ incident }: { incident: Incident }) {
+  const { darkMode } = useTheme();
+  const fields = TAXONOMY_FIELDS.filter(field => incident.taxonomy[field.key]);
+
+  if (fields.length === 0) return null;
+
+  return (
+    <dl className={`mt-4 pt-4 border-t grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2 text-sm ${darkMode ? 'border-gray-600' : 'border-indigo-100'}`}>
+      {fields.map(field => (
+        <div key={field.key}>
+          <dt className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{field.label}</dt>
+          <dd className="font-medium">{formatTaxonomyValue(field.key, incident.taxonomy[field.key]!)}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,190 @@
+import React, { useId, useState } from "react";
+import { useTheme } from "../context/ThemeContext";
+import {
+  TRANSCRIPT_ROLES,
+  TranscriptParseError,
+  createEmptyTranscript,
+  formatParameters,
+  parseParameters,
+  parseTranscript,
+  withTurns,
+} from "../lib/transcript";
+import type { IncidentTranscript, TranscriptRole, TranscriptTurn } from "../types";
+
+interface TranscriptEditorProps {
+  transcript: IncidentTranscript | null;
+  onSave: (transcript: IncidentTranscript) => void;
+  onCancel: () => void;
+}
+
+export default function TranscriptEditor({ transcript, onSave, onCancel }: TranscriptEditorProps) {
+  const { darkMode } = useTheme();
+  const fieldId = useId();
+  const [draft, setDraft] = useState(() => transcript ?? createEmptyTranscript());
+  const [parameterText, setParameterText] = useState(() => formatParameters(draft.parameters));
+  const [importText, setImportText] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const inputClass = `w-full rounded-lg p-2 text-sm ${darkMode
+    ? 'border-gray-600 bg-gray-700/50 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500'
+    : 'border-indigo-200 bg-white text-gray-800 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500'} transition-colors duration-300`;
+  const smallButtonClass = `px-2 py-0.5 text-xs rounded-md transition-colors duration-150 shadow-sm disabled:opacity-40 ${darkMode
+    ? 'text-purple-300 border border-purple-700 hover:bg-purple-900/30'
+    : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50'}`;
+  const labelClass = `block text-xs font-medium mb-1 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`;
+
+  const setTurns = (turns: TranscriptTurn[]) => setDraft(current => withTurns(current, turns));
+
+  const updateTurn = (index: number, changes: Partial<TranscriptTurn>) =>
+    setTurns(draft.turns.map((turn, i) => (i === index ? { ...turn, ...changes } : turn)));
+
+  const moveTurn = (index: number, by: -1 | 1) => {
+    const turns = [...draft.turns];
+    [turns[index], turns[index + by]] = [turns[index + by], turns[index]];
+    setTurns(turns);
+  };
+
+  const importTranscript = (text: string) => {
+    try {
+      const imported = parseTranscript(text);
+      setDraft(imported);
+      setParameterText(formatParameters(imported.parameters));
+      setImportText("");
+      setImportError(null);
+    } catch (error) {
+      if (!(error instanceof TranscriptParseError)) throw error;
+      setImportError(error.message);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) importTranscript(await file.text());
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      ...withTurns(draft, draft.turns.filter(turn => turn.content.trim() !== "")),
+      model: draft.model.trim(),
+      parameters: parseParameters(parameterText),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <details className={`rounded-lg p-3 ${darkMode ? 'bg-gray-800/60' : 'bg-white/70'}`}>
+        <summary className={`cursor-pointer text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+          Import from a chat log (OpenAI or Anthropic messages JSON)
+        </summary>
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            placeholder='[{"role": "user", "content": "..."}, {"role": "assistant", "content": "..."}]'
+            aria-label="Chat log JSON"
+            className={`${inputClass} min-h-[80px] font-mono text-xs`}
+          />
+          {importError && <p className="text-xs text-rose-500">{importError}</p>}
+          <div className="flex gap-2 items-center">
+            <button type="button" className={smallButtonClass} disabled={!importText.trim()} onClick={() => importTranscript(importText)}>
+              Import pasted JSON
+            </button>
+            <label className={`${smallButtonClass} cursor-pointer`}>
+              Import file…
+              <input type="file" accept=".json,application/json" className="sr-only" onChange={handleFile} />
+            </label>
+            <span className={`text-xs ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Replaces the turns below</span>
+          </div>
+        </div>
+      </details>
+
+      <div className="grid sm:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor={`${fieldId}-model`} className={labelClass}>Model</label>
+          <input
+            id={`${fieldId}-model`}
+            value={draft.model}
+            onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            placeholder="e.g. gpt-4o-2024-08-06"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${fieldId}-parameters`} className={labelClass}>Parameters</label>
+          <input
+            id={`${fieldId}-parameters`}
+            value={parameterText}
+            onChange={(e) => setParameterText(e.target.value)}
+            placeholder="temperature=0.7, max_tokens=512"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <ol className="space-y-2">
+        {draft.turns.map((turn, index) => (
+          <li key={index} className={`p-2 rounded-lg ${darkMode ? 'bg-gray-800/60' : 'bg-white/70'}`}>
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <select
+                value={turn.role}
+                onChange={(e) => updateTurn(index, { role: e.target.value as TranscriptRole })}
+                aria-label={`Role of turn ${index + 1}`}
+                className={`px-2 py-1 rounded-md text-xs ${darkMode
+                  ? 'bg-gray-700 text-gray-300 border border-gray-600'
+                  : 'bg-white text-gray-700 border border-indigo-200'}`}
+              >
+                {TRANSCRIPT_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+              </select>
+              <div className="flex gap-1 ml-auto">
+                <button type="button" className={smallButtonClass} disabled={index === 0} onClick={() => moveTurn(index, -1)} aria-label={`Move turn ${index + 1} up`}>↑</button>
+                <button type="button" className={smallButtonClass} disabled={index === draft.turns.length - 1} onClick={() => moveTurn(index, 1)} aria-label={`Move turn ${index + 1} down`}>↓</button>
+                <button type="button" className={smallButtonClass} onClick={() => setTurns(draft.turns.filter((_turn, i) => i !== index))}>Remove</button>
+              </div>
+            </div>
+            <textarea
+              value={turn.content}
+              onChange={(e) => updateTurn(index, { content: e.target.value })}
+              aria-label={`Content of turn ${index + 1}`}
+              className={`${inputClass} min-h-[60px]`}
+            />
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          className={smallButtonClass}
+          onClick={() => setTurns([
+            ...draft.turns,
+            { role: draft.turns[draft.turns.length - 1]?.role === "user" ? "assistant" : "user", content: "" },
+          ])}
+        >
+          Add turn
+        </button>
+        <div className="flex gap-2 ml-auto">
+          <button
+            type="button"
+            onClick={onCancel}
+            className={`px-3 py-1 text-sm rounded-md transition-colors duration-150 shadow-sm ${darkMode
+              ? 'border border-gray-600 text-gray-300 hover:bg-gray-700'
+              : 'border border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={draft.turns.every(turn => !turn.content.trim())}
+            className={`px-3 py-1 text-sm rounded-md text-white shadow-sm transition-colors duration-150 disabled:opacity-50 ${darkMode
+              ? 'bg-purple-600 hover:bg-purple-700'
+              : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            Save transcript
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,23 @@
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  closeToast?: () => void;
+}
+
+/** Toast body for an undoable change, with an inline "Undo" action. */
+export default function UndoToast({ message, onUndo, closeToast }: UndoToastProps) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span>{message}</span>
+      <button
+        onClick={() => {
+          onUndo();
+          closeToast?.();
+        }}
+        className="shrink-0 px-2 py-0.5 text-sm font-semibold rounded-md border border-current hover:opacity-80"
+      >
+        Undo
+      </button>
+    </div>
+  );
+}
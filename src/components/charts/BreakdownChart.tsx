@@ -0,0 +1,34 @@
+import { SEVERITY_LEVELS } from "../../config/severity";
+import { useTheme } from "../../context/ThemeContext";
+import type { BreakdownRow } from "../../lib/analytics";
+
+/** Horizontal bars, one per field value, stacked by severity. */
+export default function BreakdownChart({ rows }: { rows: BreakdownRow[] }) {
+  const { darkMode } = useTheme();
+  const max = Math.max(1, ...rows.map(row => row.total));
+
+  return (
+    <ul className="space-y-2">
+      {rows.map(row => (
+        <li key={row.value ?? ""} className="flex items-center gap-3 text-sm">
+          <span className={`w-36 shrink-0 truncate ${darkMode ? 'text-gray-300' : 'text-gray-700'}`} title={row.label}>
+            {row.label}
+          </span>
+          <div className="flex-1 flex h-4">
+            <div className="flex h-full" style={{ width: `${(row.total / max) * 100}%` }}>
+              {SEVERITY_LEVELS.filter(level => row.counts[level.name] > 0).map(level => (
+                <div
+                  key={level.name}
+                  className={`${level.chart} h-full first:rounded-l-sm last:rounded-r-sm`}
+                  style={{ width: `${(row.counts[level.name] / row.total) * 100}%` }}
+                  title={`${level.name}: ${row.counts[level.name]}`}
+                />
+              ))}
+            </div>
+          </div>
+          <span className={`w-8 text-right font-medium ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>{row.total}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,16 @@
+import { SEVERITY_LEVELS } from "../../config/severity";
+import { useTheme } from "../../context/ThemeContext";
+
+export default function SeverityLegend() {
+  const { darkMode } = useTheme();
+  return (
+    <div className={`flex flex-wrap gap-3 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+      {SEVERITY_LEVELS.map(level => (
+        <span key={level.name} className="inline-flex items-center gap-1">
+          <span className={`inline-block w-3 h-3 rounded-sm ${level.chart}`} />
+          {level.name}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { SEVERITY_LEVELS } from "../../config/severity";
+import { useTheme } from "../../context/ThemeContext";
+import type { SeverityCounts } from "../../lib/analytics";
+
+export interface StackedBar {
+  label: string;
+  counts: SeverityCounts;
+  total: number;
+}
+
+interface StackedBarChartProps {
+  bars: StackedBar[];
+  // Optional line drawn over the bars, one value per bar
+  trend?: number[];
+  height?: number;
+}
+
+// Keeps the x axis readable when there are many bars
+const MAX_LABELS = 12;
+
+/** Vertical bars stacked by severity, least severe at the bottom. */
+export default function StackedBarChart({ bars, trend, height = 200 }: StackedBarChartProps) {
+  const { darkMode } = useTheme();
+  const max = Math.max(1, ...bars.map(bar => bar.total), ...(trend ?? []));
+  const labelEvery = Math.ceil(bars.length / MAX_LABELS);
+
+  return (
+    <div>
+      <div className="relative flex items-end gap-1" style={{ height }}>
+        {bars.map(bar => (
+          <div
+            key={bar.label}
+            className="flex-1 flex flex-col-reverse min-w-0"
+            style={{ height: `${(bar.total / max) * 100}%` }}
+            title={`${bar.label}: ${bar.total}`}
+          >
+            {SEVERITY_LEVELS.filter(level => bar.counts[level.name] > 0).map(level => (
+              <div
+                key={level.name}
+                className={`${level.chart} first:rounded-b-sm last:rounded-t-sm`}
+                style={{ height: `${(bar.counts[level.name] / bar.total) * 100}%` }}
+              />
+            ))}
+          </div>
+        ))}
+        {trend && trend.length > 1 && (
+          <svg
+            className={`absolute inset-0 w-full h-full pointer-events-none ${darkMode ? 'text-purple-300' : 'text-indigo-700'}`}
+            viewBox={`0 0 ${trend.length} ${max}`}
+            preserveAspectRatio="none"
+            aria-hidden="true"
+          >
+            <polyline
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              vectorEffect="non-scaling-stroke"
+              points={trend.map((value, index) => `${index + 0.5},${max - value}`).join(" ")}
+            />
+          </svg>
+        )}
+      </div>
+      <div className={`flex gap-1 mt-1 text-[10px] ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+        {bars.map((bar, index) => (
+          <span key={bar.label} className="flex-1 min-w-0 text-center truncate">
+            {index % labelEvery === 0 ? bar.label : ""}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Severity scale. Every severity control, badge and count in the UI renders from
+ * SEVERITY_LEVELS, listed from least to most severe. Class names are spelled out
+ * in full so Tailwind picks them up.
+ */
+
+export interface SeverityPalette {
+  // List badges
+  badge: string;
+  // Unselected filter / form buttons
+  button: string;
+  // Floating counter bubble, its label and its number
+  counter: string;
+  counterLabel: string;
+  counterValue: string;
+}
+
+interface SeverityLevelConfig {
+  name: string;
+  // Higher is more severe; used for ordering
+  rank: number;
+  description: string;
+  // Lowest rubric score (impact × likelihood × reach) that suggests this level
+  minScore: number;
+  // Default SLA targets in hours; each browser can override them in settings
+  sla: { acknowledgeHours: number; resolveHours: number };
+  activeButton: string;
+  // Bar segments in the analytics charts
+  chart: string;
+  light: SeverityPalette;
+  dark: SeverityPalette;
+}
+
+const EMERALD = {
+  activeButton: "bg-emerald-600 text-white",
+  chart: "bg-emerald-500",
+  light: {
+    badge: "bg-emerald-100 text-emerald-800 border-emerald-300",
+    button: "bg-emerald-50 text-emerald-700 border border-emerald-200 hover:bg-emerald-100",
+    counter: "bg-emerald-50 border-emerald-100",
+    counterLabel: "text-emerald-700",
+    counterValue: "text-emerald-600",
+  },
+  dark: {
+    badge: "bg-emerald-900 text-emerald-200 border-emerald-700",
+    button: "bg-emerald-900/50 text-emerald-300 border border-emerald-700 hover:bg-emerald-800",
+    counter: "bg-emerald-900/50 border-emerald-700",
+    counterLabel: "text-emerald-300",
+    counterValue: "text-emerald-400",
+  },
+};
+
+const SKY = {
+  activeButton: "bg-sky-600 text-white",
+  chart: "bg-sky-500",
+  light: {
+    badge: "bg-sky-100 text-sky-800 border-sky-300",
+    button: "bg-sky-50 text-sky-700 border border-sky-200 hover:bg-sky-100",
+    counter: "bg-sky-50 border-sky-100",
+    counterLabel: "text-sky-700",
+    counterValue: "text-sky-600",
+  },
+  dark: {
+    badge: "bg-sky-900 text-sky-200 border-sky-700",
+    button: "bg-sky-900/50 text-sky-300 border border-sky-700 hover:bg-sky-800",
+    counter: "bg-sky-900/50 border-sky-700",
+    counterLabel: "text-sky-300",
+    counterValue: "text-sky-400",
+  },
+};
+
+const AMBER = {
+  activeButton: "bg-amber-600 text-white",
+  chart: "bg-amber-500",
+  light: {
+    badge: "bg-amber-100 text-amber-800 border-amber-300",
+    button: "bg-amber-50 text-amber-700 border border-amber-200 hover:bg-amber-100",
+    counter: "bg-amber-50 border-amber-100",
+    counterLabel: "text-amber-700",
+    counterValue: "text-amber-600",
+  },
+  dark: {
+    badge: "bg-amber-900 text-amber-200 border-amber-700",
+    button: "bg-amber-900/50 text-amber-300 border border-amber-700 hover:bg-amber-800",
+    counter: "bg-amber-900/50 border-amber-700",
+    counterLabel: "text-amber-300",
+    counterValue: "text-amber-400",
+  },
+};
+
+const ORANGE = {
+  activeButton: "bg-orange-600 text-white",
+  chart: "bg-orange-500",
+  light: {
+    badge: "bg-orange-100 text-orange-800 border-orange-300",
+    button: "bg-orange-50 text-orange-700 border border-orange-200 hover:bg-orange-100",
+    counter: "bg-orange-50 border-orange-100",
+    counterLabel: "text-orange-700",
+    counterValue: "text-orange-600",
+  },
+  dark: {
+    badge: "bg-orange-900 text-orange-200 border-orange-700",
+    button: "bg-orange-900/50 text-orange-300 border border-orange-700 hover:bg-orange-800",
+    counter: "bg-orange-900/50 border-orange-700",
+    counterLabel: "text-orange-300",
+    counterValue: "text-orange-400",
+  },
+};
+
+const ROSE = {
+  activeButton: "bg-rose-600 text-white",
+  chart: "bg-rose-500",
+  light: {
+    badge: "bg-rose-100 text-rose-800 border-rose-300",
+    button: "bg-rose-50 text-rose-700 border border-rose-200 hover:bg-rose-100",
+    counter: "bg-rose-50 border-rose-100",
+    counterLabel: "text-rose-700",
+    counterValue: "text-rose-600",
+  },
+  dark: {
+    badge: "bg-rose-900 text-rose-200 border-rose-700",
+    button: "bg-rose-900/50 text-rose-300 border border-rose-700 hover:bg-rose-800",
+    counter: "bg-rose-900/50 border-rose-700",
+    counterLabel: "text-rose-300",
+    counterValue: "text-rose-400",
+  },
+};
+
+export const THREE_LEVEL_SCALE = [
+  {
+    name: "Low",
+    rank: 1,
+    description: "Limited impact; no user harm expected. Handle in normal prioritization.",
+    minScore: 1,
+    sla: { acknowledgeHours: 72, resolveHours: 720 },
+    ...EMERALD,
+  },
+  {
+    name: "Medium",
+    rank: 2,
+    description: "Noticeable harm or degraded behavior for some users. Investigate soon.",
+    minScore: 12,
+    sla: { acknowledgeHours: 24, resolveHours: 168 },
+    ...AMBER,
+  },
+  {
+    name: "High",
+    rank: 3,
+    description: "Serious or widespread harm. Respond immediately.",
+    minScore: 45,
+    sla: { acknowledgeHours: 4, resolveHours: 48 },
+    ...ROSE,
+  },
+] as const satisfies readonly SeverityLevelConfig[];
+
+// Drop-in alternative: point SEVERITY_LEVELS at this to switch scales (and update
+// the sample data). Stored incidents keep their old severity names, so re-import
+// or edit them afterwards.
+export const SEV_SCALE = [
+  { name: "SEV4", rank: 1, description: "Cosmetic or negligible issue.", minScore: 1, sla: { acknowledgeHours: 72, resolveHours: 720 }, ...EMERALD },
+  { name: "SEV3", rank: 2, description: "Minor harm to a few users; workaround exists.", minScore: 8, sla: { acknowledgeHours: 48, resolveHours: 336 }, ...SKY },
+  { name: "SEV2", rank: 3, description: "Moderate harm or a degraded safeguard.", minScore: 27, sla: { acknowledgeHours: 24, resolveHours: 168 }, ...AMBER },
+  { name: "SEV1", rank: 4, description: "Major harm to many users or a broken safeguard.", minScore: 48, sla: { acknowledgeHours: 4, resolveHours: 72 }, ...ORANGE },
+  { name: "SEV0", rank: 5, description: "Critical, widespread or irreversible harm. All hands.", minScore: 80, sla: { acknowledgeHours: 1, resolveHours: 24 }, ...ROSE },
+] as const satisfies readonly SeverityLevelConfig[];
+
+export const SEVERITY_LEVELS = THREE_LEVEL_SCALE;
+
+export type SeverityLevel = (typeof SEVERITY_LEVELS)[number];
+export type SeverityName = SeverityLevel["name"];
+
+/** Scoring rubric factors; each is rated 1–5 and the ratings are multiplied. */
+export const SCORING_FACTORS = [
+  {
+    key: "impact",
+    label: "Impact",
+    options: ["Negligible", "Minor", "Moderate", "Major", "Severe"],
+  },
+  {
+    key: "likelihood",
+    label: "Likelihood",
+    options: ["Rare", "Unlikely", "Possible", "Likely", "Almost certain"],
+  },
+  {
+    key: "reach",
+    label: "Reach",
+    options: ["Single user", "Small group", "Many users", "Most users", "Everyone"],
+  },
+] as const;
+
+export type ScoringFactor = (typeof SCORING_FACTORS)[number]["key"];
@@ -0,0 +1,115 @@
+/**
+ * Structured AI-incident taxonomy. The report form, edit form, detail view, list
+ * filters, search and import validation all render from this list, so adding a
+ * field or option here is all it takes to extend the taxonomy.
+ */
+
+export interface TaxonomyOption {
+  value: string;
+  label: string;
+}
+
+interface TaxonomyFieldConfig {
+  key: string;
+  label: string;
+  // "select" fields get a filter dropdown in the list; "text" fields are covered by search
+  kind: "text" | "select";
+  placeholder?: string;
+  options?: readonly TaxonomyOption[];
+}
+
+export const TAXONOMY_FIELDS = [
+  {
+    key: "model_name",
+    label: "Affected Model / System",
+    kind: "text",
+    placeholder: "e.g. support-chatbot",
+  },
+  {
+    key: "model_version",
+    label: "Model Version",
+    kind: "text",
+    placeholder: "e.g. 2025-03-01",
+  },
+  {
+    key: "deployment_context",
+    label: "Deployment Context",
+    kind: "select",
+    options: [
+      { value: "production", label: "Production" },
+      { value: "staging", label: "Staging" },
+      { value: "eval", label: "Evaluation" },
+    ],
+  },
+  {
+    key: "harm_category",
+    label: "Harm Category",
+    kind: "select",
+    options: [
+      { value: "bias", label: "Bias / Fairness" },
+      { value: "hallucination", label: "Hallucination" },
+      { value: "privacy_leak", label: "Privacy Leak" },
+      { value: "jailbreak", label: "Jailbreak" },
+      { value: "misuse", label: "Misuse" },
+      { value: "toxicity", label: "Toxic Content" },
+      { value: "security", label: "Security" },
+      { value: "other", label: "Other" },
+    ],
+  },
+  {
+    key: "affected_population",
+    label: "Affected Users",
+    kind: "select",
+    options: [
+      { value: "general_public", label: "General Public" },
+      { value: "customers", label: "Customers" },
+      { value: "internal", label: "Internal Users" },
+      { value: "minors", label: "Minors" },
+      { value: "vulnerable_groups", label: "Vulnerable Groups" },
+      { value: "none", label: "No Users Affected" },
+    ],
+  },
+  {
+    key: "detection_source",
+    label: "Detection Source",
+    kind: "select",
+    options: [
+      { value: "user_report", label: "User Report" },
+      { value: "monitoring", label: "Automated Monitoring" },
+      { value: "red_team", label: "Red Team" },
+      { value: "internal_review", label: "Internal Review" },
+      { value: "external_researcher", label: "External Researcher" },
+      { value: "media", label: "Media / Public" },
+    ],
+  },
+] as const satisfies readonly TaxonomyFieldConfig[];
+
+export type TaxonomyField = (typeof TAXONOMY_FIELDS)[number];
+export type TaxonomyKey = TaxonomyField["key"];
+export type IncidentTaxonomy = Partial<Record<TaxonomyKey, string>>;
+
+export const TAXONOMY_KEYS: TaxonomyKey[] = TAXONOMY_FIELDS.map(field => field.key);
+
+export const SELECT_TAXONOMY_FIELDS = TAXONOMY_FIELDS.filter(
+  (field): field is Extract<TaxonomyField, { kind: "select" }> => field.kind === "select"
+);
+
+export const isTaxonomyKey = (value: string): value is TaxonomyKey =>
+  TAXONOMY_KEYS.includes(value as TaxonomyKey);
+
+export const getTaxonomyField = (key: TaxonomyKey): TaxonomyField =>
+  TAXONOMY_FIELDS.find(field => field.key === key)!;
+
+// Select fields only accept their listed options; text fields take any string
+export const isTaxonomyValue = (key: TaxonomyKey, value: unknown): value is string => {
+  const field = getTaxonomyField(key);
+  if (typeof value !== "string") return false;
+  return field.kind !== "select" || field.options.some(option => option.value === value);
+};
+
+/** Display text for a stored value: the option label for selects, the raw text otherwise. */
+export const formatTaxonomyValue = (key: TaxonomyKey, value: string): string => {
+  const field = getTaxonomyField(key);
+  if (field.kind !== "select") return value;
+  return field.options.find(option => option.value === value)?.label ?? value;
+};
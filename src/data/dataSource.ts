@@ -0,0 +1,44 @@
+import type { IndexedFilter } from "../lib/incidentQuery";
+import type { Incident } from "../types";
+import { localDataSource } from "./localDataSource";
+import { remoteDataSource } from "./remoteDataSource";
+import { syncDataSource } from "./syncDataSource";
+
+export type DataSourceMode = "local" | "remote" | "sync";
+
+/** Where the dashboard reads and writes incidents. */
+export interface IncidentDataSource {
+  mode: DataSourceMode;
+  label: string;
+  load: () => Promise<Incident[]>;
+  save: (incident: Incident) => Promise<void>;
+  saveMany: (incidents: Incident[]) => Promise<void>;
+  // `version` is the copy the caller last saw; the local store refuses to delete a newer one
+  remove: (id: number, version?: number) => Promise<void>;
+  // Puts and deletes applied together: all or nothing. `versions` holds the
+  // copy each delete was based on, by id
+  applyChanges: (puts: Incident[], removedIds: number[], versions?: Map<number, number>) => Promise<void>;
+  // Sources with indexes narrow a query to these ids before it runs in memory; null means no narrowing
+  findIds?: (filter: IndexedFilter) => Promise<Set<number> | null>;
+  // Incidents outside the trash per tag, for sources that index tags
+  countTags?: (names: string[]) => Promise<Map<string, number>>;
+}
+
+const DATA_SOURCES: Record<DataSourceMode, IncidentDataSource> = {
+  local: localDataSource,
+  remote: remoteDataSource,
+  sync: syncDataSource,
+};
+
+export const DATA_SOURCE_MODES = Object.keys(DATA_SOURCES) as DataSourceMode[];
+
+export const getDataSource = (mode: DataSourceMode): IncidentDataSource => DATA_SOURCES[mode];
+
+export const getSavedDataSourceMode = (): DataSourceMode => {
+  const saved = localStorage.getItem("dataSource");
+  return DATA_SOURCE_MODES.includes(saved as DataSourceMode) ? (saved as DataSourceMode) : "local";
+};
+
+export const saveDataSourceMode = (mode: DataSourceMode) => {
+  localStorage.setItem("dataSource", mode);
+};
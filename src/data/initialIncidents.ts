@@ -0,0 +1,99 @@
+import { createInitialTransition } from "../lib/incidentStatus";
+import type { Incident } from "../types";
+
+// Sample data written the first time the store is opened
+export const initialIncidents: Incident[] = [
+  {
+    id: 1,
+    title: "Biased Recommendation Algorithm",
+    description: "Algorithm consistently favored certain demographics...",
+    severity: "Medium",
+    reported_at: "2025-03-15T10:00:00Z",
+    reporter: null,
+    assignee: null,
+    status: "Open",
+    status_history: [createInitialTransition("2025-03-15T10:00:00Z", "system")],
+    revisions: [],
+    taxonomy: {
+      model_name: "recommender",
+      deployment_context: "production",
+      harm_category: "bias",
+      affected_population: "customers",
+      detection_source: "internal_review",
+    },
+    version: 1,
+    updated_at: "2025-03-15T10:00:00Z",
+    deleted_at: null,
+    tags: [],
+    comments: [],
+    root_cause_comment_id: null,
+    transcript: null,
+    links: [],
+  },
+  {
+    id: 2,
+    title: "LLM Hallucination in Critical Info",
+    description: "LLM provided incorrect safety procedure information...",
+    severity: "High",
+    reported_at: "2025-04-01T14:30:00Z",
+    reporter: null,
+    assignee: null,
+    status: "Open",
+    status_history: [createInitialTransition("2025-04-01T14:30:00Z", "system")],
+    revisions: [],
+    taxonomy: {
+      model_name: "support-assistant",
+      deployment_context: "production",
+      harm_category: "hallucination",
+      affected_population: "general_public",
+      detection_source: "user_report",
+    },
+    version: 1,
+    updated_at: "2025-04-01T14:30:00Z",
+    deleted_at: null,
+    tags: [],
+    comments: [],
+    root_cause_comment_id: null,
+    transcript: {
+      model: "support-assistant",
+      parameters: { temperature: 0.7, max_tokens: 512 },
+      turns: [
+        { role: "system", content: "You are a helpful home safety assistant." },
+        { role: "user", content: "What should I do if I smell gas in my kitchen?" },
+        {
+          role: "assistant",
+          content: "If you smell gas indoors, switch on the lights so you can find the leak, then open the windows and call your gas supplier.",
+        },
+      ],
+      highlights: [{ turn: 2, start: 26, end: 71, note: "Switching on lights can ignite the gas" }],
+    },
+    links: [],
+  },
+  {
+    id: 3,
+    title: "Minor Data Leak via Chatbot",
+    description: "Chatbot inadvertently exposed non-sensitive user metadata...",
+    severity: "Low",
+    reported_at: "2025-03-20T09:15:00Z",
+    reporter: null,
+    assignee: null,
+    status: "Open",
+    status_history: [createInitialTransition("2025-03-20T09:15:00Z", "system")],
+    revisions: [],
+    taxonomy: {
+      model_name: "support-chatbot",
+      deployment_context: "production",
+      harm_category: "privacy_leak",
+      affected_population: "customers",
+      detection_source: "monitoring",
+    },
+    version: 1,
+    updated_at: "2025-03-20T09:15:00Z",
+    deleted_at: null,
+    tags: [],
+    comments: [],
+    root_cause_comment_id: null,
+    transcript: null,
+    links: [],
+  },
+];
@@ -0,0 +1,31 @@
+import {
+  deleteIncident,
+  findIncidentIds,
+  loadIncidents,
+  putIncident,
+  putIncidents,
+  writeIncidents,
+} from "../db/incidentRepository";
+import { countIncidentsByTag } from "../db/tagRepository";
+import type { IncidentDataSource } from "./dataSource";
+import { initialIncidents } from "./initialIncidents";
+
+export const localDataSource: IncidentDataSource = {
+  mode: "local",
+  label: "This browser",
+  load: async () => {
+    try {
+      return await loadIncidents();
+    } catch (error) {
+      // IndexedDB can be unavailable (e.g. some private browsing modes)
+      console.error("Failed to load incidents:", error);
+      return initialIncidents;
+    }
+  },
+  save: putIncident,
+  saveMany: putIncidents,
+  remove: deleteIncident,
+  applyChanges: writeIncidents,
+  findIds: findIncidentIds,
+  countTags: countIncidentsByTag,
+};
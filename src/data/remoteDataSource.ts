@@ -0,0 +1,71 @@
+import type { Incident } from "../types";
+import type { IncidentDataSource } from "./dataSource";
+
+export const API_BASE = "/api/incidents";
+const PAGE_SIZE = 500;
+
+export interface IncidentPage {
+  items: Incident[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export class ApiError extends Error {
+  status: number;
+  body: unknown;
+
+  constructor(status: number, message: string, body?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(path, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ApiError(response.status, body?.error ?? `Request failed with ${response.status}`, body);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+export const fetchIncidentPage = (params: Record<string, string>): Promise<IncidentPage> =>
+  request(`${API_BASE}?${new URLSearchParams(params)}`);
+
+// The list filters client-side, so load every page (including the trash) up front
+export const fetchAllIncidents = async (): Promise<Incident[]> => {
+  const incidents: Incident[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchIncidentPage({ page: String(page), pageSize: String(PAGE_SIZE), trash: "include" });
+    incidents.push(...result.items);
+    if (incidents.length >= result.total || result.items.length === 0) return incidents;
+  }
+};
+
+const save = async (incident: Incident) => {
+  await request(`${API_BASE}/${incident.id}`, { method: "PUT", body: JSON.stringify(incident) });
+};
+
+export const remoteDataSource: IncidentDataSource = {
+  mode: "remote",
+  label: "Team server",
+  load: fetchAllIncidents,
+  save,
+  // Bulk upsert is applied atomically by the server
+  saveMany: async (incidents) => {
+    await request(API_BASE, { method: "PUT", body: JSON.stringify(incidents) });
+  },
+  remove: async (id) => {
+    await request(`${API_BASE}/${id}`, { method: "DELETE" });
+  },
+  // One request; the server applies the whole batch or none of it
+  applyChanges: async (puts, removedIds) => {
+    await request(API_BASE, { method: "PATCH", body: JSON.stringify({ put: puts, delete: removedIds }) });
+  },
+};
@@ -0,0 +1,29 @@
+import { recordLocalChanges } from "../db/outboxRepository";
+import { syncEngine } from "../sync/syncClient";
+import type { IncidentDataSource } from "./dataSource";
+import { localDataSource } from "./localDataSource";
+
+// Reads and writes the local replica; every write is queued for the sync engine
+export const syncDataSource: IncidentDataSource = {
+  mode: "sync",
+  label: "Offline-first sync",
+  load: localDataSource.load,
+  findIds: localDataSource.findIds,
+  countTags: localDataSource.countTags,
+  save: async (incident) => {
+    await recordLocalChanges([incident], []);
+    syncEngine.schedule();
+  },
+  saveMany: async (incidents) => {
+    await recordLocalChanges(incidents, []);
+    syncEngine.schedule();
+  },
+  remove: async (id, version) => {
+    await recordLocalChanges([], [id], version === undefined ? undefined : new Map([[id, version]]));
+    syncEngine.schedule();
+  },
+  applyChanges: async (puts, removedIds, versions) => {
+    await recordLocalChanges(puts, removedIds, versions);
+    syncEngine.schedule();
+  },
+};
@@ -0,0 +1,71 @@
+import { ATTACHMENT_STORE, openDB, requestToPromise, transactionDone } from "./database";
+
+/** An evidence file. Attachments stay in this browser whatever the data source. */
+export interface Attachment {
+  id: number;
+  incident_id: number;
+  name: string;
+  type: string;
+  size: number;
+  created_at: string;
+  blob: Blob;
+}
+
+export type NewAttachment = Omit<Attachment, "id">;
+
+// Blobs come back as handles to IndexedDB, so listing everything stays cheap
+export const getAttachments = async (): Promise<Attachment[]> => {
+  const db = await openDB();
+  const store = db.transaction(ATTACHMENT_STORE, "readonly").objectStore(ATTACHMENT_STORE);
+  return requestToPromise(store.getAll());
+};
+
+/** Stores the files in one transaction and returns them with their new ids. */
+export const addAttachments = async (attachments: NewAttachment[]): Promise<Attachment[]> => {
+  const db = await openDB();
+  const transaction = db.transaction(ATTACHMENT_STORE, "readwrite");
+  const store = transaction.objectStore(ATTACHMENT_STORE);
+  const added: Attachment[] = [];
+  attachments.forEach(attachment => {
+    store.add(attachment).onsuccess = (event) => {
+      added.push({ ...attachment, id: (event.target as IDBRequest<IDBValidKey>).result as number });
+    };
+  });
+  await transactionDone(transaction);
+  return added;
+};
+
+// Puts back attachments removed earlier, keeping their ids
+export const restoreAttachments = async (attachments: Attachment[]): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction(ATTACHMENT_STORE, "readwrite");
+  const store = transaction.objectStore(ATTACHMENT_STORE);
+  attachments.forEach(attachment => store.put(attachment));
+  return transactionDone(transaction);
+};
+
+export const deleteAttachment = async (id: number): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction(ATTACHMENT_STORE, "readwrite");
+  transaction.objectStore(ATTACHMENT_STORE).delete(id);
+  return transactionDone(transaction);
+};
+
+/** Deletes every attachment of the given incidents and returns what was removed. */
+export const deleteAttachmentsForIncidents = async (incidentIds: number[]): Promise<Attachment[]> => {
+  const db = await openDB();
+  const transaction = db.transaction(ATTACHMENT_STORE, "readwrite");
+  const index = transaction.objectStore(ATTACHMENT_STORE).index("incident_id");
+  const removed: Attachment[] = [];
+  incidentIds.forEach(incidentId => {
+    index.openCursor(IDBKeyRange.only(incidentId)).onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      removed.push(cursor.value);
+      cursor.delete();
+      cursor.continue();
+    };
+  });
+  await transactionDone(transaction);
+  return removed;
+};
@@ -0,0 +1,150 @@
+import { withAssignmentDefaults } from "../lib/assignment";
+import { withCommentDefaults } from "../lib/comments";
+import { withLinkDefaults } from "../lib/incidentLinks";
+import { withRevisionDefaults, withTaxonomyDefaults } from "../lib/incidentRevisions";
+import { withStatusDefaults } from "../lib/incidentStatus";
+import { withVersionDefaults } from "../lib/incidentVersion";
+import { withTagDefaults } from "../lib/tags";
+import { withTranscriptDefaults } from "../lib/transcript";
+import { withTrashDefaults } from "../lib/trash";
+import type { Incident } from "../types";
+
+export const DB_NAME = "ai-incidents-db";
+export const INCIDENT_STORE = "incidents";
+export const META_STORE = "meta";
+export const OUTBOX_STORE = "outbox";
+export const TAG_STORE = "tags";
+export const ATTACHMENT_STORE = "attachments";
+
+interface Migration {
+  // Structural changes: stores, indexes, metadata
+  schema?: (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => void;
+  // Per-record rewrite of existing incidents
+  backfill?: (incident: Incident) => Incident;
+}
+
+// Schema migrations keyed by the version they upgrade to. Append new entries;
+// never edit one that has shipped.
+const MIGRATIONS: Record<number, Migration> = {
+  1: {
+    schema: (db) => {
+      db.createObjectStore(INCIDENT_STORE, { keyPath: "id" });
+    },
+  },
+  2: { backfill: withStatusDefaults },
+  3: { backfill: withRevisionDefaults },
+  4: {
+    schema: (db, transaction, oldVersion) => {
+      const store = transaction.objectStore(INCIDENT_STORE);
+      store.createIndex("severity", "severity");
+      store.createIndex("reported_at", "reported_at");
+
+      const meta = db.createObjectStore(META_STORE, { keyPath: "key" });
+      // Older versions seeded the sample data on first load, so an existing
+      // database has already been seeded even if the user has since emptied it.
+      if (oldVersion >= 1) {
+        meta.put({ key: "seeded", value: true });
+      }
+    },
+  },
+  5: {
+    schema: (db) => {
+      db.createObjectStore(OUTBOX_STORE, { keyPath: "id" });
+    },
+    backfill: withVersionDefaults,
+  },
+  6: { backfill: withTaxonomyDefaults },
+  7: { backfill: withTrashDefaults },
+  8: { backfill: withTagDefaults },
+  9: {
+    schema: (db, transaction) => {
+      const incidents = transaction.objectStore(INCIDENT_STORE);
+      incidents.createIndex("tags", "tags", { multiEntry: true });
+
+      // Register the tags already in use
+      const tags = db.createObjectStore(TAG_STORE, { keyPath: "name" });
+      const createdAt = new Date().toISOString();
+      incidents.openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        (cursor.value.tags ?? []).forEach((name: string) => tags.put({ name, created_at: createdAt }));
+        cursor.continue();
+      };
+    },
+  },
+  10: { backfill: withCommentDefaults },
+  11: {
+    schema: (db) => {
+      const attachments = db.createObjectStore(ATTACHMENT_STORE, { keyPath: "id", autoIncrement: true });
+      attachments.createIndex("incident_id", "incident_id");
+    },
+  },
+  12: { backfill: withTranscriptDefaults },
+  13: { backfill: withLinkDefaults },
+  14: { backfill: withAssignmentDefaults },
+};
+
+export const DB_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const transaction = request.transaction!;
+      const pending = Object.entries(MIGRATIONS)
+        .filter(([version]) => Number(version) > event.oldVersion)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([, migration]) => migration);
+
+      pending.forEach(migration => migration.schema?.(db, transaction, event.oldVersion));
+
+      // All backfills run in one cursor pass so later steps see earlier rewrites
+      const backfills = pending.flatMap(migration => (migration.backfill ? [migration.backfill] : []));
+      if (backfills.length > 0) {
+        transaction.objectStore(INCIDENT_STORE).openCursor().onsuccess = (cursorEvent) => {
+          const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (cursor) {
+            cursor.update(backfills.reduce((incident, backfill) => backfill(incident), cursor.value));
+            cursor.continue();
+          }
+        };
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(new Error(`IndexedDB error: ${request.error?.message}`));
+    };
+  });
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
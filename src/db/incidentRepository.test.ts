@@ -0,0 +1,181 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { initialIncidents } from "../data/initialIncidents";
+import { sampleIncident } from "../test/fixtures";
+
+let database: typeof import("./database");
+let repository: typeof import("./incidentRepository");
+
+// A page load: fresh module state (and so a new connection) over the same database
+const reload = async () => {
+  vi.resetModules();
+  database = await import("./database");
+  repository = await import("./incidentRepository");
+};
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  await reload();
+});
+
+describe("seeding", () => {
+  it("writes the sample data once and records it in the meta store", async () => {
+    expect(await repository.isSeeded()).toBe(false);
+    const loaded = await repository.loadIncidents();
+    expect(loaded.map(incident => incident.id).sort()).toEqual(initialIncidents.map(incident => incident.id).sort());
+    expect(await repository.isSeeded()).toBe(true);
+  });
+
+  it("keeps an emptied store empty after a reload", async () => {
+    const loaded = await repository.loadIncidents();
+    await repository.deleteIncidents(loaded.map(incident => incident.id));
+    await reload();
+    expect(await repository.loadIncidents()).toEqual([]);
+  });
+});
+
+describe("per-record writes", () => {
+  it("puts and deletes single records without touching the others", async () => {
+    await repository.loadIncidents();
+    await repository.putIncident(sampleIncident(100));
+    await repository.putIncident({ ...sampleIncident(100, { title: "Renamed" }), version: 2 });
+    expect((await repository.getIncident(100))?.title).toBe("Renamed");
+
+    await repository.deleteIncident(100, 2);
+    expect(await repository.getIncident(100)).toBeUndefined();
+    expect(await repository.getAllIncidents()).toHaveLength(initialIncidents.length);
+  });
+
+  it("refuses a put based on an outdated copy", async () => {
+    await repository.putIncident(sampleIncident(100, { version: 3 }));
+    await expect(repository.putIncident(sampleIncident(100, { title: "Stale", version: 3 }))).rejects.toBeInstanceOf(
+      repository.StaleWriteError
+    );
+    expect((await repository.getIncident(100))?.title).toBe("Incident 100");
+  });
+
+  it("writes nothing from a batch that contains a stale record", async () => {
+    await repository.putIncident(sampleIncident(100, { version: 2 }));
+    await expect(repository.putIncidents([sampleIncident(101), sampleIncident(100, { version: 1 })])).rejects.toBeInstanceOf(
+      repository.StaleWriteError
+    );
+    expect(await repository.getIncident(101)).toBeUndefined();
+  });
+
+  it("applies puts and deletes together, or neither when one is stale", async () => {
+    await repository.putIncidents([sampleIncident(100), sampleIncident(101, { version: 3 })]);
+    await expect(
+      repository.writeIncidents([sampleIncident(102)], [100, 101], new Map([[100, 1], [101, 2]]))
+    ).rejects.toBeInstanceOf(repository.StaleWriteError);
+    expect((await repository.getAllIncidents()).map(incident => incident.id)).toEqual([100, 101]);
+
+    await repository.writeIncidents([sampleIncident(102)], [100, 101], new Map([[100, 1], [101, 3]]));
+    expect((await repository.getAllIncidents()).map(incident => incident.id)).toEqual([102]);
+  });
+
+  it("keeps a record that changed since the version being deleted", async () => {
+    await repository.putIncident(sampleIncident(100, { version: 2 }));
+    await expect(repository.deleteIncident(100, 1)).rejects.toBeInstanceOf(repository.StaleWriteError);
+    expect(await repository.getIncident(100)).toBeDefined();
+  });
+});
+
+describe("indexed lookups", () => {
+  beforeEach(async () => {
+    await repository.putIncidents([
+      sampleIncident(100, { severity: "High", reported_at: "2025-03-01T10:00:00Z", tags: ["red-team", "privacy"] }),
+      sampleIncident(101, { severity: "Low", reported_at: "2025-03-05T10:00:00Z", tags: ["red-team"] }),
+      sampleIncident(102, { severity: "High", reported_at: "2025-03-09T10:00:00Z", tags: ["red-team"], deleted_at: "2025-03-10T00:00:00Z" }),
+    ]);
+  });
+
+  it("reads incidents by severity and report date", async () => {
+    expect((await repository.getIncidentsBySeverity("High")).map(incident => incident.id)).toEqual([100, 102]);
+    const reported = await repository.getIncidentsReportedBetween("2025-03-02", "2025-03-09T23:59:59Z");
+    expect(reported.map(incident => incident.id)).toEqual([101, 102]);
+  });
+
+  it("finds the ids matching every indexed condition", async () => {
+    expect(await repository.findIncidentIds({})).toBeNull();
+    expect(await repository.findIncidentIds({ severity: "High", reportedFrom: "2025-03-02" })).toEqual(new Set([102]));
+    expect(await repository.findIncidentIds({ reportedTo: "2025-03-06" })).toEqual(new Set([100, 101]));
+    expect(await repository.findIncidentIds({ tags: ["red-team", "privacy"] })).toEqual(new Set([100]));
+    expect(await repository.findIncidentIds({ severity: "Low", tags: ["privacy"] })).toEqual(new Set());
+  });
+
+  it("counts tagged incidents outside the trash", async () => {
+    const tagRepository = await import("./tagRepository");
+    expect(await tagRepository.countIncidentsByTag(["red-team", "privacy", "unused"])).toEqual(
+      new Map([["red-team", 2], ["privacy", 1], ["unused", 0]])
+    );
+  });
+});
+
+describe("migrations", () => {
+  // The shape written by the first release
+  const createVersion1Database = () =>
+    new Promise<void>((resolve, reject) => {
+      const request = indexedDB.open(database.DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(database.INCIDENT_STORE, { keyPath: "id" });
+        store.put({
+          id: 1,
+          title: "Legacy incident",
+          description: "Written before any migration",
+          severity: "High",
+          reported_at: "2025-01-01T00:00:00Z",
+        });
+      };
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+  it("upgrades a version 1 database to the current schema", async () => {
+    await createVersion1Database();
+    const db = await database.openDB();
+
+    expect(db.version).toBe(database.DB_VERSION);
+    expect([...db.objectStoreNames].sort()).toEqual(
+      [
+        database.ATTACHMENT_STORE,
+        database.INCIDENT_STORE,
+        database.META_STORE,
+        database.OUTBOX_STORE,
+        database.TAG_STORE,
+      ].sort()
+    );
+    const indexNames = db.transaction(database.INCIDENT_STORE).objectStore(database.INCIDENT_STORE).indexNames;
+    expect([...indexNames].sort()).toEqual(["reported_at", "severity", "tags"]);
+    expect(await repository.getIncident(1)).toEqual({
+      id: 1,
+      title: "Legacy incident",
+      description: "Written before any migration",
+      severity: "High",
+      reported_at: "2025-01-01T00:00:00Z",
+      status: "Open",
+      status_history: [{ from: null, to: "Open", at: "2025-01-01T00:00:00Z", by: "system" }],
+      revisions: [],
+      version: 1,
+      updated_at: "2025-01-01T00:00:00Z",
+      taxonomy: {},
+      deleted_at: null,
+      tags: [],
+      comments: [],
+      root_cause_comment_id: null,
+      transcript: null,
+      links: [],
+      reporter: null,
+      assignee: null,
+    });
+  });
+
+  it("treats an upgraded database as already seeded", async () => {
+    await createVersion1Database();
+    expect(await repository.isSeeded()).toBe(true);
+    expect((await repository.loadIncidents()).map(incident => incident.id)).toEqual([1]);
+  });
+});
@@ -0,0 +1,155 @@
+import { initialIncidents } from "../data/initialIncidents";
+import type { IndexedFilter } from "../lib/incidentQuery";
+import type { Incident, Severity } from "../types";
+import {
+  INCIDENT_STORE,
+  META_STORE,
+  openDB,
+  requestToPromise,
+  transactionDone,
+} from "./database";
+import { getIncidentsByTag } from "./tagRepository";
+
+interface MetaEntry {
+  key: string;
+  value: unknown;
+}
+
+export const getAllIncidents = async (): Promise<Incident[]> => {
+  const db = await openDB();
+  const store = db.transaction(INCIDENT_STORE, "readonly").objectStore(INCIDENT_STORE);
+  return requestToPromise(store.getAll());
+};
+
+export const getIncident = async (id: number): Promise<Incident | undefined> => {
+  const db = await openDB();
+  const store = db.transaction(INCIDENT_STORE, "readonly").objectStore(INCIDENT_STORE);
+  return requestToPromise(store.get(id));
+};
+
+export const getIncidentsBySeverity = async (severity: Severity): Promise<Incident[]> => {
+  const db = await openDB();
+  const store = db.transaction(INCIDENT_STORE, "readonly").objectStore(INCIDENT_STORE);
+  return requestToPromise(store.index("severity").getAll(severity));
+};
+
+/** Incidents reported within [from, to], oldest first, using the reported_at index. */
+export const getIncidentsReportedBetween = async (from: string, to: string): Promise<Incident[]> => {
+  const db = await openDB();
+  const store = db.transaction(INCIDENT_STORE, "readonly").objectStore(INCIDENT_STORE);
+  return requestToPromise(store.index("reported_at").getAll(IDBKeyRange.bound(from, to)));
+};
+
+/**
+ * Ids of the incidents that can match `filter`, looked up in the indexes; null
+ * when the filter constrains nothing that is indexed.
+ */
+export const findIncidentIds = async (filter: IndexedFilter): Promise<Set<number> | null> => {
+  const { severity, tags = [], reportedFrom, reportedTo } = filter;
+  const lookups = [
+    ...(severity ? [getIncidentsBySeverity(severity)] : []),
+    ...tags.map(getIncidentsByTag),
+    ...(reportedFrom !== undefined || reportedTo !== undefined
+      ? [getIncidentsReportedBetween(reportedFrom ?? "", reportedTo ?? "\uffff")]
+      : []),
+  ];
+  if (lookups.length === 0) return null;
+  const [first, ...rest] = (await Promise.all(lookups)).map(found => new Set(found.map(incident => incident.id)));
+  return new Set([...first].filter(id => rest.every(ids => ids.has(id))));
+};
+
+/**
+ * Another tab (or window) wrote these incidents after the copies the write was
+ * based on were read. Nothing from the failed write is kept.
+ */
+export class StaleWriteError extends Error {
+  ids: number[];
+
+  constructor(ids: number[]) {
+    super(`Incident${ids.length === 1 ? "" : "s"} ${ids.join(", ")} changed since ${ids.length === 1 ? "it was" : "they were"} loaded`);
+    this.name = "StaleWriteError";
+    this.ids = ids;
+  }
+}
+
+// Aborts the transaction and throws if anything was stale; otherwise waits for the commit
+export const finishVersionedWrite = async (transaction: IDBTransaction, done: Promise<void>, staleIds: number[]) => {
+  if (staleIds.length === 0) return done;
+  transaction.abort();
+  await done.catch(() => undefined);
+  throw new StaleWriteError(staleIds);
+};
+
+export const putIncident = async (incident: Incident): Promise<void> => {
+  await putIncidents([incident]);
+};
+
+/** Writes all incidents in a single transaction; either all land or none do. */
+export const putIncidents = async (incidents: Incident[]): Promise<void> => {
+  await writeIncidents(incidents, []);
+};
+
+/** Deletes an incident. Given the version the caller last saw, a newer stored copy is kept and StaleWriteError thrown. */
+export const deleteIncident = async (id: number, version?: number): Promise<void> => {
+  await deleteIncidents([id], version === undefined ? undefined : new Map([[id, version]]));
+};
+
+export const deleteIncidents = async (ids: number[], versions?: Map<number, number>): Promise<void> => {
+  await writeIncidents([], ids, versions);
+};
+
+/**
+ * Puts and deletes incidents in a single transaction; either all land or none
+ * do. Every write bumps the version, so a stored copy at or above the incoming
+ * version means someone else saved first, as does a stored copy newer than the
+ * version a delete was based on (`versions`, by id). Either refuses the whole
+ * write with StaleWriteError. The check and the write share one transaction,
+ * which IndexedDB never interleaves with another tab's.
+ */
+export const writeIncidents = async (
+  puts: Incident[],
+  deletes: number[],
+  versions?: Map<number, number>
+): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction(INCIDENT_STORE, "readwrite");
+  const store = transaction.objectStore(INCIDENT_STORE);
+  const done = transactionDone(transaction);
+  const staleIds: number[] = [];
+  for (const incident of puts) {
+    const stored: Incident | undefined = await requestToPromise(store.get(incident.id));
+    if (stored && stored.version >= incident.version) staleIds.push(incident.id);
+    else store.put(incident);
+  }
+  for (const id of deletes) {
+    const version = versions?.get(id);
+    const stored: Incident | undefined = version === undefined ? undefined : await requestToPromise(store.get(id));
+    if (stored && version !== undefined && stored.version > version) staleIds.push(id);
+    else store.delete(id);
+  }
+  return finishVersionedWrite(transaction, done, staleIds);
+};
+
+export const isSeeded = async (): Promise<boolean> => {
+  const db = await openDB();
+  const store = db.transaction(META_STORE, "readonly").objectStore(META_STORE);
+  const entry: MetaEntry | undefined = await requestToPromise(store.get("seeded"));
+  return entry?.value === true;
+};
+
+/**
+ * Loads every incident, writing the sample data first if this database has never
+ * been seeded. An empty but seeded store stays empty.
+ */
+export const loadIncidents = async (): Promise<Incident[]> => {
+  if (await isSeeded()) {
+    return getAllIncidents();
+  }
+
+  const db = await openDB();
+  const transaction = db.transaction([INCIDENT_STORE, META_STORE], "readwrite");
+  initialIncidents.forEach(incident => transaction.objectStore(INCIDENT_STORE).put(incident));
+  transaction.objectStore(META_STORE).put({ key: "seeded", value: true });
+  await transactionDone(transaction);
+  return getAllIncidents();
+};
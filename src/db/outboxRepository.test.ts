@@ -0,0 +1,50 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { sampleIncident } from "../test/fixtures";
+
+let repository: typeof import("./incidentRepository");
+let outbox: typeof import("./outboxRepository");
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  repository = await import("./incidentRepository");
+  outbox = await import("./outboxRepository");
+});
+
+describe("recordLocalChanges", () => {
+  it("queues each change against the version it replaced", async () => {
+    await repository.putIncidents([sampleIncident(100, { version: 2 }), sampleIncident(101, { version: 5 })]);
+    await outbox.recordLocalChanges([sampleIncident(100, { title: "Renamed", version: 3 }), sampleIncident(102)], [101], new Map([[101, 5]]));
+
+    expect((await repository.getIncident(100))?.title).toBe("Renamed");
+    expect(await repository.getIncident(101)).toBeUndefined();
+    expect((await outbox.getOutbox()).map(({ id, op, base_version }) => ({ id, op, base_version }))).toEqual([
+      { id: 100, op: "put", base_version: 2 },
+      { id: 101, op: "delete", base_version: 5 },
+      { id: 102, op: "put", base_version: null },
+    ]);
+  });
+
+  it("refuses a put based on an outdated copy and queues nothing", async () => {
+    await repository.putIncident(sampleIncident(100, { version: 3 }));
+    await expect(
+      outbox.recordLocalChanges([sampleIncident(101), sampleIncident(100, { title: "Stale", version: 3 })], [])
+    ).rejects.toBeInstanceOf(repository.StaleWriteError);
+
+    expect((await repository.getIncident(100))?.title).toBe("Incident 100");
+    expect(await repository.getIncident(101)).toBeUndefined();
+    expect(await outbox.getOutbox()).toEqual([]);
+  });
+
+  it("keeps a record that changed since the version being deleted", async () => {
+    await repository.putIncident(sampleIncident(100, { version: 4 }));
+    await expect(outbox.recordLocalChanges([], [100], new Map([[100, 3]]))).rejects.toBeInstanceOf(
+      repository.StaleWriteError
+    );
+
+    expect(await repository.getIncident(100)).toBeDefined();
+    expect(await outbox.getOutbox()).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import { hasSameContent } from "../lib/incidentVersion";
+import type { Incident } from "../types";
+import {
+  INCIDENT_STORE,
+  META_STORE,
+  OUTBOX_STORE,
+  openDB,
+  requestToPromise,
+  transactionDone,
+} from "./database";
+import { finishVersionedWrite } from "./incidentRepository";
+
+/**
+ * A local change waiting to be pushed. There is at most one entry per incident:
+ * later changes replace the operation but keep the original base version.
+ */
+export interface OutboxEntry {
+  id: number;
+  op: "put" | "delete";
+  // Server version the change was made against; null if the server has never seen it
+  base_version: number | null;
+  queued_at: string;
+  conflict?: {
+    remote: Incident | null;
+    detected_at: string;
+  };
+}
+
+export const getOutbox = async (): Promise<OutboxEntry[]> => {
+  const db = await openDB();
+  const store = db.transaction(OUTBOX_STORE, "readonly").objectStore(OUTBOX_STORE);
+  return requestToPromise(store.getAll());
+};
+
+const queueChange = async (
+  incidents: IDBObjectStore,
+  outbox: IDBObjectStore,
+  id: number,
+  op: OutboxEntry["op"]
+) => {
+  const existing: OutboxEntry | undefined = await requestToPromise(outbox.get(id));
+  const stored: Incident | undefined = existing ? undefined : await requestToPromise(incidents.get(id));
+  const baseVersion = existing ? existing.base_version : stored?.version ?? null;
+
+  if (op === "delete" && baseVersion === null) {
+    // Never reached the server, so there is nothing to delete remotely
+    outbox.delete(id);
+    return;
+  }
+  outbox.put({ ...existing, id, op, base_version: baseVersion, queued_at: new Date().toISOString() });
+};
+
+/**
+ * Writes local changes and their outbox entries in one transaction. Stale
+ * copies are refused the same way as in putIncidents and deleteIncidents, and
+ * then nothing is written or queued.
+ */
+export const recordLocalChanges = async (
+  puts: Incident[],
+  deletes: number[],
+  versions?: Map<number, number>
+): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction([INCIDENT_STORE, OUTBOX_STORE], "readwrite");
+  const incidents = transaction.objectStore(INCIDENT_STORE);
+  const outbox = transaction.objectStore(OUTBOX_STORE);
+  const done = transactionDone(transaction);
+  const staleIds: number[] = [];
+
+  // Queue before writing so the base version comes from the previous copy
+  for (const incident of puts) {
+    const stored: Incident | undefined = await requestToPromise(incidents.get(incident.id));
+    if (stored && stored.version >= incident.version) {
+      staleIds.push(incident.id);
+      continue;
+    }
+    await queueChange(incidents, outbox, incident.id, "put");
+    incidents.put(incident);
+  }
+  for (const id of deletes) {
+    const version = versions?.get(id);
+    const stored: Incident | undefined = version === undefined ? undefined : await requestToPromise(incidents.get(id));
+    if (stored && version !== undefined && stored.version > version) {
+      staleIds.push(id);
+      continue;
+    }
+    await queueChange(incidents, outbox, id, "delete");
+    incidents.delete(id);
+  }
+  return finishVersionedWrite(transaction, done, staleIds);
+};
+
+/**
+ * Queues every local incident the first time sync is enabled so data created in
+ * local-only mode reaches the server.
+ */
+export const initializeOutbox = async (): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction([INCIDENT_STORE, OUTBOX_STORE, META_STORE], "readwrite");
+  const meta = transaction.objectStore(META_STORE);
+  const outbox = transaction.objectStore(OUTBOX_STORE);
+  const done = transactionDone(transaction);
+
+  const flag = await requestToPromise(meta.get("syncInitialized"));
+  if (!flag) {
+    const incidents: Incident[] = await requestToPromise(transaction.objectStore(INCIDENT_STORE).getAll());
+    const queuedIds = new Set(await requestToPromise(outbox.getAllKeys()));
+    const queuedAt = new Date().toISOString();
+    incidents
+      .filter(incident => !queuedIds.has(incident.id))
+      .forEach(incident => outbox.put({ id: incident.id, op: "put", base_version: null, queued_at: queuedAt }));
+    meta.put({ key: "syncInitialized", value: true });
+  }
+  return done;
+};
+
+/**
+ * Clears an entry after a successful push. If the incident changed again while
+ * the push was in flight, the entry stays queued on top of the pushed version.
+ */
+export const acknowledgePush = async (id: number, queuedAt: string, pushedVersion: number | null) => {
+  const db = await openDB();
+  const transaction = db.transaction(OUTBOX_STORE, "readwrite");
+  const outbox = transaction.objectStore(OUTBOX_STORE);
+  const done = transactionDone(transaction);
+
+  const entry: OutboxEntry | undefined = await requestToPromise(outbox.get(id));
+  if (entry?.queued_at === queuedAt) {
+    outbox.delete(id);
+  } else if (entry) {
+    outbox.put({ ...entry, base_version: pushedVersion });
+  }
+  return done;
+};
+
+export const markConflict = async (id: number, remote: Incident | null) => {
+  const db = await openDB();
+  const transaction = db.transaction(OUTBOX_STORE, "readwrite");
+  const outbox = transaction.objectStore(OUTBOX_STORE);
+  const done = transactionDone(transaction);
+
+  const entry: OutboxEntry | undefined = await requestToPromise(outbox.get(id));
+  if (entry) {
+    outbox.put({ ...entry, conflict: { remote, detected_at: new Date().toISOString() } });
+  }
+  return done;
+};
+
+/**
+ * "local" re-queues the local change on top of the server copy; "remote" drops the
+ * local change and takes the server copy (or its deletion).
+ */
+export const resolveConflict = async (id: number, keep: "local" | "remote") => {
+  const db = await openDB();
+  const transaction = db.transaction([INCIDENT_STORE, OUTBOX_STORE], "readwrite");
+  const incidents = transaction.objectStore(INCIDENT_STORE);
+  const outbox = transaction.objectStore(OUTBOX_STORE);
+  const done = transactionDone(transaction);
+
+  const entry: OutboxEntry | undefined = await requestToPromise(outbox.get(id));
+  if (!entry?.conflict) return done;
+  const { remote } = entry.conflict;
+
+  if (keep === "local") {
+    const requeued: OutboxEntry = { ...entry, base_version: remote?.version ?? null };
+    delete requeued.conflict;
+    outbox.put(requeued);
+    const local: Incident | undefined = await requestToPromise(incidents.get(id));
+    if (local && remote) {
+      incidents.put({ ...local, version: Math.max(local.version, remote.version) + 1 });
+    }
+  } else {
+    if (remote) incidents.put(remote);
+    else incidents.delete(id);
+    outbox.delete(id);
+  }
+  return done;
+};
+
+/**
+ * Brings the local replica in line with a full server snapshot, leaving incidents
+ * with queued changes alone. Returns whether anything was written.
+ */
+export const applyRemoteSnapshot = async (remote: Incident[]): Promise<boolean> => {
+  const db = await openDB();
+  const transaction = db.transaction([INCIDENT_STORE, OUTBOX_STORE], "readwrite");
+  const incidents = transaction.objectStore(INCIDENT_STORE);
+  const done = transactionDone(transaction);
+
+  const local: Incident[] = await requestToPromise(incidents.getAll());
+  const queuedIds = new Set(await requestToPromise(transaction.objectStore(OUTBOX_STORE).getAllKeys()));
+  const localById = new Map(local.map(incident => [incident.id, incident]));
+  const remoteIds = new Set(remote.map(incident => incident.id));
+  let changed = false;
+
+  for (const incident of remote) {
+    if (queuedIds.has(incident.id)) continue;
+    const current = localById.get(incident.id);
+    if (!current || current.version !== incident.version || !hasSameContent(current, incident)) {
+      incidents.put(incident);
+      changed = true;
+    }
+  }
+  for (const incident of local) {
+    if (!remoteIds.has(incident.id) && !queuedIds.has(incident.id)) {
+      incidents.delete(incident.id);
+      changed = true;
+    }
+  }
+
+  await done;
+  return changed;
+};
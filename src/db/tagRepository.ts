@@ -0,0 +1,51 @@
+import { isTrashed } from "../lib/trash";
+import type { Incident } from "../types";
+import { INCIDENT_STORE, TAG_STORE, openDB, requestToPromise, transactionDone } from "./database";
+
+/**
+ * A tag known to this browser. Tags on incidents are the source of truth; the
+ * registry keeps the vocabulary for autocomplete and the tag manager.
+ */
+export interface TagRecord {
+  name: string;
+  created_at: string;
+}
+
+export const getTagRecords = async (): Promise<TagRecord[]> => {
+  const db = await openDB();
+  const store = db.transaction(TAG_STORE, "readonly").objectStore(TAG_STORE);
+  return requestToPromise(store.getAll());
+};
+
+/** Adds any tags not registered yet; existing records keep their creation date. */
+export const registerTags = async (names: string[]): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction(TAG_STORE, "readwrite");
+  const store = transaction.objectStore(TAG_STORE);
+  const createdAt = new Date().toISOString();
+  const known = new Set(await requestToPromise(store.getAllKeys()));
+  names.filter(name => !known.has(name)).forEach(name => store.put({ name, created_at: createdAt }));
+  return transactionDone(transaction);
+};
+
+export const unregisterTags = async (names: string[]): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction(TAG_STORE, "readwrite");
+  const store = transaction.objectStore(TAG_STORE);
+  names.forEach(name => store.delete(name));
+  return transactionDone(transaction);
+};
+
+/** Incidents carrying `tag`, using the multi-entry tags index. */
+export const getIncidentsByTag = async (tag: string): Promise<Incident[]> => {
+  const db = await openDB();
+  const store = db.transaction(INCIDENT_STORE, "readonly").objectStore(INCIDENT_STORE);
+  return requestToPromise(store.index("tags").getAll(tag));
+};
+
+/** How many incidents outside the trash carry each tag. */
+export const countIncidentsByTag = async (names: string[]): Promise<Map<string, number>> =>
+  new Map(await Promise.all(names.map(async name => {
+    const tagged = await getIncidentsByTag(name);
+    return [name, tagged.filter(incident => !isTrashed(incident)).length] as const;
+  })));
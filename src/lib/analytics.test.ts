@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { sampleIncident } from "../test/fixtures";
+import type { Incident, Severity } from "../types";
+import {
+  breakdownBy,
+  countByPeriod,
+  getPeriodStart,
+  percentile,
+  resolutionDistribution,
+  rollingAverage,
+} from "./analytics";
+import { SEVERITIES } from "./severity";
+
+const incident = (reported_at: string, severity: Severity = "Medium", changes: Partial<Incident> = {}) =>
+  sampleIncident(1, { reported_at, severity, ...changes });
+
+describe("getPeriodStart", () => {
+  it("starts weeks on Monday in UTC", () => {
+    // 2025-03-02 is a Sunday
+    expect(getPeriodStart("2025-03-02T23:30:00Z", "week")).toBe("2025-02-24");
+    expect(getPeriodStart("2025-03-03T00:00:00Z", "week")).toBe("2025-03-03");
+    expect(getPeriodStart("2025-03-02T23:30:00-02:00", "week")).toBe("2025-03-03");
+    expect(getPeriodStart("2025-01-01T12:00:00Z", "week")).toBe("2024-12-30");
+  });
+
+  it("starts months on the first in UTC", () => {
+    expect(getPeriodStart("2025-03-31T23:59:59Z", "month")).toBe("2025-03-01");
+    expect(getPeriodStart("2025-03-31T23:30:00-05:00", "month")).toBe("2025-04-01");
+    expect(getPeriodStart("2025-01-01T00:30:00+01:00", "month")).toBe("2024-12-01");
+  });
+});
+
+describe("countByPeriod", () => {
+  it("returns nothing for no incidents", () => {
+    expect(countByPeriod([], "week")).toEqual([]);
+  });
+
+  it("counts by severity and fills the empty periods in between", () => {
+    const buckets = countByPeriod(
+      [incident("2025-04-10T09:00:00Z", "High"), incident("2025-01-05T09:00:00Z", "Low"), incident("2025-01-20T09:00:00Z", "High")],
+      "month"
+    );
+    expect(buckets.map(bucket => [bucket.start, bucket.total])).toEqual([
+      ["2025-01-01", 2],
+      ["2025-02-01", 0],
+      ["2025-03-01", 0],
+      ["2025-04-01", 1],
+    ]);
+    expect(buckets[0].counts).toEqual({ ...Object.fromEntries(SEVERITIES.map(severity => [severity, 0])), Low: 1, High: 1 });
+  });
+
+  it("fills weeks across a month boundary", () => {
+    const buckets = countByPeriod([incident("2025-02-27T09:00:00Z"), incident("2025-03-13T09:00:00Z")], "week");
+    expect(buckets.map(bucket => [bucket.start, bucket.total])).toEqual([
+      ["2025-02-24", 1],
+      ["2025-03-03", 0],
+      ["2025-03-10", 1],
+    ]);
+  });
+});
+
+describe("rollingAverage", () => {
+  it("averages a trailing window that is shorter at the start", () => {
+    expect(rollingAverage([1, 2, 3, 4, 8], 3)).toEqual([1, 1.5, 2, 3, 5]);
+    expect(rollingAverage([4, 0, 2], 1)).toEqual([4, 0, 2]);
+    expect(rollingAverage([], 3)).toEqual([]);
+  });
+});
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    const values = [50, 15, 40, 20, 35];
+    expect(percentile(values, 0)).toBe(15);
+    expect(percentile(values, 30)).toBe(20);
+    expect(percentile(values, 40)).toBe(20);
+    expect(percentile(values, 50)).toBe(35);
+    expect(percentile(values, 90)).toBe(50);
+    expect(percentile(values, 100)).toBe(50);
+    expect(values).toEqual([50, 15, 40, 20, 35]);
+  });
+
+  it("is null for no values", () => {
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe("resolutionDistribution", () => {
+  it("puts each time in the bucket below its exclusive upper bound", () => {
+    const times = [
+      { incident: incident("2025-03-01T00:00:00Z", "Low"), hours: 0 },
+      { incident: incident("2025-03-01T00:00:00Z", "High"), hours: 1 },
+      { incident: incident("2025-03-01T00:00:00Z", "High"), hours: 3.9 },
+      { incident: incident("2025-03-01T00:00:00Z", "Medium"), hours: 24 },
+      { incident: incident("2025-03-01T00:00:00Z", "Low"), hours: 400 },
+    ];
+    const buckets = resolutionDistribution(times);
+    expect(buckets.map(bucket => [bucket.label, bucket.total])).toEqual([
+      ["< 1h", 1],
+      ["1–4h", 2],
+      ["4–24h", 0],
+      ["1–3d", 1],
+      ["3–7d", 0],
+      ["1–2w", 0],
+      ["> 2w", 1],
+    ]);
+    expect(buckets[1].counts.High).toBe(2);
+  });
+});
+
+describe("breakdownBy", () => {
+  it("keeps severities in their scale order", () => {
+    const day = "2025-03-01T00:00:00Z";
+    const rows = breakdownBy([incident(day, "High"), incident(day, "Low"), incident(day, "High")], "severity");
+    expect(rows.map(row => row.value)).toEqual(SEVERITIES.filter(severity => severity !== "Medium"));
+  });
+
+  it("sorts other fields by count, then label, with unset values last", () => {
+    const harm = (harm_category?: string) =>
+      incident("2025-03-01T00:00:00Z", "Medium", { taxonomy: { harm_category } });
+    const rows = breakdownBy([harm(), harm("privacy_leak"), harm(), harm("jailbreak"), harm(), harm("bias"), harm("bias")], "harm_category");
+    expect(rows.map(row => [row.label, row.total])).toEqual([
+      ["Bias / Fairness", 2],
+      ["Jailbreak", 1],
+      ["Privacy Leak", 1],
+      ["Not specified", 3],
+    ]);
+  });
+});
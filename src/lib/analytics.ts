@@ -0,0 +1,187 @@
+import { TAXONOMY_FIELDS, formatTaxonomyValue, isTaxonomyKey } from "../config/taxonomy";
+import type { Incident, Severity } from "../types";
+import { INCIDENT_STATUSES, getResolvedAt } from "./incidentStatus";
+import { SEVERITIES } from "./severity";
+
+/**
+ * Aggregations behind the analytics view. They take an already filtered list of
+ * incidents and return plain data; the chart components only draw it.
+ * Periods are computed in UTC so results match across time zones and the server.
+ */
+
+export type Granularity = "week" | "month";
+
+export type SeverityCounts = Record<Severity, number>;
+
+export interface PeriodBucket {
+  // ISO date (YYYY-MM-DD) of the first day of the period
+  start: string;
+  counts: SeverityCounts;
+  total: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const emptyCounts = (): SeverityCounts =>
+  Object.fromEntries(SEVERITIES.map(severity => [severity, 0])) as SeverityCounts;
+
+const toDateKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Weeks start on Monday
+export const getPeriodStart = (date: string, granularity: Granularity): string => {
+  const day = new Date(date);
+  if (granularity === "month") {
+    return toDateKey(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  }
+  const midnight = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  return toDateKey(midnight - daysSinceMonday * DAY_MS);
+};
+
+const nextPeriodStart = (start: string, granularity: Granularity): string => {
+  const day = new Date(start);
+  return granularity === "month"
+    ? toDateKey(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 1))
+    : toDateKey(day.getTime() + 7 * DAY_MS);
+};
+
+/** Incidents reported per period, by severity. Empty periods in between are included. */
+export const countByPeriod = (incidents: Incident[], granularity: Granularity): PeriodBucket[] => {
+  if (incidents.length === 0) return [];
+
+  const buckets = new Map<string, PeriodBucket>();
+  for (const incident of incidents) {
+    const start = getPeriodStart(incident.reported_at, granularity);
+    const bucket = buckets.get(start) ?? { start, counts: emptyCounts(), total: 0 };
+    bucket.counts[incident.severity]++;
+    bucket.total++;
+    buckets.set(start, bucket);
+  }
+
+  const starts = [...buckets.keys()].sort();
+  const result: PeriodBucket[] = [];
+  for (let start = starts[0]; start <= starts[starts.length - 1]; start = nextPeriodStart(start, granularity)) {
+    result.push(buckets.get(start) ?? { start, counts: emptyCounts(), total: 0 });
+  }
+  return result;
+};
+
+/** Trailing average over up to `window` values (shorter at the start of the series). */
+export const rollingAverage = (values: number[], window: number): number[] =>
+  values.map((_, index) => {
+    const slice = values.slice(Math.max(0, index - window + 1), index + 1);
+    return slice.reduce((sum, value) => sum + value, 0) / slice.length;
+  });
+
+export interface ResolutionTime {
+  incident: Incident;
+  hours: number;
+}
+
+/** Hours from report to resolution for every resolved incident. */
+export const getResolutionTimes = (incidents: Incident[]): ResolutionTime[] =>
+  incidents.flatMap(incident => {
+    const resolvedAt = getResolvedAt(incident);
+    if (!resolvedAt) return [];
+    const hours = (Date.parse(resolvedAt) - Date.parse(incident.reported_at)) / HOUR_MS;
+    return [{ incident, hours: Math.max(0, hours) }];
+  });
+
+export interface DurationBucket {
+  label: string;
+  // Upper bound in hours (exclusive); Infinity for the last bucket
+  maxHours: number;
+  counts: SeverityCounts;
+  total: number;
+}
+
+export const RESOLUTION_BUCKETS: { label: string; maxHours: number }[] = [
+  { label: "< 1h", maxHours: 1 },
+  { label: "1–4h", maxHours: 4 },
+  { label: "4–24h", maxHours: 24 },
+  { label: "1–3d", maxHours: 72 },
+  { label: "3–7d", maxHours: 168 },
+  { label: "1–2w", maxHours: 336 },
+  { label: "> 2w", maxHours: Infinity },
+];
+
+/** Histogram of resolution times, by severity. */
+export const resolutionDistribution = (times: ResolutionTime[]): DurationBucket[] => {
+  const buckets = RESOLUTION_BUCKETS.map(bucket => ({ ...bucket, counts: emptyCounts(), total: 0 }));
+  for (const { incident, hours } of times) {
+    const bucket = buckets.find(candidate => hours < candidate.maxHours)!;
+    bucket.counts[incident.severity]++;
+    bucket.total++;
+  }
+  return buckets;
+};
+
+// Nearest-rank percentile of a list of numbers; null when empty
+export const percentile = (values: number[], p: number): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+};
+
+export interface ResolutionSummary {
+  severity: Severity;
+  count: number;
+  medianHours: number | null;
+  p90Hours: number | null;
+}
+
+export const summarizeResolution = (times: ResolutionTime[]): ResolutionSummary[] =>
+  SEVERITIES.map(severity => {
+    const hours = times.filter(time => time.incident.severity === severity).map(time => time.hours);
+    return { severity, count: hours.length, medianHours: percentile(hours, 50), p90Hours: percentile(hours, 90) };
+  });
+
+/** Fields the breakdown chart can group by. */
+export const BREAKDOWN_FIELDS: { key: string; label: string }[] = [
+  { key: "severity", label: "Severity" },
+  { key: "status", label: "Status" },
+  ...TAXONOMY_FIELDS.map(field => ({ key: field.key, label: field.label })),
+];
+
+export interface BreakdownRow {
+  value: string | null;
+  label: string;
+  counts: SeverityCounts;
+  total: number;
+}
+
+const getFieldValue = (incident: Incident, field: string): string | undefined => {
+  if (field === "severity") return incident.severity;
+  if (field === "status") return incident.status;
+  return isTaxonomyKey(field) ? incident.taxonomy[field] : undefined;
+};
+
+const formatFieldValue = (field: string, value: string) =>
+  isTaxonomyKey(field) ? formatTaxonomyValue(field, value) : value;
+
+// Severity and status keep their natural order; other fields sort by count
+const FIXED_ORDER: Record<string, readonly string[]> = { severity: SEVERITIES, status: INCIDENT_STATUSES };
+
+/** Incident counts per value of a categorical field, by severity. Unset values group as "Not specified". */
+export const breakdownBy = (incidents: Incident[], field: string): BreakdownRow[] => {
+  const rows = new Map<string | null, BreakdownRow>();
+  for (const incident of incidents) {
+    const value = getFieldValue(incident, field) || null;
+    const row = rows.get(value) ?? {
+      value,
+      label: value === null ? "Not specified" : formatFieldValue(field, value),
+      counts: emptyCounts(),
+      total: 0,
+    };
+    row.counts[incident.severity]++;
+    row.total++;
+    rows.set(value, row);
+  }
+
+  const order = FIXED_ORDER[field];
+  return [...rows.values()].sort((a, b) => {
+    if (a.value === null || b.value === null) return a.value === null ? 1 : -1;
+    return order ? order.indexOf(a.value) - order.indexOf(b.value) : b.total - a.total || a.label.localeCompare(b.label);
+  });
+};
@@ -0,0 +1,80 @@
+import type { Incident } from "../types";
+import { isResolved } from "./incidentStatus";
+import { compareSeverity } from "./severity";
+
+// Written by the app rather than a person
+const SYSTEM_AUTHORS = ["system", "api"];
+
+/** Names are compared trimmed and ignoring case; blank names match nobody. */
+export const isSamePerson = (a: string | null, b: string | null) =>
+  a !== null && b !== null && a.trim() !== "" && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const isReportedBy = (incident: Incident, name: string) => isSamePerson(incident.reporter, name);
+
+export const isAssignedTo = (incident: Incident, name: string) => isSamePerson(incident.assignee, name);
+
+/** Everyone who has reported, been assigned or changed the status of an incident, sorted by name. */
+export const getPeople = (incidents: Incident[]): string[] => {
+  const names = new Map<string, string>();
+  incidents.forEach(incident => {
+    [incident.reporter, incident.assignee, ...incident.status_history.map(transition => transition.by)]
+      .forEach(name => {
+        const trimmed = name?.trim();
+        if (trimmed && !SYSTEM_AUTHORS.includes(trimmed) && !names.has(trimmed.toLowerCase())) {
+          names.set(trimmed.toLowerCase(), trimmed);
+        }
+      });
+  });
+  return [...names.values()].sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Active incidents nobody has picked up yet, most severe first and, within a
+ * severity, the ones waiting longest first.
+ */
+export const getTriageQueue = (incidents: Incident[]): Incident[] =>
+  incidents
+    .filter(incident => incident.assignee === null && !isResolved(incident.status))
+    .sort((a, b) =>
+      compareSeverity(b.severity, a.severity) ||
+      new Date(a.reported_at).getTime() - new Date(b.reported_at).getTime()
+    );
+
+export interface Workload {
+  // null counts the unassigned incidents
+  assignee: string | null;
+  count: number;
+}
+
+/** Active incidents per assignee, busiest first, with the unassigned count last. */
+export const getWorkloads = (incidents: Incident[]): Workload[] => {
+  const counts = new Map<string, Workload>();
+  let unassigned = 0;
+  incidents
+    .filter(incident => !isResolved(incident.status))
+    .forEach(incident => {
+      const name = incident.assignee?.trim();
+      if (!name) {
+        unassigned++;
+        return;
+      }
+      const workload = counts.get(name.toLowerCase()) ?? { assignee: name, count: 0 };
+      workload.count++;
+      counts.set(name.toLowerCase(), workload);
+    });
+  return [
+    ...[...counts.values()].sort((a, b) => b.count - a.count || a.assignee!.localeCompare(b.assignee!)),
+    ...(unassigned > 0 ? [{ assignee: null, count: unassigned }] : []),
+  ];
+};
+
+// Records from before attribution: whoever opened it, if that was a person
+export const withAssignmentDefaults = (incident: Incident): Incident => {
+  const opened = incident.status_history[0];
+  const openedBy = opened?.from === null && !SYSTEM_AUTHORS.includes(opened.by) ? opened.by : null;
+  return {
+    ...incident,
+    reporter: incident.reporter !== undefined ? incident.reporter : openedBy,
+    assignee: incident.assignee ?? null,
+  };
+};
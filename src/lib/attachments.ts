@@ -0,0 +1,42 @@
+// Evidence files are kept as Blobs in this browser's IndexedDB; see src/db/attachmentRepository.ts
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Text previews only read the start of the file
+export const TEXT_PREVIEW_BYTES = 20 * 1024;
+
+const TEXT_EXTENSIONS = ["txt", "log", "md", "json", "jsonl", "ndjson", "csv", "yaml", "yml", "xml", "html"];
+
+interface FileInfo {
+  name: string;
+  size: number;
+  type: string;
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
+
+/** Why a file can't be attached, or null if it can. */
+export const getAttachmentError = (file: FileInfo): string | null => {
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is ${formatBytes(file.size)}; files are limited to ${formatBytes(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+};
+
+export const isImageAttachment = (file: FileInfo) => file.type.startsWith("image/");
+
+// Browsers leave the type empty for many log formats, so fall back to the extension
+export const isTextAttachment = (file: FileInfo) =>
+  file.type.startsWith("text/") ||
+  file.type === "application/json" ||
+  TEXT_EXTENSIONS.includes(file.name.split(".").pop()?.toLowerCase() ?? "");
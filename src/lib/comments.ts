@@ -0,0 +1,56 @@
+import type { Incident, IncidentComment } from "../types";
+
+export const MAX_COMMENT_LENGTH = 10_000;
+
+const nextCommentId = (incident: Incident) =>
+  incident.comments.reduce((max, comment) => Math.max(max, comment.id), 0) + 1;
+
+export const addComment = (
+  incident: Incident,
+  body: string,
+  author: string,
+  at: string = new Date().toISOString()
+): Incident => ({
+  ...incident,
+  comments: [
+    ...incident.comments,
+    { id: nextCommentId(incident), author, body: body.trim(), created_at: at, edited_at: null },
+  ],
+});
+
+export const editComment = (
+  incident: Incident,
+  commentId: number,
+  body: string,
+  at: string = new Date().toISOString()
+): Incident => ({
+  ...incident,
+  comments: incident.comments.map(comment =>
+    comment.id === commentId ? { ...comment, body: body.trim(), edited_at: at } : comment
+  ),
+});
+
+/** Removes a comment, unpinning it first if it was the root cause note. */
+export const deleteComment = (incident: Incident, commentId: number): Incident => ({
+  ...incident,
+  comments: incident.comments.filter(comment => comment.id !== commentId),
+  root_cause_comment_id: incident.root_cause_comment_id === commentId ? null : incident.root_cause_comment_id,
+});
+
+// Only one comment can be the root cause; pinning another replaces it, null unpins
+export const pinRootCause = (incident: Incident, commentId: number | null): Incident => ({
+  ...incident,
+  root_cause_comment_id: commentId,
+});
+
+export const getRootCause = (incident: Incident): IncidentComment | undefined =>
+  incident.comments.find(comment => comment.id === incident.root_cause_comment_id);
+
+// Comments are attributed by display name, so "own" means written under the current name
+export const isOwnComment = (comment: IncidentComment, user: string) => comment.author === user;
+
+export const withCommentDefaults = (incident: Incident): Incident => ({
+  ...incident,
+  comments: incident.comments ?? [],
+  root_cause_comment_id: incident.root_cause_comment_id ?? null,
+});
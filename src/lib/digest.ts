@@ -0,0 +1,139 @@
+import type { Incident, Severity } from "../types";
+import { getResolvedAt, isResolved } from "./incidentStatus";
+import { SEVERITIES, compareSeverity } from "./severity";
+import { formatDuration } from "./sla";
+
+export interface DigestOptions {
+  // The digest covers the `hours` before `until`
+  until: number;
+  hours: number;
+  // Severities to include; the others are left out entirely
+  severities: Severity[];
+  // List every incident still being worked on, not just the new ones
+  includeUnresolved: boolean;
+}
+
+export const DEFAULT_DIGEST_HOURS = 24;
+
+export interface DigestSection {
+  severity: Severity;
+  // Reported during the period, newest first
+  created: Incident[];
+  // Resolved or closed during the period
+  resolved: Incident[];
+  // Still open at the end of the period, oldest first
+  unresolved: Incident[];
+}
+
+export interface Digest {
+  since: number;
+  until: number;
+  includeUnresolved: boolean;
+  // Most severe first
+  sections: DigestSection[];
+}
+
+const within = (at: string | null, since: number, until: number) => {
+  if (at === null) return false;
+  const time = Date.parse(at);
+  return time > since && time <= until;
+};
+
+/** Summarizes the incidents reported, resolved and still open over a period, by severity. */
+export const buildDigest = (incidents: Incident[], options: DigestOptions): Digest => {
+  const since = options.until - options.hours * 60 * 60 * 1000;
+  const byDate = (a: Incident, b: Incident) => Date.parse(a.reported_at) - Date.parse(b.reported_at);
+  const sections = SEVERITIES
+    .filter(severity => options.severities.includes(severity))
+    .sort((a, b) => compareSeverity(b, a))
+    .map(severity => {
+      const matching = incidents.filter(incident => incident.severity === severity);
+      return {
+        severity,
+        created: matching.filter(incident => within(incident.reported_at, since, options.until)).sort(byDate).reverse(),
+        resolved: matching.filter(incident => within(getResolvedAt(incident), since, options.until)).sort(byDate),
+        unresolved: options.includeUnresolved
+          ? matching
+            .filter(incident => !isResolved(incident.status) && Date.parse(incident.reported_at) <= options.until)
+            .sort(byDate)
+          : [],
+      };
+    });
+  return { since, until: options.until, includeUnresolved: options.includeUnresolved, sections };
+};
+
+export const getDigestTotals = (digest: Digest) => ({
+  created: digest.sections.reduce((total, section) => total + section.created.length, 0),
+  resolved: digest.sections.reduce((total, section) => total + section.resolved.length, 0),
+  unresolved: digest.sections.reduce((total, section) => total + section.unresolved.length, 0),
+});
+
+export const getDigestTitle = (digest: Digest) =>
+  `Incident digest, ${new Date(digest.until).toLocaleDateString(undefined, { dateStyle: "medium" })}`;
+
+const getPeriodLabel = (digest: Digest) => {
+  const hours = Math.round((digest.until - digest.since) / (60 * 60 * 1000));
+  return hours % 24 === 0 && hours > 24 ? `Last ${hours / 24} days` : `Last ${hours} hours`;
+};
+
+const getSummary = (digest: Digest) => {
+  const totals = getDigestTotals(digest);
+  return [
+    `${totals.created} new`,
+    `${totals.resolved} resolved`,
+    ...(digest.includeUnresolved ? [`${totals.unresolved} unresolved`] : []),
+  ].join(", ");
+};
+
+// What goes after the title in each line of the digest
+const describe = (incident: Incident, kind: "created" | "resolved" | "unresolved", until: number) =>
+  kind === "unresolved"
+    ? `${incident.status}, reported ${formatDuration(until - Date.parse(incident.reported_at))} ago`
+    : kind === "resolved"
+      ? incident.status
+      : `${incident.status}, reported ${new Date(incident.reported_at).toLocaleString()}`;
+
+const LIST_HEADINGS = { created: "New", resolved: "Resolved", unresolved: "Unresolved" } as const;
+
+const eachList = (section: DigestSection) =>
+  (["created", "resolved", "unresolved"] as const)
+    .map(kind => ({ kind, incidents: section[kind] }))
+    .filter(list => list.incidents.length > 0);
+
+/**
+ * The digest as Markdown for a team channel. Incident titles link into the
+ * dashboard at `baseUrl`.
+ */
+export const formatDigestMarkdown = (digest: Digest, baseUrl: string) => {
+  const lines = [`# ${getDigestTitle(digest)}`, "", `_${getPeriodLabel(digest)}: ${getSummary(digest)}_`];
+  digest.sections.forEach(section => {
+    const lists = eachList(section);
+    lines.push("", `## ${section.severity}`);
+    if (lists.length === 0) lines.push("", "Nothing to report.");
+    lists.forEach(({ kind, incidents }) => {
+      lines.push("", `**${LIST_HEADINGS[kind]} (${incidents.length})**`, "");
+      incidents.forEach(incident => {
+        lines.push(`- [#${incident.id} ${incident.title.replace(/[[\]]/g, "")}](${baseUrl}/incidents/${incident.id}): ${describe(incident, kind, digest.until)}`);
+      });
+    });
+  });
+  return lines.join("\n");
+};
+
+/** The digest as plain text for an email body, with links spelled out. */
+export const formatDigestEmail = (digest: Digest, baseUrl: string) => {
+  const lines = [getDigestTitle(digest), `${getPeriodLabel(digest)}: ${getSummary(digest)}`];
+  digest.sections.forEach(section => {
+    const lists = eachList(section);
+    lines.push("", section.severity.toUpperCase());
+    if (lists.length === 0) lines.push("  Nothing to report.");
+    lists.forEach(({ kind, incidents }) => {
+      lines.push(`  ${LIST_HEADINGS[kind]} (${incidents.length}):`);
+      incidents.forEach(incident => {
+        lines.push(`  - #${incident.id} ${incident.title} (${describe(incident, kind, digest.until)})`);
+        lines.push(`    ${baseUrl}/incidents/${incident.id}`);
+      });
+    });
+  });
+  return lines.join("\n");
+};
@@ -0,0 +1,116 @@
+import type { Incident } from "../types";
+import { getDuplicateOf } from "./incidentLinks";
+
+/**
+ * Local duplicate detection: incidents are compared as TF-IDF weighted bags of
+ * words using cosine similarity. Titles count twice since they summarize the
+ * report. Nothing leaves the browser.
+ */
+
+export const DUPLICATE_THRESHOLD = 0.3;
+const MAX_MATCHES = 5;
+
+const STOP_WORDS = new Set(
+  ("a an and are as at be but by for from has have in into is it its of on or that the their this " +
+    "to was were which while will with via not no").split(" ")
+);
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    // Crude plural folding so "leaks" matches "leak"
+    .map(word => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+
+const documentTokens = ({ title, description }: Pick<Incident, "title" | "description">) =>
+  [...tokenize(title), ...tokenize(title), ...tokenize(description)];
+
+const countTerms = (tokens: string[]) => {
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+  return counts;
+};
+
+type Vector = Map<string, number>;
+
+const cosine = (a: Vector, b: Vector) => {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    dot += weight * (b.get(term) ?? 0);
+  });
+  const norm = (vector: Vector) => Math.sqrt([...vector.values()].reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+};
+
+export interface DuplicateMatch {
+  incident: Incident;
+  // Cosine similarity between 0 and 1
+  score: number;
+}
+
+/** The incidents most similar to a new report, best first. */
+export const findLikelyDuplicates = (
+  report: Pick<Incident, "title" | "description">,
+  incidents: Incident[],
+  threshold = DUPLICATE_THRESHOLD
+): DuplicateMatch[] => {
+  const corpus = incidents.map(incident => countTerms(documentTokens(incident)));
+  const query = countTerms(documentTokens(report));
+  if (query.size === 0) return [];
+
+  // Smoothed inverse document frequency over the existing incidents plus the report
+  const documentCount = corpus.length + 1;
+  const idf = (term: string) => {
+    const frequency = corpus.filter(counts => counts.has(term)).length + 1;
+    return Math.log((documentCount + 1) / (frequency + 1)) + 1;
+  };
+  const idfCache = new Map<string, number>();
+  const weigh = (counts: Map<string, number>): Vector => {
+    const vector: Vector = new Map();
+    counts.forEach((count, term) => {
+      if (!idfCache.has(term)) idfCache.set(term, idf(term));
+      vector.set(term, count * idfCache.get(term)!);
+    });
+    return vector;
+  };
+
+  const queryVector = weigh(query);
+  return incidents
+    .map((incident, index) => ({ incident, score: cosine(queryVector, weigh(corpus[index])) }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES);
+};
+
+export interface IncidentRow {
+  incident: Incident;
+  // Set when the row is shown under the incident it duplicates
+  parentId: number | null;
+}
+
+/**
+ * Orders a list so duplicates follow the incident they duplicate. Duplicates
+ * whose parent isn't in the list keep their own place.
+ */
+export const groupDuplicates = (incidents: Incident[]): IncidentRow[] => {
+  const listed = new Set(incidents.map(incident => incident.id));
+  const children = new Map<number, Incident[]>();
+  const topLevel: Incident[] = [];
+  incidents.forEach(incident => {
+    const parentId = getDuplicateOf(incident);
+    if (parentId !== null && parentId !== incident.id && listed.has(parentId)) {
+      children.set(parentId, [...(children.get(parentId) ?? []), incident]);
+    } else {
+      topLevel.push(incident);
+    }
+  });
+
+  // Chains (a duplicate of a duplicate) are flattened under the top-level incident
+  const collect = (parentId: number, rootId: number): IncidentRow[] =>
+    (children.get(parentId) ?? []).flatMap(child => [{ incident: child, parentId: rootId }, ...collect(child.id, rootId)]);
+
+  const rows: IncidentRow[] = topLevel.flatMap(incident => [{ incident, parentId: null }, ...collect(incident.id, incident.id)]);
+  // Incidents marked as duplicates of each other have no top-level parent; list them on their own
+  const shown = new Set(rows.map(row => row.incident.id));
+  return [...rows, ...incidents.filter(incident => !shown.has(incident.id)).map(incident => ({ incident, parentId: null }))];
+};
@@ -0,0 +1,154 @@
+import type { Incident, IncidentLink, IncidentLinkType } from "../types";
+
+/**
+ * Typed links between incidents. A link is stored once, on the incident it
+ * points away from ("A caused by B" lives on A); the other side is derived, so
+ * the two directions can't disagree. Permanently deleting an incident strips
+ * the links pointing at it.
+ */
+
+export const INCIDENT_LINK_TYPES: IncidentLinkType[] = ["duplicate_of", "caused_by", "related_to", "regression_of"];
+
+export const LINK_LABELS: Record<IncidentLinkType, string> = {
+  duplicate_of: "Duplicate of",
+  caused_by: "Caused by",
+  related_to: "Related to",
+  regression_of: "Regression of",
+};
+
+// How a link reads from the incident it points at
+export const INVERSE_LINK_LABELS: Record<IncidentLinkType, string> = {
+  duplicate_of: "Has duplicate",
+  caused_by: "Causes",
+  related_to: "Related to",
+  regression_of: "Has regression",
+};
+
+export const isIncidentLinkType = (value: unknown): value is IncidentLinkType =>
+  INCIDENT_LINK_TYPES.includes(value as IncidentLinkType);
+
+export const createLink = (
+  type: IncidentLinkType,
+  target: number,
+  by: string,
+  at: string = new Date().toISOString()
+): IncidentLink => ({ type, target, created_at: at, by });
+
+/** The incident this one was filed as a duplicate of, if any. */
+export const getDuplicateOf = (incident: Incident): number | null =>
+  incident.links.find(link => link.type === "duplicate_of")?.target ?? null;
+
+/** Whether `source` and `target` are already linked with `type`, in either direction for "related to". */
+export const hasLink = (incidents: Incident[], source: Incident, type: IncidentLinkType, target: number) =>
+  source.links.some(link => link.type === type && link.target === target) ||
+  (type === "related_to" &&
+    incidents.some(incident => incident.id === target && incident.links.some(link => link.type === type && link.target === source.id)));
+
+export const addLink = (incident: Incident, link: IncidentLink): Incident => ({
+  ...incident,
+  links: [...incident.links, link],
+});
+
+export const removeLink = (incident: Incident, type: IncidentLinkType, target: number): Incident => ({
+  ...incident,
+  links: incident.links.filter(link => !(link.type === type && link.target === target)),
+});
+
+/** Incidents with links to any of `removedIds`, rewritten without them. */
+export const unlinkRemoved = (incidents: Incident[], removedIds: number[]): { before: Incident; after: Incident }[] =>
+  incidents
+    .filter(incident => !removedIds.includes(incident.id) && incident.links.some(link => removedIds.includes(link.target)))
+    .map(incident => ({
+      before: incident,
+      after: { ...incident, links: incident.links.filter(link => !removedIds.includes(link.target)) },
+    }));
+
+export interface RelatedIncident {
+  type: IncidentLinkType;
+  // True when the link is stored on the other incident
+  inverse: boolean;
+  incident: Incident;
+  // The incident holding the stored link; removing the link edits it
+  source: Incident;
+}
+
+/** Every link touching `incident`, from both sides. Links to unknown incidents are skipped. */
+export const getRelatedIncidents = (incident: Incident, incidents: Incident[]): RelatedIncident[] => {
+  const byId = new Map(incidents.map(i => [i.id, i]));
+  const outgoing = incident.links.flatMap(link => {
+    const target = byId.get(link.target);
+    return target ? [{ type: link.type, inverse: false, incident: target, source: incident }] : [];
+  });
+  const incoming = incidents.flatMap(other =>
+    other.id === incident.id
+      ? []
+      : other.links
+        .filter(link => link.target === incident.id)
+        .map(link => ({ type: link.type, inverse: true, incident: other, source: other }))
+  );
+  return [...outgoing, ...incoming];
+};
+
+export interface LinkGraphNode {
+  incident: Incident;
+  // Hops from the incident the graph is centred on
+  depth: number;
+  x: number;
+  y: number;
+}
+
+export interface LinkGraphEdge {
+  from: number;
+  to: number;
+  type: IncidentLinkType;
+}
+
+export const MAX_GRAPH_NODES = 24;
+
+/**
+ * The cluster of incidents reachable from `root` over links in either direction,
+ * laid out in rings by distance (root at 0,0, one unit per ring). Capped at
+ * MAX_GRAPH_NODES, nearest first.
+ */
+export const getLinkCluster = (root: Incident, incidents: Incident[]): { nodes: LinkGraphNode[]; edges: LinkGraphEdge[] } => {
+  const byId = new Map(incidents.map(incident => [incident.id, incident]));
+  const neighbours = new Map<number, Set<number>>();
+  const connect = (a: number, b: number) => {
+    neighbours.set(a, (neighbours.get(a) ?? new Set()).add(b));
+    neighbours.set(b, (neighbours.get(b) ?? new Set()).add(a));
+  };
+  incidents.forEach(incident => incident.links.forEach(link => {
+    if (byId.has(link.target)) connect(incident.id, link.target);
+  }));
+
+  // Breadth-first, so rings hold incidents at the same distance
+  const depths = new Map([[root.id, 0]]);
+  const queue = [root.id];
+  while (queue.length > 0 && depths.size < MAX_GRAPH_NODES) {
+    const id = queue.shift()!;
+    for (const next of neighbours.get(id) ?? []) {
+      if (depths.has(next) || depths.size >= MAX_GRAPH_NODES) continue;
+      depths.set(next, depths.get(id)! + 1);
+      queue.push(next);
+    }
+  }
+
+  const rings = new Map<number, number[]>();
+  depths.forEach((depth, id) => rings.set(depth, [...(rings.get(depth) ?? []), id]));
+  const nodes: LinkGraphNode[] = [...depths.entries()].map(([id, depth]) => {
+    const ring = rings.get(depth)!;
+    const angle = (2 * Math.PI * ring.indexOf(id)) / ring.length - Math.PI / 2 + depth * 0.4;
+    return { incident: byId.get(id) ?? root, depth, x: depth * Math.cos(angle), y: depth * Math.sin(angle) };
+  });
+  const edges = incidents.flatMap(incident =>
+    depths.has(incident.id)
+      ? incident.links.filter(link => depths.has(link.target)).map(link => ({ from: incident.id, to: link.target, type: link.type }))
+      : []
+  );
+  return { nodes, edges };
+};
+
+export const withLinkDefaults = (incident: Incident): Incident => ({
+  ...incident,
+  links: incident.links ?? [],
+});
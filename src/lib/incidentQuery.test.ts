@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { buildQuery, getIndexedFilter } from "./incidentQuery";
+
+const indexed = (search: string, severity: "All" | "High" = "All") => getIndexedFilter(buildQuery({ search, severity }));
+
+describe("getIndexedFilter", () => {
+  it("takes severity from the filter or an ANDed search term", () => {
+    expect(indexed("", "High")).toEqual({ severity: "High" });
+    expect(indexed("leak severity:low")).toEqual({ severity: "Low" });
+    expect(indexed("severity:>=medium")).toEqual({});
+  });
+
+  it("widens report date bounds by a day on each side", () => {
+    expect(indexed("reported:2025-03-10")).toEqual({ reportedFrom: "2025-03-09", reportedTo: "2025-03-12" });
+    expect(indexed("reported:>=2025-03-10")).toEqual({ reportedFrom: "2025-03-09" });
+    expect(indexed("reported:<2025-03-10")).toEqual({ reportedTo: "2025-03-12" });
+    expect(indexed("reported:2025-03-01..2025-03-31 reported:>2025-03-15")).toEqual({
+      reportedFrom: "2025-03-14",
+      reportedTo: "2025-04-02",
+    });
+  });
+
+  it("collects every ANDed tag", () => {
+    expect(getIndexedFilter(buildQuery({ tags: ["red-team"], search: "tag:privacy" }))).toEqual({ tags: ["red-team", "privacy"] });
+  });
+
+  it("ignores terms under OR or NOT", () => {
+    expect(indexed("severity:high OR reported:2025-03-10")).toEqual({});
+    expect(indexed("-severity:high NOT reported:2025-03-10")).toEqual({});
+  });
+});
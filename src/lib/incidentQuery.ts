@@ -0,0 +1,108 @@
+import { TAXONOMY_KEYS, type IncidentTaxonomy } from "../config/taxonomy";
+import type { Incident, IncidentStatus, Severity, SortOrder } from "../types";
+import { fieldEquals, matchesQuery, parseSearchQuery, type QueryNode } from "./searchQuery";
+import { isBreachingSla, sortBySla, type SlaContext } from "./sla";
+
+export interface IncidentQuery {
+  severity?: Severity | "All";
+  status?: IncidentStatus | "All";
+  // Exact match per taxonomy field; unset fields don't filter
+  taxonomy?: IncidentTaxonomy;
+  // Incidents must carry every listed tag
+  tags?: string[];
+  // Exact (case-insensitive) names
+  reporter?: string;
+  assignee?: string;
+  // Query language; see searchQuery.ts
+  search?: string;
+  // Only incidents past their SLA target
+  breaching?: boolean;
+  sort?: SortOrder;
+  // Targets and clock for the SLA filter and sort; without them both are ignored
+  sla?: SlaContext;
+}
+
+export const sortIncidents = (incidents: Incident[], sortOrder: SortOrder, sla?: SlaContext) =>
+  sortOrder === "sla" && sla
+    ? sortBySla(incidents, sla)
+    : [...incidents].sort((a, b) =>
+      sortOrder === "oldest"
+        ? new Date(a.reported_at).getTime() - new Date(b.reported_at).getTime()
+        : new Date(b.reported_at).getTime() - new Date(a.reported_at).getTime()
+    );
+
+/**
+ * Combines the structured filters and the parsed search text into one query
+ * tree. Throws QueryParseError if the search text is invalid.
+ */
+export const buildQuery = (query: IncidentQuery): QueryNode => {
+  const { severity = "All", status = "All", taxonomy = {}, tags = [], reporter, assignee, search = "" } = query;
+  const nodes: QueryNode[] = [
+    ...(severity !== "All" ? [fieldEquals("severity", severity)] : []),
+    ...(status !== "All" ? [fieldEquals("status", status)] : []),
+    ...TAXONOMY_KEYS.flatMap(key => (taxonomy[key] ? [fieldEquals(key, taxonomy[key])] : [])),
+    ...tags.map(tag => fieldEquals("tag", tag)),
+    ...(reporter ? [fieldEquals("reporter", reporter)] : []),
+    ...(assignee ? [fieldEquals("assignee", assignee)] : []),
+  ];
+  const parsed = parseSearchQuery(search);
+  if (parsed) nodes.push(parsed);
+  return { type: "and", nodes };
+};
+
+/** The part of a query an indexed store can look up without reading every incident. */
+export interface IndexedFilter {
+  severity?: Severity;
+  // Incidents must carry every listed tag
+  tags?: string[];
+  // Inclusive bounds on reported_at, as ISO strings
+  reportedFrom?: string;
+  reportedTo?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The UTC date `days` away from a time, or undefined past the end of the calendar
+const dateKey = (time: number, days: number) => {
+  const date = new Date(time + days * DAY_MS);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+};
+
+/**
+ * Indexed conditions every match of `node` meets. Only terms ANDed at the top
+ * level count; anything under OR or NOT is left to the full query, which still
+ * runs over the incidents found. Date bounds are widened by a day on each side
+ * because reported_at strings may carry a UTC offset, so they sort only roughly.
+ */
+export const getIndexedFilter = (node: QueryNode): IndexedFilter => {
+  const filter: IndexedFilter = {};
+  const visit = (term: QueryNode) => {
+    if (term.type === "and") {
+      term.nodes.forEach(visit);
+    } else if (term.type === "field" && term.field === "severity" && term.op === "=") {
+      filter.severity = term.value as Severity;
+    } else if (term.type === "field" && term.field === "tag") {
+      filter.tags = [...(filter.tags ?? []), term.value];
+    } else if (term.type === "field" && term.field === "reported") {
+      const from = term.op === "<" || term.op === "<=" ? undefined : dateKey(Date.parse(term.value), -1);
+      const to = term.op === ">" || term.op === ">=" ? undefined : dateKey(Date.parse(term.to ?? term.value), 2);
+      if (from !== undefined && (filter.reportedFrom === undefined || from > filter.reportedFrom)) filter.reportedFrom = from;
+      if (to !== undefined && (filter.reportedTo === undefined || to < filter.reportedTo)) filter.reportedTo = to;
+    }
+  };
+  visit(node);
+  return filter;
+};
+
+/**
+ * Filtering and ordering used by both the incident list and the
+ * `/api/incidents` endpoint, so the two always agree.
+ */
+export const queryIncidents = (incidents: Incident[], query: IncidentQuery): Incident[] => {
+  const node = buildQuery(query);
+  const { sla } = query;
+  const matching = incidents.filter(incident =>
+    matchesQuery(incident, node) && !(query.breaching && sla && !isBreachingSla(incident, sla))
+  );
+  return sortIncidents(matching, query.sort ?? "newest", sla);
+};
@@ -0,0 +1,141 @@
+import { TAXONOMY_KEYS, isTaxonomyKey, type IncidentTaxonomy } from "../config/taxonomy";
+import type {
+  EditableField,
+  FieldChange,
+  Incident,
+  IncidentRevision,
+  Severity,
+} from "../types";
+
+export const EDITABLE_FIELDS: EditableField[] = ["title", "description", "severity", "assignee", ...TAXONOMY_KEYS];
+
+// Pseudo revision id for the incident as it was first reported
+export const ORIGINAL_REVISION_ID = 0;
+
+// Taxonomy fields are flattened alongside the core fields; "" means unset (or unassigned)
+export type IncidentEdit = Pick<Incident, "title" | "description" | "severity"> & { assignee: string } & Record<keyof IncidentTaxonomy, string>;
+
+export const getEditableValues = (incident: Incident): IncidentEdit => ({
+  title: incident.title,
+  description: incident.description,
+  severity: incident.severity,
+  assignee: incident.assignee ?? "",
+  ...getTaxonomyValues(incident.taxonomy),
+});
+
+const getTaxonomyValues = (taxonomy: IncidentTaxonomy) =>
+  Object.fromEntries(TAXONOMY_KEYS.map(key => [key, taxonomy[key] ?? ""])) as Record<keyof IncidentTaxonomy, string>;
+
+// Drops unset fields so stored taxonomies only hold actual values
+export const toTaxonomy = (values: Partial<Record<string, string>>): IncidentTaxonomy =>
+  Object.fromEntries(
+    Object.entries(values)
+      .filter(([key, value]) => isTaxonomyKey(key) && value?.trim())
+      .map(([key, value]) => [key, (value as string).trim()])
+  );
+
+export const diffIncidentFields = (before: IncidentEdit, after: IncidentEdit): FieldChange[] =>
+  EDITABLE_FIELDS.filter(field => before[field] !== after[field]).map(field => ({
+    field,
+    from: before[field],
+    to: after[field],
+  }));
+
+const withValues = (incident: Incident, values: IncidentEdit): Incident => ({
+  ...incident,
+  title: values.title,
+  description: values.description,
+  severity: values.severity as Severity,
+  assignee: values.assignee.trim() || null,
+  taxonomy: toTaxonomy(values),
+});
+
+/**
+ * Applies an edit and records the changed fields as a new revision. Returns the
+ * incident unchanged when nothing differs.
+ */
+export const applyIncidentEdit = (
+  incident: Incident,
+  values: IncidentEdit,
+  by: string,
+  revertedTo?: number
+): Incident => {
+  const changes = diffIncidentFields(getEditableValues(incident), values);
+  if (changes.length === 0) return incident;
+
+  const revision: IncidentRevision = {
+    id: incident.revisions.length + 1,
+    at: new Date().toISOString(),
+    by,
+    changes,
+    ...(revertedTo !== undefined && { reverted_to: revertedTo }),
+  };
+  return { ...withValues(incident, values), revisions: [...incident.revisions, revision] };
+};
+
+/**
+ * Reconstructs the editable fields as they were right after `revisionId` was saved,
+ * by walking back through every later revision.
+ */
+export const getValuesAtRevision = (incident: Incident, revisionId: number): IncidentEdit => {
+  const values: Record<EditableField, string> = getEditableValues(incident);
+  for (const revision of [...incident.revisions].reverse()) {
+    if (revision.id <= revisionId) break;
+    for (const change of revision.changes) {
+      values[change.field] = change.from;
+    }
+  }
+  return { ...values, severity: values.severity as Severity };
+};
+
+export const revertToRevision = (incident: Incident, revisionId: number, by: string): Incident =>
+  applyIncidentEdit(incident, getValuesAtRevision(incident, revisionId), by, revisionId);
+
+export const withRevisionDefaults = (incident: Incident): Incident => ({
+  ...incident,
+  revisions: incident.revisions ?? [],
+});
+
+export const withTaxonomyDefaults = (incident: Incident): Incident => ({
+  ...incident,
+  taxonomy: incident.taxonomy ?? {},
+});
+
+export type DiffSegment = { type: "same" | "added" | "removed"; text: string };
+
+/** Word-level diff (LCS over whitespace-separated tokens) for the history view. */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return segments;
+};
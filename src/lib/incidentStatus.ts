@@ -0,0 +1,89 @@
+import type { Incident, IncidentStatus, StatusTransition } from "../types";
+
+export const INCIDENT_STATUSES: IncidentStatus[] = [
+  "Open",
+  "Triaged",
+  "Investigating",
+  "Mitigated",
+  "Resolved",
+  "Closed",
+];
+
+// Allowed next statuses. Any active incident can be closed outright (e.g. invalid
+// or won't-fix reports); Resolved and Closed can only be reopened.
+const STATUS_TRANSITIONS: Record<IncidentStatus, IncidentStatus[]> = {
+  Open: ["Triaged", "Closed"],
+  Triaged: ["Investigating", "Closed"],
+  Investigating: ["Mitigated", "Closed"],
+  Mitigated: ["Resolved", "Closed"],
+  Resolved: ["Closed", "Open"],
+  Closed: ["Open"],
+};
+
+export const isIncidentStatus = (value: unknown): value is IncidentStatus =>
+  INCIDENT_STATUSES.includes(value as IncidentStatus);
+
+export const getAllowedTransitions = (status: IncidentStatus): IncidentStatus[] =>
+  STATUS_TRANSITIONS[status];
+
+export const canTransition = (from: IncidentStatus, to: IncidentStatus) =>
+  STATUS_TRANSITIONS[from].includes(to);
+
+export const isReopen = (from: IncidentStatus | null, to: IncidentStatus) =>
+  to === "Open" && (from === "Resolved" || from === "Closed");
+
+const RESOLVED_STATUSES: IncidentStatus[] = ["Resolved", "Closed"];
+
+export const isResolved = (status: IncidentStatus) => RESOLVED_STATUSES.includes(status);
+
+/**
+ * When the incident was last resolved: the first move into Resolved or Closed
+ * since it was last reopened. Null while it is still being worked on.
+ */
+export const getResolvedAt = (incident: Incident): string | null => {
+  let resolvedAt: string | null = null;
+  for (const transition of incident.status_history) {
+    if (!isResolved(transition.to)) resolvedAt = null;
+    else if (resolvedAt === null) resolvedAt = transition.at;
+  }
+  return resolvedAt;
+};
+
+export const getTransitionLabel = (from: IncidentStatus, to: IncidentStatus) =>
+  isReopen(from, to) ? "Reopen" : to === "Closed" ? "Close" : `Mark ${to}`;
+
+/**
+ * Returns a copy of the incident moved to `to`, with the transition appended to its
+ * history. Throws if the workflow does not allow the move.
+ */
+export const transitionIncident = (
+  incident: Incident,
+  to: IncidentStatus,
+  by: string,
+  at: string = new Date().toISOString()
+): Incident => {
+  if (!canTransition(incident.status, to)) {
+    throw new Error(`Cannot move incident from ${incident.status} to ${to}`);
+  }
+  const transition: StatusTransition = { from: incident.status, to, at, by };
+  return {
+    ...incident,
+    status: to,
+    status_history: [...incident.status_history, transition],
+  };
+};
+
+export const createInitialTransition = (at: string, by: string): StatusTransition => ({
+  from: null,
+  to: "Open",
+  at,
+  by,
+});
+
+// Records written before the status workflow existed have neither field.
+export const withStatusDefaults = (incident: Incident): Incident => ({
+  ...incident,
+  status: incident.status ?? "Open",
+  status_history:
+    incident.status_history ?? [createInitialTransition(incident.reported_at, "system")],
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { sampleIncident } from "../test/fixtures";
+import { parseIncidents, serializeIncidents } from "./incidentTransfer";
+
+describe("serializeIncidents", () => {
+  it("prefixes CSV cells that a spreadsheet would run as formulas", () => {
+    const incident = sampleIncident(1, {
+      title: "=HYPERLINK(\"http://example.com\")",
+      description: "+1 call the on-call",
+      reporter: "@alice",
+      assignee: "-bob",
+    });
+    const [, row] = serializeIncidents([incident], "csv").split("\r\n");
+
+    expect(row).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+    expect(row).toContain(",'+1 call the on-call,");
+    expect(row).toContain(",'@alice,'-bob,");
+  });
+
+  it("round-trips prefixed cells through a CSV import", () => {
+    const incident = sampleIncident(1, {
+      title: "=1+1",
+      description: "'=already quoted",
+      reporter: "it's fine",
+      assignee: "@carol",
+    });
+    const [row] = parseIncidents(serializeIncidents([incident], "csv"), "csv");
+
+    expect(row.errors).toEqual([]);
+    expect(row.incident).toMatchObject({
+      title: "=1+1",
+      description: "'=already quoted",
+      reporter: "it's fine",
+      assignee: "@carol",
+    });
+  });
+});
@@ -0,0 +1,392 @@
+import { TAXONOMY_KEYS, isTaxonomyKey, isTaxonomyValue } from "../config/taxonomy";
+import type {
+  Incident,
+  IncidentComment,
+  IncidentLink,
+  IncidentRevision,
+  IncidentTranscript,
+  StatusTransition,
+} from "../types";
+import { withAssignmentDefaults } from "./assignment";
+import { withCommentDefaults } from "./comments";
+import { parseCsv, toCsv } from "./csv";
+import { isIncidentLinkType, withLinkDefaults } from "./incidentLinks";
+import { toTaxonomy, withRevisionDefaults, withTaxonomyDefaults } from "./incidentRevisions";
+import { isIncidentStatus, withStatusDefaults } from "./incidentStatus";
+import { withVersionDefaults } from "./incidentVersion";
+import { SEVERITIES, isSeverity } from "./severity";
+import { parseTags, withTagDefaults } from "./tags";
+import { isTranscript, withTranscriptDefaults } from "./transcript";
+import { withTrashDefaults } from "./trash";
+
+export type TransferFormat = "json" | "csv" | "ndjson";
+export type ConflictStrategy = "skip" | "overwrite" | "keep-both";
+
+export const TRANSFER_FORMATS: Record<TransferFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+  ndjson: { label: "NDJSON", extension: "ndjson", mimeType: "application/x-ndjson" },
+};
+
+// Nested fields are written as JSON strings so a CSV round-trips losslessly;
+// taxonomy fields get a column each and tags a comma-separated list so they can
+// be filled in from a spreadsheet
+const CSV_COLUMNS = [
+  "id",
+  "title",
+  "description",
+  "severity",
+  "reported_at",
+  "reporter",
+  "assignee",
+  "status",
+  "status_history",
+  "revisions",
+  "version",
+  "updated_at",
+  "deleted_at",
+  "tags",
+  "comments",
+  "root_cause_comment_id",
+  "transcript",
+  "links",
+  ...TAXONOMY_KEYS,
+];
+
+// Spreadsheets run cells starting with one of these as formulas, so exported
+// cells get a leading apostrophe; cells that already start with apostrophes
+// before one get another so the import can strip exactly one back off
+const FORMULA_CELL = /^'*[=+\-@]/;
+const QUOTED_FORMULA_CELL = /^'+[=+\-@]/;
+
+const neutralizeFormula = (cell: string) => (FORMULA_CELL.test(cell) ? `'${cell}` : cell);
+
+const restoreFormula = (cell: string) => (QUOTED_FORMULA_CELL.test(cell) ? cell.slice(1) : cell);
+
+export interface ImportRow {
+  row: number;
+  incident?: Incident;
+  errors: string[];
+}
+
+export interface ImportPlan {
+  added: Incident[];
+  overwritten: Incident[];
+  skipped: Incident[];
+  invalid: ImportRow[];
+}
+
+export const serializeIncidents = (incidents: Incident[], format: TransferFormat): string => {
+  switch (format) {
+    case "json":
+      return JSON.stringify(incidents, null, 2);
+    case "ndjson":
+      return incidents.map(incident => JSON.stringify(incident)).join("\n");
+    case "csv":
+      return toCsv(
+        CSV_COLUMNS,
+        incidents.map(incident => [
+          String(incident.id),
+          incident.title,
+          incident.description,
+          incident.severity,
+          incident.reported_at,
+          incident.reporter ?? "",
+          incident.assignee ?? "",
+          incident.status,
+          JSON.stringify(incident.status_history),
+          JSON.stringify(incident.revisions),
+          String(incident.version),
+          incident.updated_at,
+          incident.deleted_at ?? "",
+          incident.tags.join(", "),
+          JSON.stringify(incident.comments),
+          incident.root_cause_comment_id === null ? "" : String(incident.root_cause_comment_id),
+          incident.transcript ? JSON.stringify(incident.transcript) : "",
+          JSON.stringify(incident.links),
+          ...TAXONOMY_KEYS.map(key => incident.taxonomy[key] ?? ""),
+        ].map(neutralizeFormula))
+      );
+  }
+};
+
+export const detectFormat = (fileName: string): TransferFormat | null => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "jsonl") return "ndjson";
+  return (Object.keys(TRANSFER_FORMATS) as TransferFormat[])
+    .find(format => TRANSFER_FORMATS[format].extension === extension) ?? null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+// Keeps UTC ISO timestamps verbatim; anything else (e.g. spreadsheet dates) is converted
+const toIsoDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(value) ? value : new Date(value).toISOString();
+
+/** Checks a raw record against the Incident schema and fills defaulted fields. */
+export const validateIncident = (raw: unknown): { incident?: Incident; errors: string[] } => {
+  if (!isRecord(raw)) {
+    return { errors: ["Record is not an object"] };
+  }
+
+  const errors: string[] = [];
+  const {
+    id,
+    title,
+    description,
+    severity,
+    reported_at,
+    reporter,
+    assignee,
+    status,
+    status_history,
+    revisions,
+    version,
+    updated_at,
+    taxonomy,
+    deleted_at,
+    tags,
+    comments,
+    root_cause_comment_id,
+    transcript,
+    links,
+  } = raw;
+
+  if (typeof id !== "number" || !Number.isInteger(id) || id <= 0) {
+    errors.push("id must be a positive integer");
+  }
+  if (typeof title !== "string" || title.trim() === "") {
+    errors.push("title is required");
+  }
+  if (typeof description !== "string" || description.trim() === "") {
+    errors.push("description is required");
+  }
+  if (!isSeverity(severity)) {
+    errors.push(`severity must be one of ${SEVERITIES.join(", ")} (got ${JSON.stringify(severity)})`);
+  }
+  if (!isValidDate(reported_at)) {
+    errors.push("reported_at must be an ISO date");
+  }
+  if (reporter !== undefined && reporter !== null && typeof reporter !== "string") {
+    errors.push("reporter must be a name or null");
+  }
+  if (assignee !== undefined && assignee !== null && typeof assignee !== "string") {
+    errors.push("assignee must be a name or null");
+  }
+  if (status !== undefined && !isIncidentStatus(status)) {
+    errors.push(`unknown status ${JSON.stringify(status)}`);
+  }
+  if (
+    status_history !== undefined &&
+    !(Array.isArray(status_history) &&
+      status_history.every(t => isRecord(t) && isIncidentStatus(t.to) && isValidDate(t.at)))
+  ) {
+    errors.push("status_history must be a list of transitions");
+  }
+  if (
+    revisions !== undefined &&
+    !(Array.isArray(revisions) && revisions.every(r => isRecord(r) && Array.isArray(r.changes)))
+  ) {
+    errors.push("revisions must be a list of revisions");
+  }
+  if (version !== undefined && !(typeof version === "number" && Number.isInteger(version) && version > 0)) {
+    errors.push("version must be a positive integer");
+  }
+  if (updated_at !== undefined && !isValidDate(updated_at)) {
+    errors.push("updated_at must be an ISO date");
+  }
+  if (deleted_at !== undefined && deleted_at !== null && !isValidDate(deleted_at)) {
+    errors.push("deleted_at must be an ISO date or null");
+  }
+  if (tags !== undefined && !(Array.isArray(tags) && tags.every(tag => typeof tag === "string"))) {
+    errors.push("tags must be a list of strings");
+  }
+  if (
+    comments !== undefined &&
+    !(Array.isArray(comments) &&
+      comments.every(c =>
+        isRecord(c) && typeof c.id === "number" && typeof c.author === "string" &&
+        typeof c.body === "string" && isValidDate(c.created_at)))
+  ) {
+    errors.push("comments must be a list of comments");
+  }
+  if (
+    root_cause_comment_id !== undefined && root_cause_comment_id !== null &&
+    !(Array.isArray(comments) && comments.some(c => c.id === root_cause_comment_id))
+  ) {
+    errors.push("root_cause_comment_id must refer to one of the comments");
+  }
+  if (transcript !== undefined && transcript !== null && !isTranscript(transcript)) {
+    errors.push("transcript must have a model, parameters, turns and highlights");
+  }
+  if (
+    links !== undefined &&
+    !(Array.isArray(links) &&
+      links.every(link => isRecord(link) && isIncidentLinkType(link.type) && typeof link.target === "number"))
+  ) {
+    errors.push("links must be a list of links to other incidents");
+  }
+
+  if (taxonomy !== undefined) {
+    if (!isRecord(taxonomy)) {
+      errors.push("taxonomy must be an object");
+    } else {
+      for (const [key, value] of Object.entries(taxonomy)) {
+        if (!isTaxonomyKey(key)) errors.push(`unknown taxonomy field "${key}"`);
+        else if (value !== "" && !isTaxonomyValue(key, value)) errors.push(`invalid ${key} ${JSON.stringify(value)}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const incident = withAssignmentDefaults(withLinkDefaults(withTranscriptDefaults(withCommentDefaults(withTagDefaults(withTrashDefaults(withTaxonomyDefaults(withVersionDefaults(withRevisionDefaults(withStatusDefaults({
+    id: id as number,
+    title: (title as string).trim(),
+    description: (description as string).trim(),
+    severity: severity as Incident["severity"],
+    reported_at: toIsoDate(reported_at as string),
+    // Blank names mean nobody
+    reporter: (typeof reporter === "string" ? reporter.trim() || null : reporter) as string | null,
+    assignee: (typeof assignee === "string" ? assignee.trim() || null : assignee) as string | null,
+    status: status as Incident["status"],
+    status_history: status_history as StatusTransition[],
+    revisions: revisions as IncidentRevision[],
+    version: version as number,
+    updated_at: (updated_at === undefined ? undefined : toIsoDate(updated_at as string)) as string,
+    taxonomy: (taxonomy === undefined ? undefined : toTaxonomy(taxonomy as Record<string, string>)) as Incident["taxonomy"],
+    deleted_at: (typeof deleted_at === "string" ? toIsoDate(deleted_at) : undefined) as string,
+    tags: (tags === undefined ? undefined : parseTags((tags as string[]).join(","))) as string[],
+    comments: (comments as IncidentComment[] | undefined)?.map(comment => ({
+      ...comment,
+      edited_at: comment.edited_at ?? null,
+    })) as IncidentComment[],
+    root_cause_comment_id: root_cause_comment_id as number | null,
+    transcript: transcript as IncidentTranscript | null,
+    links: links as IncidentLink[],
+  }))))))))));
+  return { incident, errors };
+};
+
+const toRow = (row: number, raw: unknown): ImportRow => ({ row, ...validateIncident(raw) });
+
+const parseJsonCell = (value: string | undefined, column: string, errors: string[]) => {
+  if (value === undefined || value === "") return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    errors.push(`${column} is not valid JSON`);
+    return undefined;
+  }
+};
+
+const parseCsvRows = (text: string): ImportRow[] => {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map(column => column.trim());
+
+  return records.map((cells, index) => {
+    const value = (column: string) => {
+      const position = columns.indexOf(column);
+      return position === -1 || cells[position] === undefined ? undefined : restoreFormula(cells[position]);
+    };
+    const cellErrors: string[] = [];
+    const raw = {
+      id: value("id") ? Number(value("id")) : undefined,
+      title: value("title"),
+      description: value("description"),
+      severity: value("severity"),
+      reported_at: value("reported_at"),
+      reporter: value("reporter"),
+      assignee: value("assignee"),
+      status: value("status") || undefined,
+      status_history: parseJsonCell(value("status_history"), "status_history", cellErrors),
+      revisions: parseJsonCell(value("revisions"), "revisions", cellErrors),
+      version: value("version") ? Number(value("version")) : undefined,
+      updated_at: value("updated_at") || undefined,
+      deleted_at: value("deleted_at") || undefined,
+      tags: value("tags") ? parseTags(value("tags") as string) : undefined,
+      comments: parseJsonCell(value("comments"), "comments", cellErrors),
+      root_cause_comment_id: value("root_cause_comment_id") ? Number(value("root_cause_comment_id")) : undefined,
+      transcript: parseJsonCell(value("transcript"), "transcript", cellErrors),
+      links: parseJsonCell(value("links"), "links", cellErrors),
+      taxonomy: toTaxonomy(Object.fromEntries(TAXONOMY_KEYS.map(key => [key, value(key) ?? ""]))),
+    };
+    const row = toRow(index + 1, raw);
+    return cellErrors.length > 0 ? { row: row.row, errors: [...cellErrors, ...row.errors] } : row;
+  });
+};
+
+/**
+ * Parses an import file into validated rows. Throws only when the file as a whole
+ * is unreadable (e.g. malformed JSON); individual bad records are reported per row.
+ */
+export const parseIncidents = (text: string, format: TransferFormat): ImportRow[] => {
+  switch (format) {
+    case "json": {
+      const data = JSON.parse(text);
+      if (!Array.isArray(data)) {
+        throw new Error("Expected a JSON array of incidents");
+      }
+      return data.map((raw, index) => toRow(index + 1, raw));
+    }
+    case "ndjson":
+      return text
+        .split(/\r?\n/)
+        .map((line, index) => ({ line: line.trim(), row: index + 1 }))
+        .filter(({ line }) => line !== "")
+        .map(({ line, row }) => {
+          try {
+            return toRow(row, JSON.parse(line));
+          } catch {
+            return { row, errors: ["Line is not valid JSON"] };
+          }
+        });
+    case "csv":
+      return parseCsvRows(text);
+  }
+};
+
+/**
+ * Decides what happens to each valid row given the incidents already stored.
+ * Duplicate ids inside the file are treated like conflicts with earlier rows.
+ */
+export const planImport = (
+  rows: ImportRow[],
+  existing: Incident[],
+  strategy: ConflictStrategy
+): ImportPlan => {
+  const plan: ImportPlan = { added: [], overwritten: [], skipped: [], invalid: [] };
+  const takenIds = new Set(existing.map(incident => incident.id));
+  let nextId = Math.max(Date.now(), ...takenIds) + 1;
+
+  for (const row of rows) {
+    if (!row.incident) {
+      plan.invalid.push(row);
+      continue;
+    }
+    const incident = row.incident;
+
+    if (!takenIds.has(incident.id)) {
+      plan.added.push(incident);
+    } else if (strategy === "skip") {
+      plan.skipped.push(incident);
+    } else if (strategy === "overwrite") {
+      const pendingIndex = plan.added.findIndex(i => i.id === incident.id);
+      if (pendingIndex !== -1) {
+        plan.added[pendingIndex] = incident;
+      } else {
+        plan.overwritten = [...plan.overwritten.filter(i => i.id !== incident.id), incident];
+      }
+    } else {
+      plan.added.push({ ...incident, id: nextId++ });
+    }
+    takenIds.add(incident.id);
+  }
+
+  return plan;
+};
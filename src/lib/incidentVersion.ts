@@ -0,0 +1,24 @@
+import type { Incident } from "../types";
+
+/**
+ * Bumps the record version and modification time. `previous` is the stored copy
+ * being replaced, so an overwrite always lands above whatever it replaces.
+ */
+export const stampIncident = (incident: Incident, previous?: Incident): Incident => ({
+  ...incident,
+  version: Math.max(incident.version ?? 0, previous?.version ?? 0) + 1,
+  updated_at: new Date().toISOString(),
+});
+
+// Records written before versioning existed start at version 1
+export const withVersionDefaults = (incident: Incident): Incident => ({
+  ...incident,
+  version: incident.version ?? 1,
+  updated_at: incident.updated_at ?? incident.reported_at,
+});
+
+/** True when two copies differ only in their version bookkeeping. */
+export const hasSameContent = (a: Incident, b: Incident) => {
+  const strip = (incident: Incident) => JSON.stringify({ ...incident, version: 0, updated_at: "" });
+  return strip(a) === strip(b);
+};
@@ -0,0 +1,138 @@
+/**
+ * A small Markdown subset for comments, parsed into a tree that the UI renders
+ * as React elements. Nothing is ever inserted as HTML: raw tags show up as text,
+ * and links are only kept for http(s) and mailto URLs.
+ *
+ *   # Heading (levels 1-3)     **bold**, *italic*, _italic_, `code`
+ *   - item / 1. item           [text](https://...) and bare https:// links
+ *   > quote                    ``` fenced code ```
+ */
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "em"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "heading"; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "quote"; children: MarkdownInline[] }
+  | { type: "code"; text: string };
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+/** Returns the URL if it is safe to link to, otherwise null. */
+export const sanitizeUrl = (url: string): string | null => {
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(url).protocol) ? url : null;
+  } catch {
+    // Relative URLs have no protocol of their own and can't smuggle in javascript:
+    return null;
+  }
+};
+
+const INLINE_PATTERN = new RegExp(
+  [
+    "`([^`]+)`",
+    "\\*\\*(.+?)\\*\\*",
+    "\\*([^*\\s](?:[^*]*[^*\\s])?)\\*",
+    // Underscores inside words (snake_case) are not emphasis
+    "(?<![\\w])_([^_\\s](?:[^_]*[^_\\s])?)_(?![\\w])",
+    "\\[([^\\]]+)\\]\\(([^)\\s]+)\\)",
+    "(https?:\\/\\/[^\\s<]*[^\\s<.,;:!?)\\]'\"])",
+  ].join("|"),
+  "g"
+);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text") last.text += value;
+    else nodes.push({ type: "text", text: value });
+  };
+
+  let offset = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [whole, code, strong, em, underscoreEm, linkText, linkUrl, bareUrl] = match;
+    pushText(text.slice(offset, match.index));
+    offset = match.index! + whole.length;
+
+    if (code !== undefined) nodes.push({ type: "code", text: code });
+    else if (strong !== undefined) nodes.push({ type: "strong", children: parseInline(strong) });
+    else if (em !== undefined || underscoreEm !== undefined) {
+      nodes.push({ type: "em", children: parseInline(em ?? underscoreEm) });
+    } else if (linkText !== undefined) {
+      const href = sanitizeUrl(linkUrl);
+      if (href) nodes.push({ type: "link", href, children: parseInline(linkText) });
+      else pushText(linkText);
+    } else {
+      const href = sanitizeUrl(bareUrl);
+      if (href) nodes.push({ type: "link", href, children: [{ type: "text", text: bareUrl }] });
+      else pushText(bareUrl);
+    }
+  }
+  pushText(text.slice(offset));
+  return nodes;
+};
+
+// Lines inside a paragraph or quote keep their breaks, as in most comment boxes
+const joinLines = (lines: string[]): MarkdownInline[] =>
+  lines.flatMap((line, index) => [
+    ...(index > 0 ? [{ type: "break" } as const] : []),
+    ...parseInline(line),
+  ]);
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^\s*```/;
+
+const startsBlock = (line: string) =>
+  HEADING.test(line) || BULLET.test(line) || NUMBERED.test(line) || QUOTE.test(line) || FENCE.test(line);
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  // Collects consecutive lines matching `pattern`, returning its first capture group
+  const takeWhile = (pattern: RegExp) => {
+    const taken: string[] = [];
+    for (let match; i < lines.length && (match = pattern.exec(lines[i])); i++) taken.push(match[1]);
+    return taken;
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === "") {
+      i++;
+    } else if (FENCE.test(line)) {
+      const code: string[] = [];
+      // An unclosed fence runs to the end of the comment
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) code.push(lines[i]);
+      i++;
+      blocks.push({ type: "code", text: code.join("\n") });
+    } else if (HEADING.test(line)) {
+      const [, hashes, text] = HEADING.exec(line)!;
+      blocks.push({ type: "heading", level: hashes.length as 1 | 2 | 3, children: parseInline(text) });
+      i++;
+    } else if (QUOTE.test(line)) {
+      blocks.push({ type: "quote", children: joinLines(takeWhile(QUOTE)) });
+    } else if (BULLET.test(line) || NUMBERED.test(line)) {
+      const ordered = NUMBERED.test(line);
+      blocks.push({ type: "list", ordered, items: takeWhile(ordered ? NUMBERED : BULLET).map(parseInline) });
+    } else {
+      const paragraph: string[] = [];
+      for (; i < lines.length && lines[i].trim() !== "" && !startsBlock(lines[i]); i++) paragraph.push(lines[i]);
+      blocks.push({ type: "paragraph", children: joinLines(paragraph) });
+    }
+  }
+  return blocks;
+};
@@ -0,0 +1,59 @@
+import type { Incident } from "../types";
+import { isReportedBy } from "./assignment";
+
+export type Role = "reporter" | "triager" | "admin";
+
+export const ROLES: Role[] = ["reporter", "triager", "admin"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  reporter: "Reporter",
+  triager: "Triager",
+  admin: "Admin",
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  reporter: "Reports incidents, comments, and edits their own reports while they are still Open.",
+  triager: "Also edits any incident, assigns it and moves it through the workflow.",
+  admin: "Also deletes, restores and purges incidents, manages tags and imports data.",
+};
+
+// Existing setups keep every permission until someone picks a role
+export const DEFAULT_ROLE: Role = "admin";
+
+export type Permission = "create" | "edit" | "status" | "delete" | "manage";
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  reporter: ["create"],
+  triager: ["create", "edit", "status"],
+  admin: ["create", "edit", "status", "delete", "manage"],
+};
+
+// Completes "As a triager you can't …"
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  create: "report incidents",
+  edit: "edit this incident",
+  status: "change an incident's status",
+  delete: "delete or restore incidents",
+  manage: "manage tags or import incidents",
+};
+
+export interface UserProfile {
+  name: string;
+  role: Role;
+}
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+/**
+ * Whether the user may do something, to `incident` when given. Reporters may
+ * edit incidents they reported while nobody has picked them up yet. This is a
+ * guard against mistakes in a shared dashboard, not access control: the role is
+ * chosen in this browser's settings.
+ */
+export const can = (user: UserProfile, permission: Permission, incident?: Incident) =>
+  ROLE_PERMISSIONS[user.role].includes(permission) ||
+  (permission === "edit" &&
+    user.role === "reporter" &&
+    incident !== undefined &&
+    incident.status === "Open" &&
+    isReportedBy(incident, user.name));
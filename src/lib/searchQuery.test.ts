@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { sampleIncident } from "../test/fixtures";
+import { QueryParseError, matchesQuery, parseSearchQuery } from "./searchQuery";
+
+const LEAK = sampleIncident(10, {
+  title: "Data leak in support bot",
+  description: "Customer emails were echoed back",
+  severity: "High",
+  reported_at: "2025-03-10T12:00:00Z",
+  tags: ["privacy", "red-team"],
+  reporter: "Alice",
+  assignee: "Bob",
+});
+const BIAS = sampleIncident(11, {
+  title: "Biased ranking",
+  description: "Favoured one group of applicants",
+  severity: "Medium",
+  reported_at: "2025-03-20T08:00:00Z",
+  tags: ["fairness"],
+});
+const TYPO = sampleIncident(12, {
+  title: "Typo in refusal message",
+  description: "A data field label is misspelled",
+  severity: "Low",
+  reported_at: "2025-04-02T00:00:00Z",
+  tags: ["red-team-2"],
+});
+const INCIDENTS = [LEAK, BIAS, TYPO];
+
+// Ids of the incidents a query matches
+const search = (query: string) => {
+  const node = parseSearchQuery(query);
+  return INCIDENTS.filter(i => node === null || matchesQuery(i, node)).map(i => i.id);
+};
+
+const parseError = (query: string) => {
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    if (error instanceof QueryParseError) return { message: error.message, position: error.position };
+    throw error;
+  }
+  throw new Error(`"${query}" parsed without an error`);
+};
+
+describe("parseSearchQuery", () => {
+  it("returns null for a blank query", () => {
+    expect(parseSearchQuery("   ")).toBeNull();
+  });
+
+  it("ANDs adjacent terms and binds AND tighter than OR", () => {
+    expect(parseSearchQuery("a b OR c AND d")).toEqual({
+      type: "or",
+      nodes: [
+        { type: "and", nodes: [{ type: "text", value: "a" }, { type: "text", value: "b" }] },
+        { type: "and", nodes: [{ type: "text", value: "c" }, { type: "text", value: "d" }] },
+      ],
+    });
+  });
+
+  it("reads qualifiers, aliases, comparisons and ranges", () => {
+    expect(parseSearchQuery("sev:>=medium")).toEqual({ type: "field", field: "severity", op: ">=", value: "Medium" });
+    expect(parseSearchQuery("reported:2025-03-01..2025-03-31")).toEqual({
+      type: "field",
+      field: "reported",
+      op: "range",
+      value: "2025-03-01",
+      to: "2025-03-31",
+    });
+    expect(parseSearchQuery('title:"data leak"')).toEqual({ type: "field", field: "title", op: "=", value: "data leak" });
+  });
+
+  it("negates a word, a quoted phrase or a group with a leading dash", () => {
+    expect(parseSearchQuery("-leak")).toEqual({ type: "not", node: { type: "text", value: "leak" } });
+    expect(parseSearchQuery('-"data leak"')).toEqual({ type: "not", node: { type: "text", value: "data leak" } });
+    expect(parseSearchQuery("-(a OR b)")).toEqual({
+      type: "not",
+      node: { type: "or", nodes: [{ type: "text", value: "a" }, { type: "text", value: "b" }] },
+    });
+  });
+
+  it("keeps a dash followed by a space or the end of the query as a word", () => {
+    expect(parseSearchQuery("a - b")).toEqual({
+      type: "and",
+      nodes: [{ type: "text", value: "a" }, { type: "text", value: "-" }, { type: "text", value: "b" }],
+    });
+    expect(parseSearchQuery("a -")).toEqual({
+      type: "and",
+      nodes: [{ type: "text", value: "a" }, { type: "text", value: "-" }],
+    });
+  });
+
+  it("reports syntax errors with their position", () => {
+    expect(parseError('title:"open')).toEqual({ message: "Unterminated quote", position: 6 });
+    expect(parseError("(a OR b")).toEqual({ message: "Missing closing parenthesis", position: 7 });
+    expect(parseError("a OR")).toEqual({ message: "Query ends unexpectedly", position: 4 });
+    expect(parseError("a )")).toEqual({ message: 'Unexpected ")"', position: 2 });
+    expect(parseError("owner:me").message).toBe('Unknown field "owner"');
+    expect(parseError("severity:urgent").message).toMatch(/^Unknown severity "urgent"/);
+    expect(parseError("title:>a").message).toBe('"title" does not support comparisons');
+    expect(parseError("reported:>yesterday").message).toMatch(/is not a date/);
+    expect(parseError("id:abc").message).toBe('"id" must be a number');
+  });
+});
+
+describe("matchesQuery", () => {
+  it("matches bare words and phrases against the text fields and tags", () => {
+    expect(search("data")).toEqual([10, 12]);
+    expect(search('"data leak"')).toEqual([10]);
+    expect(search("APPLICANTS")).toEqual([11]);
+  });
+
+  it("compares severity by rank", () => {
+    expect(search("severity:>=medium")).toEqual([10, 11]);
+    expect(search("severity:<high")).toEqual([11, 12]);
+    expect(search("severity:low..medium")).toEqual([11, 12]);
+  });
+
+  it("compares date-only values by whole UTC day", () => {
+    expect(search("reported:2025-03-10")).toEqual([10]);
+    expect(search("reported:>2025-03-10")).toEqual([11, 12]);
+    expect(search("reported:<=2025-03-20")).toEqual([10, 11]);
+    expect(search("reported:2025-03-01..2025-03-31")).toEqual([10, 11]);
+  });
+
+  it("matches tags and people exactly", () => {
+    expect(search("tag:red-team")).toEqual([10]);
+    expect(search("reporter:alice")).toEqual([10]);
+    expect(search("assignee:bo")).toEqual([]);
+  });
+
+  it("combines terms with AND, OR and NOT", () => {
+    expect(search("biased OR typo")).toEqual([11, 12]);
+    expect(search("data AND NOT leak")).toEqual([12]);
+    expect(search('severity:>=medium -"data leak"')).toEqual([11]);
+    expect(search("-(biased OR typo)")).toEqual([10]);
+  });
+});
@@ -0,0 +1,398 @@
+import { TAXONOMY_FIELDS, TAXONOMY_KEYS, formatTaxonomyValue, type TaxonomyField } from "../config/taxonomy";
+import type { Incident } from "../types";
+import { isSamePerson } from "./assignment";
+import { INCIDENT_STATUSES } from "./incidentStatus";
+import { SEVERITIES, compareSeverity } from "./severity";
+import { normalizeTag } from "./tags";
+
+/**
+ * Search query language used by the incident list and the API's `search` param.
+ *
+ *   leak                      bare word: title, description, tags, comments or
+ *                             classification contains it
+ *   "data leak"               quoted phrase
+ *   title:"data leak"         field qualifier (title, description, severity, status,
+ *                             reported, updated, id, tag, reporter, assignee, comment,
+ *                             transcript and the taxonomy fields)
+ *   severity:>=medium         comparisons on severity rank, dates and ids
+ *   reported:>2025-03-01      dates compare by whole day (UTC) unless a time is given
+ *   reported:2025-03-01..2025-03-31
+ *   a b, a AND b, a OR b      adjacent terms are ANDed; AND binds tighter than OR
+ *   NOT a, -a, (a OR b)       negation and grouping
+ *
+ * Operators are upper-case so that "and"/"or"/"not" can still be searched for.
+ */
+
+export type Comparison = "=" | ">" | ">=" | "<" | "<=" | "range";
+
+export type QueryNode =
+  | { type: "and"; nodes: QueryNode[] }
+  | { type: "or"; nodes: QueryNode[] }
+  | { type: "not"; node: QueryNode }
+  | { type: "text"; value: string }
+  | { type: "field"; field: string; op: Comparison; value: string; to?: string };
+
+export class QueryParseError extends Error {
+  // Offset into the query text where the problem was found
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "QueryParseError";
+    this.position = position;
+  }
+}
+
+type FieldKind = "text" | "enum" | "date" | "number" | "tag" | "person";
+
+interface FieldDefinition {
+  kind: FieldKind;
+  get: (incident: Incident) => string | number | string[] | undefined;
+  // Enum fields: allowed values and their accepted spellings (compared lower-case)
+  values?: { value: string; aliases: string[] }[];
+}
+
+const taxonomyField = (field: TaxonomyField): FieldDefinition => ({
+  kind: field.kind === "select" ? "enum" : "text",
+  get: incident => incident.taxonomy[field.key],
+  ...(field.kind === "select" && {
+    values: field.options.map(option => ({
+      value: option.value,
+      aliases: [option.value, option.label.toLowerCase()],
+    })),
+  }),
+});
+
+const FIELDS: Record<string, FieldDefinition> = {
+  id: { kind: "number", get: incident => incident.id },
+  title: { kind: "text", get: incident => incident.title },
+  description: { kind: "text", get: incident => incident.description },
+  severity: {
+    kind: "enum",
+    get: incident => incident.severity,
+    values: SEVERITIES.map(severity => ({ value: severity, aliases: [severity.toLowerCase()] })),
+  },
+  status: {
+    kind: "enum",
+    get: incident => incident.status,
+    values: INCIDENT_STATUSES.map(status => ({ value: status, aliases: [status.toLowerCase()] })),
+  },
+  reported: { kind: "date", get: incident => incident.reported_at },
+  updated: { kind: "date", get: incident => incident.updated_at },
+  tag: { kind: "tag", get: incident => incident.tags },
+  reporter: { kind: "person", get: incident => incident.reporter ?? undefined },
+  assignee: { kind: "person", get: incident => incident.assignee ?? undefined },
+  comment: { kind: "text", get: incident => incident.comments.map(comment => comment.body).join("\n") },
+  transcript: { kind: "text", get: incident => incident.transcript?.turns.map(turn => turn.content).join("\n") },
+  ...Object.fromEntries(TAXONOMY_FIELDS.map(field => [field.key, taxonomyField(field)])),
+};
+
+// Shorter names accepted in qualifiers
+const FIELD_ALIASES: Record<string, string> = {
+  sev: "severity",
+  tags: "tag",
+  comments: "comment",
+  reported_by: "reporter",
+  assigned: "assignee",
+  assigned_to: "assignee",
+  desc: "description",
+  reported_at: "reported",
+  updated_at: "updated",
+  model: "model_name",
+  version: "model_version",
+  deployment: "deployment_context",
+  harm: "harm_category",
+  population: "affected_population",
+  detection: "detection_source",
+};
+
+export const SEARCH_FIELDS = Object.keys(FIELDS);
+
+// ---- Tokenizer -------------------------------------------------------------
+
+type Token =
+  | { type: "(" | ")" | "AND" | "OR" | "NOT"; position: number }
+  | { type: "term"; position: number; text: string; quoted: boolean; field?: string };
+
+const OPERATORS = new Set(["AND", "OR", "NOT"]);
+const isBoundary = (char: string | undefined) => char === undefined || /[\s()"]/.test(char);
+// "-" negates whatever follows it directly: a word, a "quoted phrase" or a (group)
+const startsNegation = (next: string | undefined) => next !== undefined && !/[\s)]/.test(next);
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const start = i;
+    const end = input.indexOf('"', i + 1);
+    if (end === -1) throw new QueryParseError("Unterminated quote", start);
+    i = end + 1;
+    return input.slice(start + 1, end);
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    const position = i;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char, position });
+      i++;
+    } else if (char === '"') {
+      tokens.push({ type: "term", position, text: readQuoted(), quoted: true });
+    } else if (char === "-" && startsNegation(input[i + 1])) {
+      tokens.push({ type: "NOT", position });
+      i++;
+    } else {
+      while (!isBoundary(input[i])) i++;
+      const word = input.slice(position, i);
+      const colon = word.indexOf(":");
+
+      if (OPERATORS.has(word)) {
+        tokens.push({ type: word as "AND" | "OR" | "NOT", position });
+      } else if (colon > 0) {
+        const field = word.slice(0, colon);
+        // field:"quoted value"
+        if (colon === word.length - 1 && input[i] === '"') {
+          tokens.push({ type: "term", position, field, text: readQuoted(), quoted: true });
+        } else {
+          tokens.push({ type: "term", position, field, text: word.slice(colon + 1), quoted: false });
+        }
+      } else {
+        tokens.push({ type: "term", position, text: word, quoted: false });
+      }
+    }
+  }
+  return tokens;
+};
+
+// ---- Parser ----------------------------------------------------------------
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const checkDate = (value: string, position: number) => {
+  if (Number.isNaN(Date.parse(value))) {
+    throw new QueryParseError(`"${value}" is not a date (use YYYY-MM-DD)`, position);
+  }
+};
+
+const resolveEnum = (definition: FieldDefinition, field: string, value: string, position: number) => {
+  const match = definition.values!.find(option => option.aliases.includes(value.toLowerCase()));
+  if (!match) {
+    const allowed = definition.values!.map(option => option.value).join(", ");
+    throw new QueryParseError(`Unknown ${field} "${value}" (expected one of ${allowed})`, position);
+  }
+  return match.value;
+};
+
+const parseFieldTerm = (token: Extract<Token, { type: "term" }>): QueryNode => {
+  const { position } = token;
+  const field = FIELD_ALIASES[token.field!.toLowerCase()] ?? token.field!.toLowerCase();
+  const definition = FIELDS[field];
+  if (!definition) {
+    throw new QueryParseError(`Unknown field "${token.field}"`, position);
+  }
+
+  let op: Comparison = "=";
+  let value = token.text;
+  let to: string | undefined;
+  const comparison = token.quoted ? null : /^(>=|<=|>|<)(.*)$/.exec(value);
+  const range = token.quoted ? -1 : value.indexOf("..");
+
+  if (comparison) {
+    op = comparison[1] as Comparison;
+    value = comparison[2];
+  } else if (range > 0) {
+    op = "range";
+    to = value.slice(range + 2);
+    value = value.slice(0, range);
+  }
+  if (value === "" || to === "") {
+    throw new QueryParseError(`Missing value for "${token.field}"`, position);
+  }
+
+  const ordered = definition.kind === "date" || definition.kind === "number" || field === "severity";
+  if (op !== "=" && !ordered) {
+    throw new QueryParseError(`"${field}" does not support comparisons`, position);
+  }
+
+  switch (definition.kind) {
+    case "date":
+      checkDate(value, position);
+      if (to !== undefined) checkDate(to, position);
+      break;
+    case "number":
+      if ([value, to].some(v => v !== undefined && !Number.isFinite(Number(v)))) {
+        throw new QueryParseError(`"${field}" must be a number`, position);
+      }
+      break;
+    case "enum":
+      value = resolveEnum(definition, field, value, position);
+      if (to !== undefined) to = resolveEnum(definition, field, to, position);
+      break;
+    case "tag":
+      value = normalizeTag(value);
+      break;
+  }
+  return { type: "field", field, op, value, ...(to !== undefined && { to }) };
+};
+
+/**
+ * Parses a query into a tree. Returns null for a blank query; throws
+ * QueryParseError (with the offending position) for invalid syntax.
+ */
+export const parseSearchQuery = (input: string): QueryNode | null => {
+  const tokens = tokenize(input);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const endPosition = input.length;
+
+  const parseOr = (): QueryNode => {
+    const nodes = [parseAnd()];
+    while (peek()?.type === "OR") {
+      index++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: "or", nodes };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const nodes = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.type === "OR" || next.type === ")") break;
+      if (next.type === "AND") index++;
+      nodes.push(parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: "and", nodes };
+  };
+
+  const parseUnary = (): QueryNode => {
+    if (peek()?.type === "NOT") {
+      index++;
+      return { type: "not", node: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[index++];
+    if (!token) {
+      throw new QueryParseError("Query ends unexpectedly", endPosition);
+    }
+    switch (token.type) {
+      case "(": {
+        const node = parseOr();
+        if (peek()?.type !== ")") {
+          throw new QueryParseError("Missing closing parenthesis", peek()?.position ?? endPosition);
+        }
+        index++;
+        return node;
+      }
+      case "term":
+        return token.field !== undefined ? parseFieldTerm(token) : { type: "text", value: token.text };
+      default:
+        throw new QueryParseError(`Unexpected "${token.type}"`, token.position);
+    }
+  };
+
+  if (tokens.length === 0) return null;
+  const node = parseOr();
+  if (index < tokens.length) {
+    const token = tokens[index];
+    throw new QueryParseError(`Unexpected "${token.type === "term" ? token.text : token.type}"`, token.position);
+  }
+  return node;
+};
+
+// ---- Evaluator -------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A date-only value covers the whole (UTC) day; a timestamp is a single instant
+const dateBounds = (value: string): [number, number] => {
+  const start = Date.parse(value);
+  return [start, DATE_ONLY.test(value) ? start + DAY_MS : start];
+};
+
+const compareDate = (actual: string, op: Comparison, value: string, to?: string) => {
+  const time = Date.parse(actual);
+  const [start, end] = dateBounds(value);
+  switch (op) {
+    case "=": return DATE_ONLY.test(value) ? time >= start && time < end : time === start;
+    case ">": return time >= end && time !== start;
+    case ">=": return time >= start;
+    case "<": return time < start;
+    case "<=": return time < end || time === start;
+    case "range": return time >= start && time < dateBounds(to!)[1];
+  }
+};
+
+const compareOrdered = (difference: number, op: Comparison, upperDifference = 0) => {
+  switch (op) {
+    case "=": return difference === 0;
+    case ">": return difference > 0;
+    case ">=": return difference >= 0;
+    case "<": return difference < 0;
+    case "<=": return difference <= 0;
+    case "range": return difference >= 0 && upperDifference <= 0;
+  }
+};
+
+// Bare words search the title, description, tags, comments and classification (stored or displayed values)
+const matchesText = (incident: Incident, value: string) => {
+  const term = value.toLowerCase();
+  const taxonomyText = TAXONOMY_KEYS.flatMap(key => {
+    const text = incident.taxonomy[key];
+    return text ? [text, formatTaxonomyValue(key, text)] : [];
+  });
+  const commentText = incident.comments.map(comment => comment.body);
+  return [incident.title, incident.description, ...incident.tags, ...commentText, ...taxonomyText]
+    .some(text => text.toLowerCase().includes(term));
+};
+
+const matchesField = (incident: Incident, node: Extract<QueryNode, { type: "field" }>): boolean => {
+  const definition = FIELDS[node.field];
+  const actual = definition.get(incident);
+  if (actual === undefined || actual === "") return false;
+
+  switch (definition.kind) {
+    case "text":
+      return String(actual).toLowerCase().includes(node.value.toLowerCase());
+    case "date":
+      return compareDate(String(actual), node.op, node.value, node.to);
+    case "number":
+      return compareOrdered(Number(actual) - Number(node.value), node.op, Number(actual) - Number(node.to));
+    case "enum":
+      if (node.field === "severity") {
+        const severity = actual as Incident["severity"];
+        return compareOrdered(
+          compareSeverity(severity, node.value as Incident["severity"]),
+          node.op,
+          node.to === undefined ? 0 : compareSeverity(severity, node.to as Incident["severity"])
+        );
+      }
+      return actual === node.value;
+    case "tag":
+      // Exact, so "tag:red-team" doesn't match "red-team-2"
+      return (actual as string[]).includes(node.value);
+    case "person":
+      return isSamePerson(String(actual), node.value);
+  }
+};
+
+export const matchesQuery = (incident: Incident, node: QueryNode): boolean => {
+  switch (node.type) {
+    case "and": return node.nodes.every(child => matchesQuery(incident, child));
+    case "or": return node.nodes.some(child => matchesQuery(incident, child));
+    case "not": return !matchesQuery(incident, node.node);
+    case "text": return matchesText(incident, node.value);
+    case "field": return matchesField(incident, node);
+  }
+};
+
+/** Exact-match term for structured filters (dropdowns, buttons) combined with a parsed query. */
+export const fieldEquals = (field: string, value: string): QueryNode => ({ type: "field", field, op: "=", value });
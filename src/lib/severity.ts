@@ -0,0 +1,38 @@
+import {
+  SCORING_FACTORS,
+  SEVERITY_LEVELS,
+  type ScoringFactor,
+  type SeverityLevel,
+  type SeverityPalette,
+} from "../config/severity";
+import type { Severity } from "../types";
+
+export const SEVERITIES: Severity[] = SEVERITY_LEVELS.map(level => level.name);
+
+export const isSeverity = (value: unknown): value is Severity =>
+  SEVERITIES.includes(value as Severity);
+
+export const getSeverityLevel = (severity: Severity): SeverityLevel =>
+  SEVERITY_LEVELS.find(level => level.name === severity)!;
+
+export const getSeverityPalette = (severity: Severity, darkMode: boolean): SeverityPalette =>
+  darkMode ? getSeverityLevel(severity).dark : getSeverityLevel(severity).light;
+
+// Negative when `a` is less severe than `b`
+export const compareSeverity = (a: Severity, b: Severity) =>
+  getSeverityLevel(a).rank - getSeverityLevel(b).rank;
+
+export type RubricScores = Record<ScoringFactor, number>;
+
+export const MAX_RUBRIC_SCORE = SCORING_FACTORS.reduce((score, factor) => score * factor.options.length, 1);
+
+export const scoreRubric = (scores: RubricScores) =>
+  SCORING_FACTORS.reduce((score, factor) => score * scores[factor.key], 1);
+
+/** The most severe level whose threshold the rubric score reaches. */
+export const suggestSeverity = (scores: RubricScores): Severity => {
+  const score = scoreRubric(scores);
+  return SEVERITY_LEVELS
+    .filter(level => level.minScore <= score)
+    .reduce((best, level) => (level.rank > best.rank ? level : best), SEVERITY_LEVELS[0]).name;
+};
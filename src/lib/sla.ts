@@ -0,0 +1,139 @@
+import { SEVERITY_LEVELS } from "../config/severity";
+import type { Incident, Severity } from "../types";
+import { isResolved } from "./incidentStatus";
+import { isSeverity } from "./severity";
+import { isTrashed } from "./trash";
+
+export interface SlaTarget {
+  // Hours until someone moves the incident out of Open
+  acknowledgeHours: number;
+  // Hours until it is Resolved or Closed
+  resolveHours: number;
+}
+
+export interface SlaSettings {
+  targets: Record<Severity, SlaTarget>;
+  // Share of a target that may pass before the incident is escalated
+  escalateAtPercent: number;
+}
+
+export const DEFAULT_SLA_SETTINGS: SlaSettings = {
+  targets: Object.fromEntries(SEVERITY_LEVELS.map(level => [level.name, { ...level.sla }])) as Record<Severity, SlaTarget>,
+  escalateAtPercent: 75,
+};
+
+// What sorting and filtering by SLA need besides the incidents
+export interface SlaContext {
+  settings: SlaSettings;
+  now: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const isValidHours = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/**
+ * Settings as saved in the browser, completed with the defaults. Severities
+ * from another scale and malformed numbers are dropped.
+ */
+export const normalizeSlaSettings = (value: unknown): SlaSettings => {
+  const saved = (typeof value === "object" && value !== null ? value : {}) as Partial<SlaSettings>;
+  const targets = { ...DEFAULT_SLA_SETTINGS.targets };
+  Object.entries(saved.targets ?? {}).forEach(([severity, target]) => {
+    if (!isSeverity(severity) || typeof target !== "object" || target === null) return;
+    const { acknowledgeHours, resolveHours } = target as Partial<SlaTarget>;
+    targets[severity] = {
+      acknowledgeHours: isValidHours(acknowledgeHours) ? acknowledgeHours : targets[severity].acknowledgeHours,
+      resolveHours: isValidHours(resolveHours) ? resolveHours : targets[severity].resolveHours,
+    };
+  });
+  const percent = saved.escalateAtPercent;
+  return {
+    targets,
+    escalateAtPercent: typeof percent === "number" && percent >= 1 && percent <= 100
+      ? percent
+      : DEFAULT_SLA_SETTINGS.escalateAtPercent,
+  };
+};
+
+/**
+ * When the incident was acknowledged: the first move out of Open since it was
+ * last opened. Null while nobody has picked it up.
+ */
+export const getAcknowledgedAt = (incident: Incident): string | null => {
+  let acknowledgedAt: string | null = null;
+  for (const transition of incident.status_history) {
+    if (transition.to === "Open") acknowledgedAt = null;
+    else if (acknowledgedAt === null) acknowledgedAt = transition.at;
+  }
+  return acknowledgedAt;
+};
+
+// Reopening starts the clocks again
+const getOpenedAt = (incident: Incident) => {
+  const opens = incident.status_history.filter(transition => transition.to === "Open");
+  return Date.parse(opens.length > 0 ? opens[opens.length - 1].at : incident.reported_at);
+};
+
+export type SlaPhase = "acknowledge" | "resolve";
+export type SlaLevel = "on_track" | "escalated" | "breached";
+
+export const SLA_LEVEL_RANK: Record<SlaLevel, number> = { on_track: 0, escalated: 1, breached: 2 };
+
+export interface SlaStatus {
+  // Which target the incident is currently working towards
+  phase: SlaPhase;
+  dueAt: number;
+  // Negative once overdue
+  remainingMs: number;
+  level: SlaLevel;
+}
+
+/** The SLA the incident is currently measured against, or null once it is resolved or trashed. */
+export const getSlaStatus = (incident: Incident, settings: SlaSettings, now = Date.now()): SlaStatus | null => {
+  if (isTrashed(incident) || isResolved(incident.status)) return null;
+  const target = settings.targets[incident.severity] ?? DEFAULT_SLA_SETTINGS.targets[incident.severity];
+  if (!target) return null;
+  const phase: SlaPhase = getAcknowledgedAt(incident) === null ? "acknowledge" : "resolve";
+  const windowMs = (phase === "acknowledge" ? target.acknowledgeHours : target.resolveHours) * HOUR_MS;
+  const openedAt = getOpenedAt(incident);
+  const dueAt = openedAt + windowMs;
+  const remainingMs = dueAt - now;
+  const level: SlaLevel = remainingMs <= 0
+    ? "breached"
+    : (now - openedAt) / windowMs >= settings.escalateAtPercent / 100 ? "escalated" : "on_track";
+  return { phase, dueAt, remainingMs, level };
+};
+
+export const isBreachingSla = (incident: Incident, { settings, now }: SlaContext) =>
+  getSlaStatus(incident, settings, now)?.level === "breached";
+
+/** Most overdue first, then the nearest deadline; incidents without a running SLA go last, newest first. */
+export const sortBySla = (incidents: Incident[], { settings, now }: SlaContext): Incident[] => {
+  const remaining = new Map(incidents.map(incident => [incident.id, getSlaStatus(incident, settings, now)?.remainingMs ?? null]));
+  return [...incidents].sort((a, b) => {
+    const remainingA = remaining.get(a.id) ?? null;
+    const remainingB = remaining.get(b.id) ?? null;
+    if (remainingA !== null && remainingB !== null) return remainingA - remainingB;
+    if (remainingA !== null || remainingB !== null) return remainingA !== null ? -1 : 1;
+    return Date.parse(b.reported_at) - Date.parse(a.reported_at);
+  });
+};
+
+/** "3d 4h", "2h 15m" or "12m": the two largest units. */
+export const formatDuration = (ms: number) => {
+  const minutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return minutes % 60 > 0 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  return minutes > 0 ? `${minutes}m` : "<1m";
+};
+
+export const getSlaLabel = ({ phase, remainingMs }: SlaStatus) => {
+  const name = phase === "acknowledge" ? "Ack" : "Resolve";
+  return remainingMs <= 0
+    ? `${name} overdue by ${formatDuration(remainingMs)}`
+    : `${name} due in ${formatDuration(remainingMs)}`;
+};
@@ -0,0 +1,52 @@
+import type { Incident } from "../types";
+
+export const MAX_TAG_LENGTH = 40;
+
+/**
+ * Tags are compared case-insensitively, so they are stored lower-cased with
+ * whitespace runs turned into dashes. Commas separate tags and are dropped.
+ */
+export const normalizeTag = (tag: string) =>
+  tag.trim().toLowerCase().replace(/,/g, "").replace(/\s+/g, "-").slice(0, MAX_TAG_LENGTH);
+
+const uniqueTags = (tags: string[]) => [...new Set(tags.map(normalizeTag).filter(Boolean))];
+
+// "Red team, prompt injection" -> ["red-team", "prompt-injection"]
+export const parseTags = (input: string) => uniqueTags(input.split(","));
+
+/** Returns the incident unchanged when it already has every tag. */
+export const addTags = (incident: Incident, tags: string[]): Incident => {
+  const next = uniqueTags([...incident.tags, ...tags]);
+  return next.length === incident.tags.length ? incident : { ...incident, tags: next };
+};
+
+export const withTagDefaults = (incident: Incident): Incident => ({
+  ...incident,
+  tags: incident.tags ?? [],
+});
+
+/**
+ * Renames a tag on one incident, merging it into `to` if that tag is already
+ * there; `to = null` removes it. Returns the incident unchanged when it lacks `from`.
+ */
+export const replaceTag = (incident: Incident, from: string, to: string | null): Incident => {
+  if (!incident.tags.includes(from)) return incident;
+  const tags = incident.tags.flatMap(tag => (tag !== from ? [tag] : to ? [to] : []));
+  return { ...incident, tags: [...new Set(tags)] };
+};
+
+export interface TagSummary {
+  name: string;
+  // Incidents outside the trash carrying the tag
+  count: number;
+}
+
+// Most used first
+export const compareTagSummaries = (a: TagSummary, b: TagSummary) => b.count - a.count || a.name.localeCompare(b.name);
+
+/** Known tags, most used first; registered tags nobody uses yet count zero. */
+export const summarizeTags = (incidents: Incident[], registered: string[] = []): TagSummary[] => {
+  const counts = new Map(registered.map(name => [name, 0]));
+  incidents.forEach(incident => incident.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts].map(([name, count]) => ({ name, count })).sort(compareTagSummaries);
+};
@@ -0,0 +1,199 @@
+import type { Incident, IncidentTranscript, TranscriptHighlight, TranscriptRole, TranscriptTurn } from "../types";
+
+export const TRANSCRIPT_ROLES: TranscriptRole[] = ["system", "user", "assistant"];
+
+export class TranscriptParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscriptParseError";
+  }
+}
+
+// Role names used by other chat log formats
+const ROLE_ALIASES: Record<string, TranscriptRole> = {
+  system: "system",
+  developer: "system",
+  user: "user",
+  human: "user",
+  assistant: "assistant",
+  ai: "assistant",
+  model: "assistant",
+};
+
+// Request-body keys that aren't sampling parameters
+const NON_PARAMETER_KEYS = ["model", "messages", "system", "turns", "highlights", "parameters", "tools", "stream"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isScalar = (value: unknown): value is string | number | boolean =>
+  typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+
+export const createEmptyTranscript = (): IncidentTranscript => ({
+  model: "",
+  parameters: {},
+  turns: [{ role: "user", content: "" }],
+  highlights: [],
+});
+
+// Content is either a string or a list of parts ({ type: "text", text }); other parts are dropped
+const toText = (content: unknown, index: number): string => {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .flatMap(part => (typeof part === "string" ? [part] : isRecord(part) && typeof part.text === "string" ? [part.text] : []))
+      .join("\n");
+  }
+  if (content === null || content === undefined) return "";
+  throw new TranscriptParseError(`Message ${index + 1} has unreadable content`);
+};
+
+const toTurns = (messages: unknown[]): TranscriptTurn[] =>
+  messages.map((message, index) => {
+    if (!isRecord(message)) throw new TranscriptParseError(`Message ${index + 1} is not an object`);
+    const role = ROLE_ALIASES[String(message.role ?? message.from ?? "").toLowerCase()];
+    if (!role) {
+      throw new TranscriptParseError(`Message ${index + 1} has unsupported role ${JSON.stringify(message.role)}`);
+    }
+    return { role, content: toText(message.content ?? message.text ?? message.parts, index) };
+  });
+
+const toParameters = (source: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(source).filter(([key, value]) => !NON_PARAMETER_KEYS.includes(key) && isScalar(value))
+  ) as IncidentTranscript["parameters"];
+
+const isHighlight = (value: unknown): value is TranscriptHighlight =>
+  isRecord(value) &&
+  Number.isInteger(value.turn) &&
+  Number.isInteger(value.start) &&
+  Number.isInteger(value.end) &&
+  (value.start as number) < (value.end as number) &&
+  typeof value.note === "string";
+
+/** Checks a stored or imported transcript against the IncidentTranscript shape. */
+export const isTranscript = (value: unknown): value is IncidentTranscript =>
+  isRecord(value) &&
+  typeof value.model === "string" &&
+  isRecord(value.parameters) &&
+  Object.values(value.parameters).every(isScalar) &&
+  Array.isArray(value.turns) &&
+  value.turns.every(turn => isRecord(turn) && TRANSCRIPT_ROLES.includes(turn.role as TranscriptRole) && typeof turn.content === "string") &&
+  Array.isArray(value.highlights) &&
+  value.highlights.every(isHighlight);
+
+/**
+ * Reads a chat log. Accepted shapes:
+ *
+ *   [{ role, content }, ...]                     OpenAI-style messages array
+ *   { model, messages, temperature, ... }        OpenAI chat request body
+ *   { model, system, messages, max_tokens, ... } Anthropic messages request body
+ *   { model, parameters, turns, highlights }     this dashboard's own format
+ *
+ * Content may be a string or a list of text parts. Throws TranscriptParseError.
+ */
+export const parseTranscript = (text: string): IncidentTranscript => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TranscriptParseError("Not valid JSON");
+  }
+
+  if (Array.isArray(data)) {
+    return { model: "", parameters: {}, turns: toTurns(data), highlights: [] };
+  }
+  if (!isRecord(data)) throw new TranscriptParseError("Expected a messages array or an object");
+
+  if (Array.isArray(data.turns)) {
+    const highlights = Array.isArray(data.highlights)
+      ? data.highlights.map(highlight => (isRecord(highlight) ? { note: "", ...highlight } : highlight))
+      : [];
+    const transcript = { model: data.model ?? "", parameters: data.parameters ?? {}, turns: data.turns, highlights };
+    if (!isTranscript(transcript)) throw new TranscriptParseError("Transcript has an invalid turn or highlight");
+    return transcript;
+  }
+  if (!Array.isArray(data.messages)) throw new TranscriptParseError("No messages array found");
+
+  const system = data.system === undefined ? [] : [{ role: "system" as const, content: toText(data.system, -1) }];
+  return {
+    model: typeof data.model === "string" ? data.model : "",
+    parameters: toParameters(data),
+    turns: [...system, ...toTurns(data.messages)],
+    highlights: [],
+  };
+};
+
+/** An OpenAI-style chat request body that replays the conversation. */
+export const toReplayRequest = (transcript: IncidentTranscript) => ({
+  ...(transcript.model && { model: transcript.model }),
+  ...transcript.parameters,
+  messages: transcript.turns.map(turn => ({ role: turn.role, content: turn.content })),
+});
+
+// "temperature=0.2, max_tokens=512" <-> { temperature: 0.2, max_tokens: 512 }
+export const formatParameters = (parameters: IncidentTranscript["parameters"]) =>
+  Object.entries(parameters).map(([key, value]) => `${key}=${value}`).join(", ");
+
+export const parseParameters = (text: string): IncidentTranscript["parameters"] =>
+  Object.fromEntries(
+    text.split(",").flatMap(pair => {
+      const [key, ...rest] = pair.split("=");
+      const value = rest.join("=").trim();
+      if (!key.trim() || !value) return [];
+      const parsed = value === "true" ? true : value === "false" ? false : Number.isNaN(Number(value)) ? value : Number(value);
+      return [[key.trim(), parsed]];
+    })
+  );
+
+export interface TurnSegment {
+  text: string;
+  // The highlight covering this segment, if any
+  highlight?: TranscriptHighlight;
+}
+
+/** Splits a turn's text at its highlights. Where highlights overlap, the earlier one wins. */
+export const segmentTurn = (transcript: IncidentTranscript, turnIndex: number): TurnSegment[] => {
+  const content = transcript.turns[turnIndex].content;
+  const highlights = transcript.highlights
+    .filter(highlight => highlight.turn === turnIndex)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: TurnSegment[] = [];
+  let offset = 0;
+  for (const highlight of highlights) {
+    const start = Math.max(highlight.start, offset);
+    const end = Math.min(highlight.end, content.length);
+    if (start >= end) continue;
+    if (start > offset) segments.push({ text: content.slice(offset, start) });
+    segments.push({ text: content.slice(start, end), highlight });
+    offset = end;
+  }
+  if (offset < content.length) segments.push({ text: content.slice(offset) });
+  return segments;
+};
+
+export const addHighlight = (transcript: IncidentTranscript, highlight: TranscriptHighlight): IncidentTranscript => ({
+  ...transcript,
+  highlights: [...transcript.highlights, highlight],
+});
+
+export const removeHighlight = (transcript: IncidentTranscript, highlight: TranscriptHighlight): IncidentTranscript => ({
+  ...transcript,
+  highlights: transcript.highlights.filter(h => h !== highlight),
+});
+
+// Highlights point at character offsets, so they are dropped from turns whose text changed
+export const withTurns = (transcript: IncidentTranscript, turns: TranscriptTurn[]): IncidentTranscript => ({
+  ...transcript,
+  turns,
+  highlights: transcript.highlights.filter(highlight =>
+    transcript.turns[highlight.turn]?.content === turns[highlight.turn]?.content &&
+    transcript.turns[highlight.turn]?.role === turns[highlight.turn]?.role
+  ),
+});
+
+export const withTranscriptDefaults = (incident: Incident): Incident => ({
+  ...incident,
+  transcript: incident.transcript ?? null,
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { initialIncidents } from "../data/initialIncidents";
+import { DEFAULT_TRASH_RETENTION_DAYS, getExpiredTrash, moveToTrash, parseTrashRetentionDays } from "./trash";
+
+describe("parseTrashRetentionDays", () => {
+  it("reads whole days from 0 to 365", () => {
+    expect(parseTrashRetentionDays("0")).toBe(0);
+    expect(parseTrashRetentionDays("7")).toBe(7);
+    expect(parseTrashRetentionDays("365")).toBe(365);
+  });
+
+  it("falls back to the default for anything else", () => {
+    for (const saved of [null, "", " ", "abc", "-1", "2.5", "366", "Infinity"]) {
+      expect(parseTrashRetentionDays(saved)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    }
+  });
+});
+
+describe("getExpiredTrash", () => {
+  it("returns trashed incidents older than the retention period", () => {
+    const [fresh, old, kept] = initialIncidents;
+    const now = Date.parse("2025-05-01T00:00:00Z");
+    const incidents = [
+      moveToTrash(fresh, "2025-04-25T00:00:00Z"),
+      moveToTrash(old, "2025-04-01T00:00:00Z"),
+      kept,
+    ];
+    expect(getExpiredTrash(incidents, 30, now).map(incident => incident.id)).toEqual([old.id]);
+    expect(getExpiredTrash(incidents, 5, now).map(incident => incident.id)).toEqual([fresh.id, old.id]);
+  });
+});
@@ -0,0 +1,48 @@
+import type { Incident } from "../types";
+
+// How long deleted incidents stay restorable unless the user picks another period
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+// 0 keeps trashed incidents until someone deletes them for good
+export const isTrashRetentionDays = (days: number) =>
+  Number.isInteger(days) && days >= 0 && days <= MAX_TRASH_RETENTION_DAYS;
+
+/** Reads a saved retention period, falling back to the default for anything missing or invalid. */
+export const parseTrashRetentionDays = (saved: string | null): number => {
+  const days = saved === null || saved.trim() === "" ? NaN : Number(saved);
+  return isTrashRetentionDays(days) ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export type TrashFilter = "exclude" | "include" | "only";
+export const TRASH_FILTERS: TrashFilter[] = ["exclude", "include", "only"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (incident: Incident) => incident.deleted_at !== null;
+
+export const moveToTrash = (incident: Incident, at = new Date().toISOString()): Incident => ({
+  ...incident,
+  deleted_at: at,
+});
+
+export const restoreFromTrash = (incident: Incident): Incident => ({ ...incident, deleted_at: null });
+
+export const filterTrash = (incidents: Incident[], filter: TrashFilter) =>
+  filter === "include" ? incidents : incidents.filter(incident => isTrashed(incident) === (filter === "only"));
+
+/** When a trashed incident is purged automatically, or null if it isn't trashed. */
+export const getPurgeDate = (incident: Incident, retentionDays: number): Date | null =>
+  incident.deleted_at === null ? null : new Date(Date.parse(incident.deleted_at) + retentionDays * DAY_MS);
+
+export const getExpiredTrash = (incidents: Incident[], retentionDays: number, now = Date.now()) =>
+  incidents.filter(incident => {
+    const purgeDate = getPurgeDate(incident, retentionDays);
+    return purgeDate !== null && purgeDate.getTime() <= now;
+  });
+
+// Records written before the trash existed were never deleted
+export const withTrashDefaults = (incident: Incident): Incident => ({
+  ...incident,
+  deleted_at: incident.deleted_at ?? null,
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { sampleIncident } from "../test/fixtures";
+import type { Incident } from "../types";
+import { createEntry, getOutdatedIds, getTargetStates, withWrittenStates } from "./undoHistory";
+
+// Copies of one incident at different versions
+const incident = (version: number, changes: Partial<Incident> = {}) => sampleIncident(100, { version, ...changes });
+
+describe("undo history", () => {
+  it("writes each state over the other side of the change", () => {
+    const entry = createEntry("Edited", [{ id: 100, before: incident(1), after: incident(2, { title: "New" }) }]);
+    expect(getTargetStates(entry, "undo")).toEqual([{ id: 100, incident: incident(1), base: incident(2, { title: "New" }) }]);
+    expect(getTargetStates(entry, "redo")).toEqual([{ id: 100, incident: incident(2, { title: "New" }), base: incident(1) }]);
+  });
+
+  it("is outdated once someone else has written over the recorded copy", () => {
+    const entry = createEntry("Edited", [{ id: 100, before: incident(1), after: incident(2) }]);
+    const states = getTargetStates(entry, "undo");
+    expect(getOutdatedIds(states, [incident(2)])).toEqual([]);
+    expect(getOutdatedIds(states, [incident(3, { title: "Merged from another tab" })])).toEqual([100]);
+    expect(getOutdatedIds(states, [])).toEqual([100]);
+  });
+
+  it("doesn't undo a create once the incident has changed since", () => {
+    const entry = createEntry("Added", [{ id: 100, before: null, after: incident(1) }]);
+    expect(getOutdatedIds(getTargetStates(entry, "undo"), [incident(2)])).toEqual([100]);
+    expect(getOutdatedIds(getTargetStates(entry, "redo"), [incident(1)])).toEqual([100]);
+    expect(getOutdatedIds(getTargetStates(entry, "redo"), [])).toEqual([]);
+  });
+
+  it("records the copies written so the next move starts from them", () => {
+    const entry = createEntry("Edited", [{ id: 100, before: incident(1), after: incident(2) }]);
+    const undone = withWrittenStates(entry, "undo", [incident(3)]);
+    expect(undone.changes).toEqual([{ id: 100, before: incident(3), after: incident(2) }]);
+    expect(getOutdatedIds(getTargetStates(undone, "redo"), [incident(3)])).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Incident } from "../types";
+
+/** One incident's state before and after a change; null means it didn't exist. */
+export interface IncidentChange {
+  id: number;
+  before: Incident | null;
+  after: Incident | null;
+}
+
+export interface HistoryEntry {
+  id: number;
+  // Shown in toasts, e.g. `Deleted "Prompt injection"`
+  label: string;
+  changes: IncidentChange[];
+}
+
+export interface UndoHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const MAX_UNDO_ENTRIES = 50;
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+let nextEntryId = 1;
+
+export const createEntry = (label: string, changes: IncidentChange[]): HistoryEntry => ({
+  id: nextEntryId++,
+  label,
+  changes,
+});
+
+// A new change makes the redo branch unreachable, so it is dropped
+export const recordEntry = (history: UndoHistory, entry: HistoryEntry): UndoHistory => ({
+  past: [...history.past, entry].slice(-MAX_UNDO_ENTRIES),
+  future: [],
+});
+
+// `entry` is the undone entry as written (see withWrittenStates)
+export const undoEntry = (history: UndoHistory, entry: HistoryEntry): UndoHistory => ({
+  past: history.past.slice(0, -1),
+  future: [...history.future, entry],
+});
+
+export const redoEntry = (history: UndoHistory, entry: HistoryEntry): UndoHistory => ({
+  past: [...history.past, entry],
+  future: history.future.slice(0, -1),
+});
+
+/** A state to write and the copy it replaces; null means the incident doesn't exist. */
+export interface TargetState {
+  id: number;
+  incident: Incident | null;
+  base: Incident | null;
+}
+
+/** The states to write to move across an entry in either direction. */
+export const getTargetStates = (entry: HistoryEntry, direction: "undo" | "redo"): TargetState[] =>
+  entry.changes.map(change => ({
+    id: change.id,
+    incident: direction === "undo" ? change.before : change.after,
+    base: direction === "undo" ? change.after : change.before,
+  }));
+
+/**
+ * Ids whose current copy is no longer the base a state was recorded against,
+ * i.e. someone else changed (or created or deleted) the incident since.
+ */
+export const getOutdatedIds = (states: TargetState[], current: Incident[]) =>
+  states
+    .filter(({ id, base }) => (current.find(incident => incident.id === id)?.version ?? null) !== (base?.version ?? null))
+    .map(({ id }) => id);
+
+/**
+ * Replaces the side of an entry that was just written with the stamped copies,
+ * so moving back across it later starts from the versions actually stored.
+ */
+export const withWrittenStates = (entry: HistoryEntry, direction: "undo" | "redo", written: Incident[]): HistoryEntry => ({
+  ...entry,
+  changes: entry.changes.map(change => {
+    const incident = written.find(i => i.id === change.id);
+    if (!incident) return change;
+    return direction === "undo" ? { ...change, before: incident } : { ...change, after: incident };
+  }),
+});
@@ -0,0 +1,97 @@
+import { SEVERITIES, compareSeverity } from "../lib/severity";
+import type { Incident, Severity } from "../types";
+
+export type IncidentAlertKind = "created" | "escalated" | "sla";
+
+/**
+ * Something worth interrupting the user for. Alerts are posted to other tabs
+ * as-is, so they carry plain data rather than the incident itself.
+ */
+export interface IncidentAlert {
+  kind: IncidentAlertKind;
+  id: number;
+  title: string;
+  severity: Severity;
+  // Escalations only: the severity before the change
+  previousSeverity?: Severity;
+  // Shown under the title, e.g. "past its resolution SLA"
+  detail?: string;
+}
+
+export interface NotificationSettings {
+  // Opt-in; browser permission is asked for when this is switched on
+  enabled: boolean;
+  // Incidents below this severity never raise an alert
+  minSeverity: Severity;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  minSeverity: SEVERITIES[SEVERITIES.length - 1],
+};
+
+export const createAlert = (kind: IncidentAlertKind, incident: Incident, extra: Partial<IncidentAlert> = {}): IncidentAlert => ({
+  kind,
+  id: incident.id,
+  title: incident.title,
+  severity: incident.severity,
+  ...extra,
+});
+
+/** Whether the alert is about an incident at or above the threshold; escalations must cross it. */
+export const meetsThreshold = (alert: IncidentAlert, { minSeverity }: NotificationSettings) =>
+  compareSeverity(alert.severity, minSeverity) >= 0 &&
+  !(alert.kind === "escalated" && alert.previousSeverity && compareSeverity(alert.previousSeverity, minSeverity) >= 0);
+
+type AlertListener = (alert: IncidentAlert, fromOtherTab: boolean) => void;
+
+const listeners = new Set<AlertListener>();
+
+// Not available everywhere (e.g. older Safari); alerts then stay in this tab
+const channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel("incident-alerts");
+
+channel?.addEventListener("message", (event: MessageEvent<IncidentAlert>) => {
+  listeners.forEach(listener => listener(event.data, true));
+});
+
+/**
+ * Announces an alert to this tab and every other open tab of the dashboard.
+ * Alerts every tab works out for itself (SLA escalations) pass `localOnly`.
+ */
+export const publishAlert = (alert: IncidentAlert, { localOnly = false } = {}) => {
+  listeners.forEach(listener => listener(alert, false));
+  if (!localOnly) channel?.postMessage(alert);
+};
+
+export const subscribeToAlerts = (listener: AlertListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isNotificationSupported = () => typeof Notification !== "undefined";
+
+export const getAlertHeading = (alert: IncidentAlert) =>
+  alert.kind === "created"
+    ? `New ${alert.severity} incident`
+    : alert.kind === "escalated"
+      ? `Incident escalated to ${alert.severity}`
+      : `${alert.severity} incident needs attention`;
+
+/**
+ * Shows a system notification if the user has allowed them. Tabs that receive
+ * the same alert share a tag, so the browser shows it once.
+ */
+export const showAlertNotification = (alert: IncidentAlert, onClick: () => void) => {
+  if (!isNotificationSupported() || Notification.permission !== "granted") return;
+  const notification = new Notification(getAlertHeading(alert), {
+    body: alert.detail ? `${alert.title}\n${alert.detail}` : alert.title,
+    tag: `incident-${alert.id}-${alert.kind}`,
+  });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+};
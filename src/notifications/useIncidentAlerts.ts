@@ -0,0 +1,25 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router";
+import { toast } from "react-toastify";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import { getAlertHeading, meetsThreshold, showAlertNotification, subscribeToAlerts } from "./incidentAlerts";
+
+/**
+ * Turns alerts into system notifications (when enabled) and tells this tab
+ * about incidents reported or escalated in another one.
+ */
+export const useIncidentAlerts = () => {
+  const { notificationSettings } = useIncidentStore();
+  const navigate = useNavigate();
+
+  useEffect(() =>
+    subscribeToAlerts((alert, fromOtherTab) => {
+      if (!meetsThreshold(alert, notificationSettings)) return;
+      const open = () => navigate(`/incidents/${alert.id}`);
+      if (fromOtherTab) {
+        toast.info(`${getAlertHeading(alert)} in another tab: "${alert.title}"`, { onClick: open, autoClose: 5000 });
+      }
+      if (notificationSettings.enabled) showAlertNotification(alert, open);
+    }),
+  [notificationSettings, navigate]);
+};
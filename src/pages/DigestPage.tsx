@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import Markdown from "../components/Markdown";
+import { useTheme } from "../context/ThemeContext";
+import {
+  DEFAULT_DIGEST_HOURS,
+  buildDigest,
+  formatDigestEmail,
+  formatDigestMarkdown,
+  getDigestTotals,
+  type DigestOptions,
+} from "../lib/digest";
+import { SEVERITIES, isSeverity } from "../lib/severity";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+
+type DigestSettings = Omit<DigestOptions, "until">;
+
+const PERIODS = [
+  { hours: 24, label: "Last 24 hours" },
+  { hours: 48, label: "Last 48 hours" },
+  { hours: 72, label: "Last 3 days" },
+  { hours: 168, label: "Last 7 days" },
+];
+
+const DEFAULT_SETTINGS: DigestSettings = { hours: DEFAULT_DIGEST_HOURS, severities: SEVERITIES, includeUnresolved: true };
+
+// Saved per browser; severities from another scale are dropped
+const loadSettings = (): DigestSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('digestSettings') ?? "{}");
+    return {
+      hours: PERIODS.some(period => period.hours === saved.hours) ? saved.hours : DEFAULT_SETTINGS.hours,
+      severities: Array.isArray(saved.severities) ? saved.severities.filter(isSeverity) : DEFAULT_SETTINGS.severities,
+      includeUnresolved: typeof saved.includeUnresolved === "boolean" ? saved.includeUnresolved : true,
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export default function DigestPage() {
+  const { darkMode } = useTheme();
+  const { incidents, now } = useIncidentStore();
+  const [settings, setSettings] = useState(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem('digestSettings', JSON.stringify(settings));
+  }, [settings]);
+
+  const digest = buildDigest(incidents, { ...settings, until: now });
+  const totals = getDigestTotals(digest);
+  const markdown = formatDigestMarkdown(digest, window.location.origin);
+
+  const copy = (text: string, label: string) => {
+    // Browsers only expose the clipboard on secure (https or localhost) pages
+    if (!navigator.clipboard) {
+      toast.error("Could not copy to the clipboard");
+      return;
+    }
+    navigator.clipboard.writeText(text)
+      .then(() => toast.success(`Copied the digest as ${label}`))
+      .catch(() => toast.error("Could not copy to the clipboard"));
+  };
+
+  const controlClass = `px-3 py-1.5 rounded-lg text-sm shadow-sm ${darkMode
+    ? 'bg-gray-700 text-gray-300 border border-gray-600'
+    : 'bg-white text-gray-700 border border-indigo-200'}`;
+  const buttonClass = `${controlClass} font-medium transition-colors ${darkMode ? 'hover:bg-gray-600' : 'hover:bg-indigo-50'}`;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <div className={`${darkMode 
+        ? 'bg-gray-800 border-gray-700' 
+        : 'bg-white border-indigo-100'} rounded-xl shadow-md p-6 border transition-colors duration-300`}>
+        <h2 className={`text-xl font-bold pb-2 mb-2 border-b ${darkMode ? 'text-gray-100 border-gray-700' : 'text-indigo-900 border-indigo-100'}`}>
+          Digest
+        </h2>
+        <p className={`text-sm mb-4 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          New, resolved and unresolved incidents by severity, ready to paste into the team channel or an email.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <select
+            value={settings.hours}
+            onChange={(e) => setSettings({ ...settings, hours: Number(e.target.value) })}
+            aria-label="Period"
+            className={controlClass}
+          >
+            {PERIODS.map(period => (
+              <option key={period.hours} value={period.hours}>{period.label}</option>
+            ))}
+          </select>
+          <fieldset className="flex flex-wrap gap-3">
+            <legend className="sr-only">Severities</legend>
+            {SEVERITIES.map(severity => (
+              <label key={severity} className={`flex items-center gap-1.5 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                <input
+                  type="checkbox"
+                  checked={settings.severities.includes(severity)}
+                  onChange={(e) => setSettings({
+                    ...settings,
+                    severities: e.target.checked
+                      ? [...settings.severities, severity]
+                      : settings.severities.filter(s => s !== severity),
+                  })}
+                  className="h-4 w-4"
+                />
+                {severity}
+              </label>
+            ))}
+          </fieldset>
+          <label className={`flex items-center gap-1.5 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            <input
+              type="checkbox"
+              checked={settings.includeUnresolved}
+              onChange={(e) => setSettings({ ...settings, includeUnresolved: e.target.checked })}
+              className="h-4 w-4"
+            />
+            List all unresolved
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button className={buttonClass} onClick={() => copy(markdown, "Markdown")}>Copy as Markdown</button>
+          <button className={buttonClass} onClick={() => copy(formatDigestEmail(digest, window.location.origin), "an email body")}>
+            Copy as email body
+          </button>
+          <span className={`self-center text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {totals.created} new · {totals.resolved} resolved{settings.includeUnresolved && ` · ${totals.unresolved} unresolved`}
+          </span>
+        </div>
+      </div>
+
+      <div className={`${darkMode 
+        ? 'bg-gray-800 border-gray-700 text-gray-300' 
+        : 'bg-white border-indigo-100 text-gray-700'} rounded-xl shadow-md p-6 border transition-colors duration-300`}>
+        {digest.sections.length === 0 ? (
+          <p className={`text-center py-6 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Pick at least one severity.</p>
+        ) : (
+          <Markdown source={markdown} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router";
+import IncidentAttachments from "../components/IncidentAttachments";
+import IncidentComments from "../components/IncidentComments";
+import IncidentEditForm from "../components/IncidentEditForm";
+import IncidentLinks from "../components/IncidentLinks";
+import IncidentRevisionHistory from "../components/IncidentRevisionHistory";
+import IncidentStatusPanel from "../components/IncidentStatusPanel";
+import IncidentTranscript from "../components/IncidentTranscript";
+import MoveToTrashDialog from "../components/MoveToTrashDialog";
+import SeverityBadge from "../components/SeverityBadge";
+import SlaBadge from "../components/SlaBadge";
+import StatusBadge from "../components/StatusBadge";
+import SyncIndicator from "../components/SyncIndicator";
+import TaxonomySummary from "../components/TaxonomySummary";
+import { useTheme } from "../context/ThemeContext";
+import type { IncidentEdit } from "../lib/incidentRevisions";
+import { getPurgeDate, isTrashed } from "../lib/trash";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident } from "../types";
+
+export default function IncidentDetailPage() {
+  const { darkMode } = useTheme();
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const {
+    incidents,
+    trashedIncidents,
+    loaded,
+    isSyncMode,
+    getSyncStatus,
+    editIncident,
+    changeStatus,
+    revertIncident,
+    deleteIncidents,
+    restoreIncident,
+    trashPurgeDays,
+    can,
+  } = useIncidentStore();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const incident = [...incidents, ...trashedIncidents].find(i => String(i.id) === id);
+
+  const cardClass = `${darkMode 
+    ? 'bg-gray-800 border-gray-700' 
+    : 'bg-white border-indigo-100'} rounded-xl shadow-md p-6 border transition-colors duration-300`;
+  const backLink = (
+    <Link to="/" className={`text-sm ${darkMode ? 'text-purple-400 hover:text-purple-300' : 'text-indigo-600 hover:text-indigo-800'}`}>
+      ← Back to incidents
+    </Link>
+  );
+
+  if (!incident) {
+    return (
+      <div className="max-w-3xl mx-auto space-y-4">
+        {backLink}
+        <div className={`${cardClass} text-center`}>
+          <h2 className={`text-xl font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            {loaded ? "Incident not found" : "Loading incident…"}
+          </h2>
+          {loaded && (
+            <p className={`mt-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              No incident with id {id} exists in {isSyncMode ? "this replica" : "this data source"}.
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const handleEdit = (target: Incident, values: IncidentEdit) => {
+    if (editIncident(target, values)) setIsEditing(false);
+  };
+
+  const confirmDelete = () => {
+    setIsDeleteOpen(false);
+    deleteIncidents([incident]);
+    navigate("/");
+  };
+
+  const canEdit = !isTrashed(incident) && can("edit", incident);
+
+  const buttonClass = `px-3 py-1 text-sm rounded-md transition-colors duration-150 focus:outline-none focus:ring-2 shadow-sm focus:ring-opacity-50`;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      {isDeleteOpen && (
+        <MoveToTrashDialog
+          incidents={[incident]}
+          onConfirm={confirmDelete}
+          onCancel={() => setIsDeleteOpen(false)}
+        />
+      )}
+
+      {backLink}
+
+      {isTrashed(incident) && (
+        <div role="status" className={`flex flex-wrap items-center justify-between gap-3 p-4 rounded-xl border ${darkMode 
+          ? 'bg-rose-900/30 border-rose-800 text-rose-200' 
+          : 'bg-rose-50 border-rose-200 text-rose-800'}`}>
+          <span className="text-sm">
+            In the trash since {new Date(incident.deleted_at!).toLocaleString()}
+            {trashPurgeDays !== null && <>; purged on {getPurgeDate(incident, trashPurgeDays)!.toLocaleDateString()}</>}.
+          </span>
+          {can("delete") && (
+            <button
+              className={`${buttonClass} ${darkMode 
+                ? 'text-purple-400 border border-purple-700 hover:bg-purple-900/30 focus:ring-purple-500' 
+                : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50 focus:ring-indigo-500'}`}
+              onClick={() => restoreIncident(incident)}
+            >
+              Restore
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className={cardClass}>
+        {isEditing ? (
+          <IncidentEditForm
+            incident={incident}
+            onSave={handleEdit}
+            onCancel={() => setIsEditing(false)}
+          />
+        ) : (
+          <>
+            <div className="flex flex-col sm:flex-row justify-between items-start gap-3 mb-3">
+              <div>
+                <h2 className={`text-2xl font-bold ${darkMode ? 'text-gray-100' : 'text-indigo-900'}`}>{incident.title}</h2>
+                <div className="flex gap-2 items-center mt-2">
+                  <SeverityBadge severity={incident.severity} />
+                  <StatusBadge status={incident.status} />
+                  <SlaBadge incident={incident} />
+                  {isSyncMode && <SyncIndicator status={getSyncStatus(incident.id)} />}
+                  <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    Reported {new Date(incident.reported_at).toLocaleString()}
+                    {incident.reporter && ` by ${incident.reporter}`}
+                  </span>
+                  <span className={`text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {incident.assignee ? `Assigned to ${incident.assignee}` : "Unassigned"}
+                  </span>
+                </div>
+              </div>
+              <div className={`flex gap-2 ${isTrashed(incident) ? 'hidden' : ''}`}>
+                {canEdit && (
+                  <button
+                    className={`${buttonClass} ${darkMode 
+                      ? 'text-gray-300 border border-gray-600 hover:bg-gray-700 focus:ring-gray-500' 
+                      : 'text-gray-700 border border-gray-300 hover:bg-gray-50 focus:ring-gray-400'}`}
+                    onClick={() => setIsEditing(true)}
+                  >
+                    Edit
+                  </button>
+                )}
+                {can("delete") && (
+                  <button
+                    className={`${buttonClass} ${darkMode 
+                      ? 'text-rose-400 border border-rose-700 hover:bg-rose-900/30 focus:ring-rose-500' 
+                      : 'text-rose-600 border border-rose-200 hover:bg-rose-50 focus:ring-rose-500'}`}
+                    onClick={() => setIsDeleteOpen(true)}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+            <p className={`whitespace-pre-wrap ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>{incident.description}</p>
+            <TaxonomySummary incident={incident} />
+          </>
+        )}
+      </div>
+
+      <div className={`${cardClass} ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+        <IncidentTranscript incident={incident} readOnly={!canEdit} />
+        <IncidentAttachments incident={incident} readOnly={!canEdit} />
+        <IncidentComments incident={incident} readOnly={isTrashed(incident)} />
+        <IncidentLinks incident={incident} readOnly={!canEdit} />
+      </div>
+
+      <div className={`${cardClass} ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+        <IncidentStatusPanel incident={incident} onTransition={can("status") ? changeStatus : undefined} />
+        <IncidentRevisionHistory incident={incident} onRevert={canEdit ? revertIncident : undefined} />
+      </div>
+    </div>
+  );
+}
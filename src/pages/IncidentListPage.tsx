@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from "react";
+import AnalyticsPanel from "../components/AnalyticsPanel";
+import BulkActionBar from "../components/BulkActionBar";
+import ImportExportDialog from "../components/ImportExportDialog";
+import IncidentFilters from "../components/IncidentFilters";
+import IncidentListItem from "../components/IncidentListItem";
+import MoveToTrashDialog from "../components/MoveToTrashDialog";
+import ReportIncidentForm from "../components/ReportIncidentForm";
+import { useTheme } from "../context/ThemeContext";
+import { groupDuplicates } from "../lib/duplicates";
+import { queryIncidents } from "../lib/incidentQuery";
+import type { ImportPlan } from "../lib/incidentTransfer";
+import { QueryParseError } from "../lib/searchQuery";
+import { getSlaStatus } from "../lib/sla";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident } from "../types";
+import { useIndexedIds } from "../views/useIndexedIds";
+import { useListView } from "../views/useListView";
+import { useSelection } from "../views/useSelection";
+
+export default function IncidentListPage() {
+  const { darkMode } = useTheme();
+  const {
+    incidents,
+    trashedIncidents,
+    loaded,
+    slaSettings,
+    now,
+    currentUser,
+    can,
+    deleteIncidents,
+    setSeverity,
+    tagIncidents,
+    importIncidents,
+    dataSource,
+  } = useIncidentStore();
+  // Filters, search, sort and expanded rows live in the URL
+  const [view, updateView] = useListView();
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState<"list" | "analytics">("list");
+  const [searchError, setSearchError] = useState<QueryParseError | null>(null);
+  const [filteredIncidents, setFilteredIncidents] = useState<Incident[]>(incidents);
+  const [pendingDelete, setPendingDelete] = useState<Incident[] | null>(null);
+  const [animateEntries, setAnimateEntries] = useState(false);
+  const storedIncidents = useMemo(() => [...incidents, ...trashedIncidents], [incidents, trashedIncidents]);
+
+  // Add slight delay before animating entries once they are loaded
+  useEffect(() => {
+    if (!loaded) return;
+    const timer = setTimeout(() => setAnimateEntries(true), 100);
+    return () => clearTimeout(timer);
+  }, [loaded]);
+
+  // Indexed terms (severity, tags, report dates) narrow the incidents the full query runs over
+  const indexedIds = useIndexedIds(dataSource, view, incidents);
+  const candidates = useMemo(
+    () => (indexedIds ? incidents.filter(incident => indexedIds.has(incident.id)) : incidents),
+    [incidents, indexedIds]
+  );
+
+  useEffect(() => {
+    try {
+      const filtered = queryIncidents(candidates, {
+        ...view,
+        reporter: view.reportedByMe ? currentUser : undefined,
+        assignee: view.assignedToMe ? currentUser : undefined,
+        sla: { settings: slaSettings, now },
+      });
+      setFilteredIncidents(filtered);
+      setSearchError(null);
+    } catch (error) {
+      // Keep showing the last valid results while the query is being typed
+      if (!(error instanceof QueryParseError)) throw error;
+      setSearchError(error);
+    }
+  }, [candidates, view, slaSettings, now, currentUser]);
+
+  // Duplicates are listed under the incident they duplicate
+  const rows = useMemo(() => groupDuplicates(filteredIncidents), [filteredIncidents]);
+  const selection = useSelection(rows.map(row => row.incident.id));
+  // Batch actions apply to the selected incidents that match the current filter
+  const selectedIncidents = filteredIncidents.filter(incident => selection.selected.has(incident.id));
+  const allSelected = filteredIncidents.length > 0 && selectedIncidents.length === filteredIncidents.length;
+
+  // Escalated incidents stand out until someone acts on them
+  const getSlaLevel = (incident: Incident) => getSlaStatus(incident, slaSettings, now)?.level;
+
+  const toggleDetails = (id: number) => {
+    updateView(({ expanded }) => ({
+      expanded: expanded.includes(id) ? expanded.filter(i => i !== id) : [...expanded, id],
+    }));
+  };
+
+  const handleImport = async (plan: ImportPlan) => {
+    if (await importIncidents(plan)) setIsTransferOpen(false);
+  };
+
+  const confirmDelete = () => {
+    if (pendingDelete) deleteIncidents(pendingDelete);
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8">
+      {pendingDelete && (
+        <MoveToTrashDialog
+          incidents={pendingDelete}
+          onConfirm={confirmDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+
+      {isTransferOpen && (
+        <ImportExportDialog
+          incidents={incidents}
+          existingIncidents={storedIncidents}
+          filteredIncidents={filteredIncidents}
+          selectedIncidents={selectedIncidents}
+          onImport={can("manage") ? handleImport : undefined}
+          onClose={() => setIsTransferOpen(false)}
+        />
+      )}
+
+      {/* Left column - Incidents list */}
+      <div className="lg:w-2/3">
+        <IncidentFilters
+          view={view}
+          onChange={updateView}
+          searchError={searchError}
+          onOpenTransfer={() => setIsTransferOpen(true)}
+        />
+
+        <div className="flex gap-2 mb-4" role="tablist">
+          {(["list", "analytics"] as const).map(tab => (
+            <button
+              key={tab}
+              role="tab"
+              aria-selected={activeTab === tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm
+                ${activeTab === tab 
+                  ? (darkMode ? "bg-purple-600 text-white" : "bg-indigo-600 text-white")
+                  : (darkMode 
+                      ? "bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600" 
+                      : "bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50")
+                }`}
+            >
+              {tab === "list" ? `Incidents (${filteredIncidents.length})` : "Analytics"}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === "list" && selectedIncidents.length > 0 && (
+          <BulkActionBar
+            selectedCount={selectedIncidents.length}
+            matchingCount={filteredIncidents.length}
+            onSelectAllMatching={() => selection.selectAll(filteredIncidents.map(incident => incident.id))}
+            onClear={selection.clear}
+            onSetSeverity={can("edit") ? severity => setSeverity(selectedIncidents, severity) : undefined}
+            onTag={can("edit") ? tags => tagIncidents(selectedIncidents, tags) : undefined}
+            onExport={() => setIsTransferOpen(true)}
+            onDelete={can("delete") ? () => setPendingDelete(selectedIncidents) : undefined}
+          />
+        )}
+
+        {/* Incident List */}
+        {activeTab === "analytics" ? (
+          <AnalyticsPanel incidents={filteredIncidents} />
+        ) : filteredIncidents.length === 0 ? (
+          <div className={`text-center p-8 ${darkMode 
+            ? 'bg-gray-800 border-gray-700' 
+            : 'bg-white border-indigo-100'} rounded-xl shadow-md border transition-colors duration-300`}>
+            <svg className={`mx-auto h-16 w-16 ${darkMode ? 'text-gray-600' : 'text-indigo-300'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.172 16.172a4 4 0 015.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path>
+            </svg>
+            <h3 className={`mt-4 text-xl font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>No incidents found</h3>
+            <p className={`mt-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Try adjusting your search or filter criteria.</p>
+          </div>
+        ) : (
+          <div className={`${darkMode 
+            ? 'bg-gray-800 border-gray-700' 
+            : 'bg-white border-indigo-100'} rounded-xl shadow-md overflow-hidden border transition-colors duration-300`}>
+            <label className={`flex items-center gap-3 px-5 py-3 text-sm border-b ${darkMode 
+              ? 'border-gray-700 text-gray-300' 
+              : 'border-indigo-100 text-gray-600'}`}>
+              <input
+                type="checkbox"
+                checked={allSelected}
+                ref={input => {
+                  if (input) input.indeterminate = selectedIncidents.length > 0 && !allSelected;
+                }}
+                onChange={() => (allSelected
+                  ? selection.clear()
+                  : selection.selectAll(filteredIncidents.map(incident => incident.id)))}
+                className="h-4 w-4"
+              />
+              Select all matching ({filteredIncidents.length})
+            </label>
+            <ul className={`divide-y ${darkMode ? 'divide-gray-700' : 'divide-indigo-100'}`}>
+              {rows.map(({ incident, parentId }, index) => (
+                <li 
+                  key={incident.id} 
+                  className={`${darkMode 
+                    ? 'hover:bg-gray-700/50' 
+                    : 'hover:bg-indigo-50/50'} transition-all duration-300 ${
+                      animateEntries ? 'animate-fade-in' : 'opacity-0'
+                    } ${parentId !== null ? (darkMode ? 'pl-8 bg-gray-900/30' : 'pl-8 bg-indigo-50/30') : ''} ${
+                      getSlaLevel(incident) === "breached"
+                        ? (darkMode ? 'border-l-4 border-rose-500 bg-rose-900/20' : 'border-l-4 border-rose-500 bg-rose-50/60')
+                        : getSlaLevel(incident) === "escalated" ? 'border-l-4 border-amber-400' : ''
+                    }`}
+                  style={{ 
+                    animationDelay: `${index * 50}ms`, 
+                    animationFillMode: 'forwards' 
+                  }}
+                >
+                  <div className={`flex items-start ${parentId !== null ? (darkMode ? 'border-l-2 border-gray-600' : 'border-l-2 border-indigo-200') : ''}`}>
+                    <input
+                      type="checkbox"
+                      checked={selection.selected.has(incident.id)}
+                      onChange={(e) => {
+                        const { nativeEvent } = e;
+                        selection.toggle(incident.id, "shiftKey" in nativeEvent && nativeEvent.shiftKey === true);
+                      }}
+                      aria-label={`Select "${incident.title}"`}
+                      title="Shift-click to select a range"
+                      className="h-4 w-4 mt-7 ml-5"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <IncidentListItem
+                        incident={incident}
+                        expanded={view.expanded.includes(incident.id)}
+                        onToggleDetails={() => toggleDetails(incident.id)}
+                        onDelete={() => setPendingDelete([incident])}
+                        onSelectTag={tag => {
+                          if (!view.tags.includes(tag)) updateView({ tags: [...view.tags, tag] });
+                        }}
+                      />
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Right column - Report form */}
+      <div className="lg:w-1/3">
+        <div className={`${darkMode 
+            ? 'bg-gray-800 border border-gray-700 hover:shadow-lg hover:border-gray-500' 
+            : 'bg-white border border-indigo-100 hover:shadow-lg hover:border-indigo-300'
+          } rounded-xl shadow-md p-6 sticky top-24 border transition-colors duration-300`}>
+          <h2 className={`text-xl font-bold mb-4 ${darkMode 
+            ? 'text-gray-100 border-b border-gray-700' 
+            : 'text-indigo-900 border-b border-indigo-100'} pb-2`}>Report New Incident</h2>
+          <ReportIncidentForm />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { useNavigate } from "react-router";
+import ReportIncidentForm from "../components/ReportIncidentForm";
+import { useTheme } from "../context/ThemeContext";
+
+export default function NewIncidentPage() {
+  const { darkMode } = useTheme();
+  const navigate = useNavigate();
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className={`${darkMode 
+        ? 'bg-gray-800 border-gray-700' 
+        : 'bg-white border-indigo-100'} rounded-xl shadow-md p-6 border transition-colors duration-300`}>
+        <h2 className={`text-xl font-bold mb-4 ${darkMode 
+          ? 'text-gray-100 border-b border-gray-700' 
+          : 'text-indigo-900 border-b border-indigo-100'} pb-2`}>Report New Incident</h2>
+        <ReportIncidentForm onReported={incident => navigate(`/incidents/${incident.id}`)} />
+      </div>
+    </div>
+  );
+}
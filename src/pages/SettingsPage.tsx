@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { toast } from "react-toastify";
+import StorageQuota from "../components/StorageQuota";
+import { useTheme } from "../context/ThemeContext";
+import { DATA_SOURCE_MODES, getDataSource, type DataSourceMode } from "../data/dataSource";
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, type Role } from "../lib/roles";
+import { SEVERITIES } from "../lib/severity";
+import { DEFAULT_SLA_SETTINGS, type SlaTarget } from "../lib/sla";
+import { MAX_TRASH_RETENTION_DAYS, isTrashRetentionDays } from "../lib/trash";
+import { isNotificationSupported } from "../notifications/incidentAlerts";
+import type { Severity } from "../types";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+
+export default function SettingsPage() {
+  const { darkMode, toggleDarkMode } = useTheme();
+  const {
+    userName,
+    setUserName,
+    role,
+    setRole,
+    dataSourceMode,
+    setDataSourceMode,
+    trashRetentionDays,
+    setTrashRetentionDays,
+    slaSettings,
+    setSlaSettings,
+    notificationSettings,
+    setNotificationSettings,
+  } = useIncidentStore();
+  const [permission, setPermission] = useState(() => (isNotificationSupported() ? Notification.permission : "denied"));
+
+  // Permission can only be requested from a click, so ask when notifications are switched on
+  const toggleNotifications = async (enabled: boolean) => {
+    if (enabled && Notification.permission !== "granted") {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== "granted") {
+        toast.error("Notifications are blocked for this site in your browser settings");
+        return;
+      }
+    }
+    setNotificationSettings({ ...notificationSettings, enabled });
+  };
+
+  const setSlaTarget = (severity: Severity, key: keyof SlaTarget, hours: number) => {
+    if (!(hours > 0)) return;
+    setSlaSettings({
+      ...slaSettings,
+      targets: { ...slaSettings.targets, [severity]: { ...slaSettings.targets[severity], [key]: hours } },
+    });
+  };
+
+  const labelClass = `block text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'} mb-1`;
+  const hintClass = `mt-1 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const inputClass = `w-full px-3 py-2 rounded-lg text-sm ${darkMode 
+    ? 'border-gray-600 bg-gray-700/50 text-gray-200 focus:ring-2 focus:ring-purple-500' 
+    : 'border-indigo-200 bg-indigo-50/50 text-gray-800 focus:ring-2 focus:ring-indigo-500'} transition-colors duration-300`;
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className={`${darkMode 
+        ? 'bg-gray-800 border-gray-700' 
+        : 'bg-white border-indigo-100'} rounded-xl shadow-md p-6 border transition-colors duration-300 space-y-6`}>
+        <h2 className={`text-xl font-bold ${darkMode 
+          ? 'text-gray-100 border-b border-gray-700' 
+          : 'text-indigo-900 border-b border-indigo-100'} pb-2`}>Settings</h2>
+
+        <div>
+          <label htmlFor="user-name" className={labelClass}>Your name</label>
+          <input
+            id="user-name"
+            type="text"
+            placeholder="Anonymous"
+            value={userName}
+            onChange={(e) => setUserName(e.target.value)}
+            className={inputClass}
+          />
+          <p className={hintClass}>Recorded against the incidents you report and the changes you make, and used by "My incidents" and "Assigned to me".</p>
+        </div>
+
+        <div>
+          <label htmlFor="user-role" className={labelClass}>Role</label>
+          <select
+            id="user-role"
+            value={role}
+            onChange={(e) => setRole(e.target.value as Role)}
+            className={inputClass}
+          >
+            {ROLES.map(option => (
+              <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+            ))}
+          </select>
+          <p className={hintClass}>
+            {ROLE_DESCRIPTIONS[role]} Roles keep people from changing what isn't theirs to change; they are chosen per
+            browser, so they aren't a security boundary.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="data-source" className={labelClass}>Data source</label>
+          <select
+            id="data-source"
+            value={dataSourceMode}
+            onChange={(e) => setDataSourceMode(e.target.value as DataSourceMode)}
+            className={inputClass}
+          >
+            {DATA_SOURCE_MODES.map(mode => (
+              <option key={mode} value={mode}>{getDataSource(mode).label}</option>
+            ))}
+          </select>
+          <p className={hintClass}>Where incidents are loaded from and saved to in this browser.</p>
+        </div>
+
+        <div>
+          <label htmlFor="trash-retention" className={labelClass}>Keep deleted incidents for (days)</label>
+          <input
+            id="trash-retention"
+            type="number"
+            min={0}
+            max={MAX_TRASH_RETENTION_DAYS}
+            value={trashRetentionDays}
+            onChange={(e) => {
+              const days = Math.round(Number(e.target.value));
+              if (e.target.value !== "" && isTrashRetentionDays(days)) setTrashRetentionDays(days);
+            }}
+            className={inputClass}
+          />
+          <p className={hintClass}>
+            Incidents in the trash longer than this are purged for good; 0 keeps them until they are deleted by hand.
+            Only applies to incidents stored in this browser: the shared trash of the other data sources is never purged automatically.
+          </p>
+        </div>
+
+        <div>
+          <span className={labelClass}>SLA targets (hours)</span>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className={darkMode ? 'text-gray-400' : 'text-gray-500'}>
+                <th className="text-left font-medium pb-1">Severity</th>
+                <th className="text-left font-medium pb-1 px-2">Acknowledge within</th>
+                <th className="text-left font-medium pb-1">Resolve within</th>
+              </tr>
+            </thead>
+            <tbody>
+              {SEVERITIES.map(severity => (
+                <tr key={severity}>
+                  <td className={`py-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>{severity}</td>
+                  <td className="py-1 px-2">
+                    <input
+                      type="number"
+                      min={0.25}
+                      step={0.25}
+                      aria-label={`${severity} acknowledgement target in hours`}
+                      value={slaSettings.targets[severity].acknowledgeHours}
+                      onChange={(e) => setSlaTarget(severity, "acknowledgeHours", Number(e.target.value))}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="py-1">
+                    <input
+                      type="number"
+                      min={0.25}
+                      step={0.25}
+                      aria-label={`${severity} resolution target in hours`}
+                      value={slaSettings.targets[severity].resolveHours}
+                      onChange={(e) => setSlaTarget(severity, "resolveHours", Number(e.target.value))}
+                      className={inputClass}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className={hintClass}>
+            Counted from when an incident is reported or reopened. It is acknowledged once it leaves Open, and resolved once it is Resolved or Closed.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="sla-escalation" className={labelClass}>Escalate at (% of the target)</label>
+          <input
+            id="sla-escalation"
+            type="number"
+            min={1}
+            max={100}
+            value={slaSettings.escalateAtPercent}
+            onChange={(e) => {
+              const percent = Math.round(Number(e.target.value));
+              if (percent >= 1 && percent <= 100) setSlaSettings({ ...slaSettings, escalateAtPercent: percent });
+            }}
+            className={inputClass}
+          />
+          <p className={hintClass}>
+            Incidents past this share of their target are highlighted in the list with a warning, and again when the target is missed.
+          </p>
+          <button
+            type="button"
+            onClick={() => setSlaSettings(DEFAULT_SLA_SETTINGS)}
+            className={`mt-2 px-3 py-1.5 rounded-lg text-sm transition-all shadow-sm ${darkMode 
+              ? "bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600" 
+              : "bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50"}`}
+          >
+            Reset SLA targets to defaults
+          </button>
+        </div>
+
+        <div>
+          <span className={labelClass}>Notifications</span>
+          {isNotificationSupported() ? (
+            <>
+              <label className={`flex items-center gap-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                <input
+                  type="checkbox"
+                  checked={notificationSettings.enabled && permission === "granted"}
+                  onChange={(e) => toggleNotifications(e.target.checked)}
+                  className="h-4 w-4"
+                />
+                Show browser notifications
+              </label>
+              <label htmlFor="notify-severity" className={`${labelClass} mt-3`}>For incidents at or above</label>
+              <select
+                id="notify-severity"
+                value={notificationSettings.minSeverity}
+                onChange={(e) => setNotificationSettings({ ...notificationSettings, minSeverity: e.target.value as Severity })}
+                className={inputClass}
+              >
+                {SEVERITIES.map(severity => (
+                  <option key={severity} value={severity}>{severity}</option>
+                ))}
+              </select>
+              <p className={hintClass}>
+                Sent when such an incident is reported, escalated to that severity, or nears or misses its SLA, including changes made in other tabs.
+                {permission === "denied" && " Notifications are currently blocked for this site in your browser."}
+              </p>
+            </>
+          ) : (
+            <p className={hintClass}>This browser doesn't support notifications.</p>
+          )}
+        </div>
+
+        <div>
+          <span className={labelClass}>Storage</span>
+          <StorageQuota />
+          <p className={hintClass}>Evidence files are kept in this browser only, whichever data source is selected.</p>
+        </div>
+
+        <div>
+          <span className={labelClass}>Theme</span>
+          <button
+            onClick={toggleDarkMode}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all shadow-sm ${darkMode 
+              ? "bg-gray-700 text-gray-300 border border-gray-600 hover:bg-gray-600" 
+              : "bg-white text-gray-700 border border-indigo-200 hover:bg-indigo-50"}`}
+          >
+            {darkMode ? "Switch to light mode" : "Switch to dark mode"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import DeleteConfirmDialog from "../components/DeleteConfirmDialog";
+import { useTheme } from "../context/ThemeContext";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import { DEFAULT_LIST_VIEW, toSearchParams } from "../views/listView";
+import { useTagCounts } from "../views/useTagCounts";
+
+export default function TagsPage() {
+  const { darkMode } = useTheme();
+  const { tags: summaries, renameTag, deleteTag, can, dataSource } = useIncidentStore();
+  const tags = useTagCounts(dataSource, summaries);
+  // The tag being renamed and its draft name
+  const [renaming, setRenaming] = useState<{ name: string; draft: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<{ name: string; count: number } | null>(null);
+
+  const buttonClass = `px-3 py-1 text-sm rounded-md transition-colors duration-150 focus:outline-none focus:ring-2 shadow-sm focus:ring-opacity-50`;
+  const editClass = `${buttonClass} ${darkMode 
+    ? 'text-purple-400 border border-purple-700 hover:bg-purple-900/30 focus:ring-purple-500' 
+    : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50 focus:ring-indigo-500'}`;
+  const deleteClass = `${buttonClass} ${darkMode 
+    ? 'text-rose-400 border border-rose-700 hover:bg-rose-900/30 focus:ring-rose-500' 
+    : 'text-rose-600 border border-rose-200 hover:bg-rose-50 focus:ring-rose-500'}`;
+  const fieldClass = `px-3 py-1 rounded-md text-sm border ${darkMode 
+    ? 'bg-gray-700 text-gray-200 border-gray-600 focus:ring-purple-500' 
+    : 'bg-white text-gray-700 border-indigo-200 focus:ring-indigo-500'} focus:outline-none focus:ring-2`;
+
+  const submitRename = () => {
+    if (renaming) renameTag(renaming.name, renaming.draft);
+    setRenaming(null);
+  };
+
+  const confirmDelete = () => {
+    if (pendingDelete) deleteTag(pendingDelete.name);
+    setPendingDelete(null);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      {pendingDelete && (
+        <DeleteConfirmDialog
+          heading="Delete Tag"
+          message={<>Delete the tag "<span className="text-rose-500 font-semibold">{pendingDelete.name}</span>"?</>}
+          note={pendingDelete.count > 0
+            ? `It will be removed from ${pendingDelete.count} ${pendingDelete.count === 1 ? "incident" : "incidents"}; Undo puts it back.`
+            : "No incidents use it."}
+          onConfirm={confirmDelete}
+          onCancel={() => setPendingDelete(null)}
+        />
+      )}
+
+      <div className={`${darkMode 
+        ? 'bg-gray-800 border-gray-700' 
+        : 'bg-white border-indigo-100'} rounded-xl shadow-md p-6 border transition-colors duration-300`}>
+        <h2 className={`text-xl font-bold pb-2 mb-2 border-b ${darkMode ? 'text-gray-100 border-gray-700' : 'text-indigo-900 border-indigo-100'}`}>
+          Tags ({tags.length})
+        </h2>
+        <p className={`text-sm mb-4 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Renaming a tag to one that already exists merges the two. Changes apply to every incident, including those in the trash.
+        </p>
+
+        {tags.length === 0 ? (
+          <p className={`text-center py-6 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            No tags yet. Add some when reporting an incident or with bulk actions.
+          </p>
+        ) : (
+          <ul className={`divide-y ${darkMode ? 'divide-gray-700' : 'divide-indigo-100'}`}>
+            {tags.map(tag => (
+              <li key={tag.name} className="py-3 flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+                {renaming?.name === tag.name ? (
+                  <form
+                    className="flex gap-2 items-center"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      submitRename();
+                    }}
+                  >
+                    <input
+                      autoFocus
+                      aria-label={`New name for ${tag.name}`}
+                      value={renaming.draft}
+                      onChange={(e) => setRenaming({ ...renaming, draft: e.target.value })}
+                      onKeyDown={(e) => e.key === "Escape" && setRenaming(null)}
+                      className={fieldClass}
+                    />
+                    <button type="submit" className={editClass}>Save</button>
+                    <button type="button" className={editClass} onClick={() => setRenaming(null)}>Cancel</button>
+                  </form>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span className={`font-medium ${darkMode ? 'text-purple-300' : 'text-indigo-700'}`}>#{tag.name}</span>
+                    <Link
+                      to={`/?${toSearchParams({ ...DEFAULT_LIST_VIEW, tags: [tag.name] })}`}
+                      className={`text-xs underline ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                    >
+                      {tag.count} {tag.count === 1 ? "incident" : "incidents"}
+                    </Link>
+                  </div>
+                )}
+                {can("manage") && (
+                  <div className="flex gap-2 items-center">
+                    <button className={editClass} onClick={() => setRenaming({ name: tag.name, draft: tag.name })}>Rename</button>
+                    <select
+                      aria-label={`Merge ${tag.name} into`}
+                      value=""
+                      onChange={(e) => e.target.value && renameTag(tag.name, e.target.value)}
+                      className={fieldClass}
+                      disabled={tags.length < 2}
+                    >
+                      <option value="">Merge into…</option>
+                      {tags.filter(other => other.name !== tag.name).map(other => (
+                        <option key={other.name} value={other.name}>#{other.name}</option>
+                      ))}
+                    </select>
+                    <button className={deleteClass} onClick={() => setPendingDelete(tag)}>Delete</button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Link } from "react-router";
+import DeleteConfirmDialog from "../components/DeleteConfirmDialog";
+import SeverityBadge from "../components/SeverityBadge";
+import StatusBadge from "../components/StatusBadge";
+import { useTheme } from "../context/ThemeContext";
+import { getPurgeDate } from "../lib/trash";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+import type { Incident } from "../types";
+
+export default function TrashPage() {
+  const { darkMode } = useTheme();
+  const { trashedIncidents, trashPurgeDays, dataSourceMode, restoreIncident, purgeIncidents, can } = useIncidentStore();
+  // The incidents waiting for a "delete forever" confirmation
+  const [pendingPurge, setPendingPurge] = useState<Incident[] | null>(null);
+
+  // Most recently deleted first
+  const trash = [...trashedIncidents].sort((a, b) => Date.parse(b.deleted_at!) - Date.parse(a.deleted_at!));
+
+  const buttonClass = `px-3 py-1 text-sm rounded-md transition-colors duration-150 focus:outline-none focus:ring-2 shadow-sm focus:ring-opacity-50`;
+  const restoreClass = `${buttonClass} ${darkMode 
+    ? 'text-purple-400 border border-purple-700 hover:bg-purple-900/30 focus:ring-purple-500' 
+    : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50 focus:ring-indigo-500'}`;
+  const purgeClass = `${buttonClass} ${darkMode 
+    ? 'text-rose-400 border border-rose-700 hover:bg-rose-900/30 focus:ring-rose-500' 
+    : 'text-rose-600 border border-rose-200 hover:bg-rose-50 focus:ring-rose-500'}`;
+
+  const confirmPurge = () => {
+    if (pendingPurge) purgeIncidents(pendingPurge);
+    setPendingPurge(null);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      {pendingPurge && (
+        <DeleteConfirmDialog
+          heading="Delete Forever"
+          message={pendingPurge.length === 1
+            ? <>Permanently delete "<span className="text-rose-500 font-semibold">{pendingPurge[0].title}</span>"?</>
+            : <>Permanently delete all <span className="text-rose-500 font-semibold">{pendingPurge.length}</span> incidents in the trash?</>}
+          note="Only Undo in this session can bring them back."
+          confirmLabel="Delete Forever"
+          onConfirm={confirmPurge}
+          onCancel={() => setPendingPurge(null)}
+        />
+      )}
+
+      <div className={`${darkMode 
+        ? 'bg-gray-800 border-gray-700' 
+        : 'bg-white border-indigo-100'} rounded-xl shadow-md p-6 border transition-colors duration-300`}>
+        <div className={`flex justify-between items-center gap-3 pb-2 mb-2 border-b ${darkMode ? 'border-gray-700' : 'border-indigo-100'}`}>
+          <h2 className={`text-xl font-bold ${darkMode ? 'text-gray-100' : 'text-indigo-900'}`}>Trash ({trash.length})</h2>
+          {trash.length > 0 && can("delete") && (
+            <button className={purgeClass} onClick={() => setPendingPurge(trash)}>Empty trash</button>
+          )}
+        </div>
+        <p className={`text-sm mb-4 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {trashPurgeDays !== null
+            ? <>Deleted incidents are kept for {trashPurgeDays} days, then purged automatically. The retention
+              period can be changed in <Link to="/settings" className="underline">Settings</Link>.</>
+            : dataSourceMode === "local"
+              ? <>Deleted incidents are kept until they are deleted for good. Automatic purging can be turned on
+                in <Link to="/settings" className="underline">Settings</Link>.</>
+              : "Deleted incidents are shared with everyone on the server and kept until someone deletes them for good."}
+        </p>
+
+        {trash.length === 0 ? (
+          <p className={`text-center py-6 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>The trash is empty.</p>
+        ) : (
+          <ul className={`divide-y ${darkMode ? 'divide-gray-700' : 'divide-indigo-100'}`}>
+            {trash.map(incident => (
+              <li key={incident.id} className="py-4 flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+                <div>
+                  <Link
+                    to={`/incidents/${incident.id}`}
+                    className={`font-semibold ${darkMode ? 'text-gray-100 hover:text-purple-300' : 'text-gray-800 hover:text-indigo-600'}`}
+                  >
+                    {incident.title}
+                  </Link>
+                  <div className="flex flex-wrap gap-2 items-center mt-1">
+                    <SeverityBadge severity={incident.severity} />
+                    <StatusBadge status={incident.status} />
+                    <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                      Deleted {new Date(incident.deleted_at!).toLocaleString()}
+                      {trashPurgeDays !== null && ` · purged on ${getPurgeDate(incident, trashPurgeDays)!.toLocaleDateString()}`}
+                    </span>
+                  </div>
+                </div>
+                {can("delete") && (
+                  <div className="flex gap-2">
+                    <button className={restoreClass} onClick={() => restoreIncident(incident)}>Restore</button>
+                    <button className={purgeClass} onClick={() => setPendingPurge([incident])}>Delete forever</button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useEffect, useId, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router";
+import SeverityBadge from "../components/SeverityBadge";
+import SlaBadge from "../components/SlaBadge";
+import StatusBadge from "../components/StatusBadge";
+import { useTheme } from "../context/ThemeContext";
+import { getPeople, getTriageQueue } from "../lib/assignment";
+import { canTransition } from "../lib/incidentStatus";
+import { SEVERITIES } from "../lib/severity";
+import { formatDuration } from "../lib/sla";
+import { useIncidentStore } from "../store/IncidentStoreContext";
+
+const KEY_HINTS = [
+  ["j / k", "move"],
+  [`1–${SEVERITIES.length}`, `set severity (${SEVERITIES.map((severity, index) => `${index + 1} ${severity}`).join(", ")})`],
+  ["a", "assign to me"],
+  ["A", "assign to…"],
+  ["x", "close"],
+  ["Enter", "open"],
+];
+
+export default function TriagePage() {
+  const { darkMode } = useTheme();
+  const navigate = useNavigate();
+  const { incidents, loaded, now, currentUser, can, assignIncident, setSeverity, changeStatus } = useIncidentStore();
+  const queue = getTriageQueue(incidents);
+  // Kept as a position so that when the selected incident leaves the queue the next one is selected
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // The incident whose "Assign to…" field is open and its draft name
+  const [assigning, setAssigning] = useState<{ id: number; draft: string } | null>(null);
+  const selectedRef = useRef<HTMLLIElement>(null);
+  const peopleListId = useId();
+
+  const index = Math.min(selectedIndex, queue.length - 1);
+  const selected = index >= 0 ? queue[index] : undefined;
+
+  useEffect(() => {
+    selectedRef.current?.scrollIntoView({ block: "nearest" });
+  }, [index]);
+
+  // Single keys act on the selected incident; text fields and shortcuts with modifiers are left alone
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      const target = event.target as HTMLElement;
+      if (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+
+      const severity = SEVERITIES[Number(event.key) - 1];
+      if (event.key === "j" || event.key === "ArrowDown") {
+        setSelectedIndex(Math.min(index + 1, queue.length - 1));
+      } else if (event.key === "k" || event.key === "ArrowUp") {
+        setSelectedIndex(Math.max(index - 1, 0));
+      } else if (!selected) {
+        return;
+      } else if (/^[1-9]$/.test(event.key) && severity) {
+        setSeverity([selected], severity);
+      } else if (event.key === "a") {
+        assignIncident(selected, currentUser);
+      } else if (event.key === "A" && can("edit", selected)) {
+        setAssigning({ id: selected.id, draft: "" });
+      } else if (event.key === "x") {
+        changeStatus(selected, "Closed");
+      } else if (event.key === "Enter" && target === document.body) {
+        navigate(`/incidents/${selected.id}`);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [index, queue.length, selected, currentUser, can, assignIncident, setSeverity, changeStatus, navigate]);
+
+  const submitAssign = () => {
+    const incident = queue.find(i => i.id === assigning?.id);
+    if (incident && assigning?.draft.trim()) assignIncident(incident, assigning.draft);
+    setAssigning(null);
+  };
+
+  const buttonClass = `px-3 py-1 text-sm rounded-md transition-colors duration-150 focus:outline-none focus:ring-2 shadow-sm focus:ring-opacity-50`;
+  const actionClass = `${buttonClass} ${darkMode
+    ? 'text-purple-400 border border-purple-700 hover:bg-purple-900/30 focus:ring-purple-500'
+    : 'text-indigo-600 border border-indigo-200 hover:bg-indigo-50 focus:ring-indigo-500'}`;
+  const closeClass = `${buttonClass} ${darkMode
+    ? 'text-gray-300 border border-gray-600 hover:bg-gray-700 focus:ring-gray-500'
+    : 'text-gray-700 border border-gray-300 hover:bg-gray-50 focus:ring-gray-400'}`;
+  const fieldClass = `px-3 py-1 rounded-md text-sm border ${darkMode
+    ? 'bg-gray-700 text-gray-200 border-gray-600 focus:ring-purple-500'
+    : 'bg-white text-gray-700 border-indigo-200 focus:ring-indigo-500'} focus:outline-none focus:ring-2`;
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      <div className={`${darkMode
+        ? 'bg-gray-800 border-gray-700'
+        : 'bg-white border-indigo-100'} rounded-xl shadow-md p-6 border transition-colors duration-300`}>
+        <h2 className={`text-xl font-bold pb-2 mb-2 border-b ${darkMode ? 'text-gray-100 border-gray-700' : 'text-indigo-900 border-indigo-100'}`}>
+          Triage ({queue.length})
+        </h2>
+        <p className={`text-sm mb-2 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Unassigned active incidents, most severe first and then longest waiting. Assigning or closing one takes it off the queue.
+        </p>
+        <ul className={`flex flex-wrap gap-x-4 gap-y-1 text-xs mb-4 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {KEY_HINTS.map(([key, action]) => (
+            <li key={key}>
+              <kbd className={`px-1.5 py-0.5 rounded border font-mono ${darkMode ? 'border-gray-600 bg-gray-700 text-gray-200' : 'border-gray-300 bg-gray-50 text-gray-700'}`}>{key}</kbd> {action}
+            </li>
+          ))}
+        </ul>
+
+        {queue.length === 0 ? (
+          <p className={`text-center py-6 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+            {loaded ? "Nothing to triage. Every active incident has an owner." : "Loading incidents…"}
+          </p>
+        ) : (
+          <ul className={`divide-y ${darkMode ? 'divide-gray-700' : 'divide-indigo-100'}`}>
+            {queue.map((incident, position) => {
+              const isSelected = position === index;
+              const canEdit = can("edit", incident);
+              return (
+                <li
+                  key={incident.id}
+                  ref={isSelected ? selectedRef : undefined}
+                  aria-current={isSelected}
+                  onClick={() => setSelectedIndex(position)}
+                  className={`py-3 px-3 -mx-3 rounded-lg flex flex-col gap-2 transition-colors ${isSelected
+                    ? (darkMode ? 'bg-purple-900/30 ring-2 ring-purple-500' : 'bg-indigo-50 ring-2 ring-indigo-400')
+                    : ''}`}
+                >
+                  <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2">
+                    <div>
+                      <Link
+                        to={`/incidents/${incident.id}`}
+                        className={`font-semibold ${darkMode ? 'text-gray-100 hover:text-purple-300' : 'text-gray-800 hover:text-indigo-600'}`}
+                      >
+                        {incident.title}
+                      </Link>
+                      <div className="flex flex-wrap gap-2 items-center mt-1">
+                        <SeverityBadge severity={incident.severity} />
+                        <StatusBadge status={incident.status} />
+                        <SlaBadge incident={incident} />
+                        <span className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                          Reported {formatDuration(now - Date.parse(incident.reported_at))} ago
+                          {incident.reporter && ` by ${incident.reporter}`}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      {canEdit && (
+                        <>
+                          <button className={actionClass} onClick={() => assignIncident(incident, currentUser)}>Assign to me</button>
+                          <button className={actionClass} onClick={() => setAssigning({ id: incident.id, draft: "" })}>Assign to…</button>
+                        </>
+                      )}
+                      {can("status") && canTransition(incident.status, "Closed") && (
+                        <button className={closeClass} onClick={() => changeStatus(incident, "Closed")}>Close</button>
+                      )}
+                    </div>
+                  </div>
+                  {assigning?.id === incident.id && (
+                    <form
+                      className="flex gap-2 items-center"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        submitAssign();
+                      }}
+                    >
+                      <input
+                        autoFocus
+                        aria-label={`Assign ${incident.title} to`}
+                        placeholder="Name"
+                        list={peopleListId}
+                        value={assigning.draft}
+                        onChange={(e) => setAssigning({ id: incident.id, draft: e.target.value })}
+                        onKeyDown={(e) => e.key === "Escape" && setAssigning(null)}
+                        className={fieldClass}
+                      />
+                      <button type="submit" className={actionClass} disabled={!assigning.draft.trim()}>Assign</button>
+                      <button type="button" className={closeClass} onClick={() => setAssigning(null)}>Cancel</button>
+                    </form>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <datalist id={peopleListId}>
+          {getPeople(incidents).map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+    </div>
+  );
+}
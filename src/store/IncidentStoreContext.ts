@@ -0,0 +1,127 @@
+import { createContext, useContext } from "react";
+import type { IncidentTaxonomy } from "../config/taxonomy";
+import type { DataSourceMode, IncidentDataSource } from "../data/dataSource";
+import type { Attachment } from "../db/attachmentRepository";
+import type { IncidentEdit } from "../lib/incidentRevisions";
+import type { ImportPlan } from "../lib/incidentTransfer";
+import type { Permission, Role } from "../lib/roles";
+import type { SlaSettings } from "../lib/sla";
+import type { TagSummary } from "../lib/tags";
+import type { NotificationSettings } from "../notifications/incidentAlerts";
+import type { IncidentSyncStatus } from "../components/SyncIndicator";
+import type { SyncState } from "../sync/syncEngine";
+import type { Incident, IncidentLinkType, IncidentStatus, IncidentTranscript, Severity } from "../types";
+
+export interface IncidentReport {
+  title: string;
+  description: string;
+  severity: Severity;
+  taxonomy: IncidentTaxonomy;
+  tags: string[];
+}
+
+/**
+ * Incidents and the settings that decide where they are stored and who is
+ * changing them. Every mutation persists through the active data source,
+ * reports the outcome with a toast and can be undone.
+ */
+export interface IncidentStore {
+  // Incidents outside the trash
+  incidents: Incident[];
+  trashedIncidents: Incident[];
+  loaded: boolean;
+
+  // Name recorded against status transitions and edits
+  userName: string;
+  setUserName: (name: string) => void;
+  currentUser: string;
+  // What this user may do; chosen in settings and enforced by every action below
+  role: Role;
+  setRole: (role: Role) => void;
+  // Pass the incident for edits, which reporters may make to their own Open incidents
+  can: (permission: Permission, incident?: Incident) => boolean;
+
+  dataSourceMode: DataSourceMode;
+  setDataSourceMode: (mode: DataSourceMode) => void;
+  dataSource: IncidentDataSource;
+
+  // Days a deleted incident stays in the trash before it is purged; 0 keeps it
+  trashRetentionDays: number;
+  setTrashRetentionDays: (days: number) => void;
+  // The period actually applied: null when nothing is purged automatically,
+  // which is always the case for the shared (remote and sync) data sources
+  trashPurgeDays: number | null;
+
+  // Per-severity acknowledgement and resolution targets, kept in this browser
+  slaSettings: SlaSettings;
+  setSlaSettings: (settings: SlaSettings) => void;
+  // Refreshed every 30 seconds so SLA countdowns stay current
+  now: number;
+
+  // Browser notifications for severe incidents, kept in this browser
+  notificationSettings: NotificationSettings;
+  setNotificationSettings: (settings: NotificationSettings) => void;
+
+  syncState: SyncState;
+  isSyncMode: boolean;
+  getSyncStatus: (id: number) => IncidentSyncStatus;
+
+  // Returns the new incident, or null if the report is incomplete.
+  // `duplicateOf` files it as a duplicate of an existing incident.
+  reportIncident: (report: IncidentReport, duplicateOf?: number) => Incident | null;
+  changeStatus: (incident: Incident, to: IncidentStatus) => void;
+  // Returns false if the values are invalid and the form should stay open
+  editIncident: (incident: Incident, values: IncidentEdit) => boolean;
+  // Pass null to unassign
+  assignIncident: (incident: Incident, assignee: string | null) => void;
+  revertIncident: (incident: Incident, revisionId: number) => void;
+  // Comments are written as the current user, who alone can edit or delete them.
+  // Adding and editing return false if the text is empty.
+  addComment: (incident: Incident, body: string) => boolean;
+  editComment: (incident: Incident, commentId: number, body: string) => boolean;
+  deleteComment: (incident: Incident, commentId: number) => void;
+  // Pass null to unpin
+  pinRootCause: (incident: Incident, commentId: number | null) => void;
+  // Replaces the whole transcript, highlights included; null removes it
+  setTranscript: (incident: Incident, transcript: IncidentTranscript | null) => void;
+  // Links are stored on `source`; unlinking edits whichever incident holds the link
+  linkIncidents: (source: Incident, type: IncidentLinkType, target: Incident) => void;
+  unlinkIncidents: (source: Incident, type: IncidentLinkType, targetId: number) => void;
+
+  // Evidence files, stored in this browser and deleted with their incident.
+  // Files over the size limit are rejected with a toast.
+  attachments: Attachment[];
+  addAttachments: (incident: Incident, files: File[]) => Promise<void>;
+  removeAttachment: (attachment: Attachment) => Promise<void>;
+  // Batches below are written in one transaction and undone in one step.
+  // Deleting moves incidents to the trash.
+  deleteIncidents: (incidents: Incident[]) => void;
+  setSeverity: (incidents: Incident[], severity: Severity) => void;
+  tagIncidents: (incidents: Incident[], tags: string[]) => void;
+
+  // Every known tag with its usage count, most used first
+  tags: TagSummary[];
+  // Applies to all incidents; renaming onto an existing tag merges them
+  renameTag: (from: string, to: string) => void;
+  deleteTag: (name: string) => void;
+  restoreIncident: (incident: Incident) => void;
+  // Removes incidents for good
+  purgeIncidents: (incidents: Incident[]) => void;
+  // Resolves to whether the import was written
+  importIncidents: (plan: ImportPlan) => Promise<boolean>;
+
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+}
+
+export const IncidentStoreContext = createContext<IncidentStore | null>(null);
+
+export const useIncidentStore = (): IncidentStore => {
+  const store = useContext(IncidentStoreContext);
+  if (!store) {
+    throw new Error("useIncidentStore must be used inside IncidentStoreProvider");
+  }
+  return store;
+};
@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useReducer, useRef, useState, type ReactNode } from "react";
+import { toast } from "react-toastify";
+import {
+  getDataSource,
+  getSavedDataSourceMode,
+  saveDataSourceMode,
+  type DataSourceMode,
+  type IncidentDataSource,
+} from "../data/dataSource";
+import { StaleWriteError } from "../db/incidentRepository";
+import type { ImportPlan } from "../lib/incidentTransfer";
+import { stampIncident } from "../lib/incidentVersion";
+import {
+  DEFAULT_ROLE,
+  PERMISSION_LABELS,
+  ROLE_LABELS,
+  can as roleCan,
+  isRole,
+  type Permission,
+  type Role,
+} from "../lib/roles";
+import { isTrashed } from "../lib/trash";
+import { createEntry, type TargetState } from "../lib/undoHistory";
+import type { Incident } from "../types";
+import { IncidentStoreContext, type IncidentStore } from "./IncidentStoreContext";
+import { createCommentActions } from "./commentActions";
+import { createIncidentActions } from "./incidentActions";
+import { incidentReducer, initialIncidentState } from "./incidentReducer";
+import { pluralize, type StoreActionContext } from "./storeActions";
+import { postTabMessage, subscribeToTabMessages } from "./tabChannel";
+import { createTagActions } from "./tagActions";
+import { createTrashActions } from "./trashActions";
+import { useAttachments } from "./useAttachments";
+import { publishEscalations, useSlaAlerts } from "./useSlaAlerts";
+import { useSyncMode } from "./useSyncMode";
+import { useTagRegistry } from "./useTagRegistry";
+import { useTrashRetention } from "./useTrashRetention";
+import { useUndoHistory } from "./useUndoHistory";
+
+/**
+ * Holds the incidents and settings, and writes every change through the active
+ * data source. Each domain's state and actions live in their own module; this
+ * composes them into the store.
+ */
+export default function IncidentStoreProvider({ children }: { children: ReactNode }) {
+  const [{ incidents: allIncidents, loaded }, dispatch] = useReducer(incidentReducer, initialIncidentState);
+  // The trash is part of the same collection; pages only ever see one side of it
+  const incidents = useMemo(() => allIncidents.filter(incident => !isTrashed(incident)), [allIncidents]);
+  const trashedIncidents = useMemo(() => allIncidents.filter(isTrashed), [allIncidents]);
+
+  const [userName, setUserName] = useState(() => localStorage.getItem('userName') || "");
+
+  useEffect(() => {
+    localStorage.setItem('userName', userName);
+  }, [userName]);
+
+  const currentUser = userName.trim() || "Anonymous";
+
+  const [role, setRole] = useState<Role>(() => {
+    const saved = localStorage.getItem('userRole');
+    return isRole(saved) ? saved : DEFAULT_ROLE;
+  });
+
+  useEffect(() => {
+    localStorage.setItem('userRole', role);
+  }, [role]);
+
+  const can = (permission: Permission, incident?: Incident) =>
+    roleCan({ name: currentUser, role }, permission, incident);
+
+  // Guards each action; the UI hides what the role can't do, so this mostly
+  // catches keyboard shortcuts and stale pages after a role change
+  const allows = (permission: Permission, incidents: (Incident | undefined)[] = [undefined]) => {
+    if (incidents.every(incident => can(permission, incident))) return true;
+    toast.error(`As a ${ROLE_LABELS[role].toLowerCase()} you can't ${PERMISSION_LABELS[permission]}`);
+    return false;
+  };
+
+  // Browser-local IndexedDB, the shared team server, or an offline-first replica of it
+  const [dataSourceMode, setDataSourceMode] = useState<DataSourceMode>(getSavedDataSourceMode);
+  const dataSource = useMemo(() => getDataSource(dataSourceMode), [dataSourceMode]);
+
+  useEffect(() => {
+    saveDataSourceMode(dataSourceMode);
+  }, [dataSourceMode]);
+
+  // Which data source the incidents in state came from; unset while switching
+  const loadedSourceRef = useRef<IncidentDataSource | null>(null);
+
+  // Load incidents on start and whenever the data source changes
+  useEffect(() => {
+    let cancelled = false;
+    dispatch({ type: "loading" });
+    dataSource.load()
+      .then(data => {
+        if (cancelled) return;
+        loadedSourceRef.current = dataSource;
+        dispatch({ type: "loaded", incidents: data });
+      })
+      .catch(error => {
+        console.error("Failed to load incidents:", error);
+        toast.error(`Could not load incidents from ${dataSource.label}`);
+        if (!cancelled) dispatch({ type: "loaded", incidents: [] });
+      });
+    return () => {
+      cancelled = true;
+      loadedSourceRef.current = null;
+    };
+  }, [dataSource]);
+
+  // Other tabs post what they commit; apply it so every open tab shows the same incidents
+  useEffect(() =>
+    subscribeToTabMessages(message => {
+      if (message.type === "incidents" && message.mode === dataSource.mode) {
+        dispatch({ type: "merged", incidents: message.puts, removedIds: message.removedIds });
+      }
+    }),
+  [dataSource]);
+
+  const tagRegistry = useTagRegistry(incidents);
+  const { rememberTags } = tagRegistry;
+  const {
+    removeIncidentAttachments,
+    restoreIncidentAttachments,
+    discardIncidentAttachments,
+    ...attachmentActions
+  } = useAttachments({ allIncidents, allows });
+  const trashRetention = useTrashRetention({
+    dataSource,
+    loaded,
+    allIncidents,
+    loadedSourceRef,
+    dispatch,
+    discardIncidentAttachments,
+  });
+  const slaAlerts = useSlaAlerts(incidents, loaded);
+  const sync = useSyncMode(dataSourceMode, dataSource, dispatch);
+
+  // Replacing an existing record bumps its version; new records keep their own
+  const withNextVersion = (incident: Incident) => {
+    const previous = allIncidents.find(i => i.id === incident.id);
+    return previous ? stampIncident(incident, previous) : incident;
+  };
+
+  // Write-through: update state and persist only the affected records. A null
+  // state removes the record. Anything beyond a single record is written as one
+  // transaction; if the write fails the state is reloaded so it never shows
+  // unsaved changes.
+  // Versions follow each state's base rather than the latest copy in memory, so
+  // the store refuses a write whose base another tab has replaced since.
+  // Returns the copies written.
+  const writeStates = (states: TargetState[]) => {
+    const puts = states.flatMap(({ incident, base }) => (incident ? [base ? stampIncident(incident, base) : incident] : []));
+    const removals = states.filter(({ incident }) => !incident);
+    const removedIds = removals.map(({ id }) => id);
+    if (puts.length > 0) dispatch({ type: "upserted", incidents: puts });
+    if (removedIds.length > 0) dispatch({ type: "removed", ids: removedIds });
+    rememberTags(puts.flatMap(incident => incident.tags));
+    if (removedIds.length > 0) removeIncidentAttachments(removedIds);
+    restoreIncidentAttachments(puts.map(incident => incident.id));
+    publishEscalations(puts, allIncidents);
+
+    const versions = new Map(removals.flatMap(({ id, base }) => (base ? [[id, base.version] as const] : [])));
+    const persisted = puts.length === 1 && removals.length === 0
+      ? dataSource.save(puts[0])
+      : puts.length === 0 && removals.length === 1
+        ? dataSource.remove(removedIds[0], versions.get(removedIds[0]))
+        : dataSource.applyChanges(puts, removedIds, versions);
+    persisted
+      .then(() => postTabMessage({ type: "incidents", mode: dataSource.mode, puts, removedIds }))
+      .catch(async error => {
+        console.error("Failed to save incidents:", error);
+        toast.error(error instanceof StaleWriteError
+          ? "Another tab changed this first, so your change wasn't saved. Showing the latest version."
+          : puts.length === 1 && removedIds.length === 0
+            ? `Could not save "${puts[0].title}"`
+            : "Could not save changes");
+        await reloadAfterFailedWrite(states);
+      });
+    return puts;
+  };
+
+  // After a failed write, show what is actually stored. If that can't be read
+  // either (e.g. the server is down), put back the copies the write replaced.
+  const reloadAfterFailedWrite = async (states: Pick<TargetState, "id" | "base">[]) => {
+    try {
+      dispatch({ type: "loaded", incidents: await dataSource.load() });
+    } catch (error) {
+      console.error("Failed to reload incidents:", error);
+      const restored = states.flatMap(({ base }) => (base ? [base] : []));
+      const addedIds = states.filter(({ base }) => !base).map(({ id }) => id);
+      if (restored.length > 0) dispatch({ type: "upserted", incidents: restored });
+      if (addedIds.length > 0) dispatch({ type: "removed", ids: addedIds });
+    }
+  };
+
+  const { commit, record, ...history } = useUndoHistory(dataSource, allIncidents, writeStates);
+  const context: StoreActionContext = { allIncidents, currentUser, allows, commit };
+
+  const importIncidents = async (plan: ImportPlan) => {
+    if (!allows("manage")) return false;
+    const updates = [...plan.added, ...plan.overwritten].map(withNextVersion);
+    const changes = updates.map(incident => ({
+      id: incident.id,
+      before: allIncidents.find(i => i.id === incident.id) ?? null,
+      after: incident,
+    }));
+    dispatch({ type: "upserted", incidents: updates });
+    try {
+      await dataSource.saveMany(updates);
+      postTabMessage({ type: "incidents", mode: dataSource.mode, puts: updates, removedIds: [] });
+      rememberTags(updates.flatMap(incident => incident.tags));
+      record(createEntry(`Imported ${pluralize(updates.length)}`, changes));
+      return true;
+    } catch (error) {
+      console.error("Failed to import incidents:", error);
+      toast.error("Import failed; no incidents were written");
+      await reloadAfterFailedWrite(changes.map(({ id, before }) => ({ id, base: before })));
+      return false;
+    }
+  };
+
+  const store: IncidentStore = {
+    incidents,
+    trashedIncidents,
+    loaded,
+    userName,
+    setUserName,
+    currentUser,
+    role,
+    setRole,
+    can,
+    dataSourceMode,
+    setDataSourceMode,
+    dataSource,
+    ...trashRetention,
+    ...slaAlerts,
+    ...sync,
+    ...createIncidentActions(context),
+    ...createCommentActions(context),
+    ...attachmentActions,
+    ...createTrashActions(context),
+    tags: tagRegistry.tags,
+    ...createTagActions(context, tagRegistry),
+    importIncidents,
+    ...history,
+  };
+
+  return <IncidentStoreContext.Provider value={store}>{children}</IncidentStoreContext.Provider>;
+}
@@ -0,0 +1,69 @@
+import { toast } from "react-toastify";
+import {
+  MAX_COMMENT_LENGTH,
+  addComment as appendComment,
+  deleteComment as removeComment,
+  editComment as updateComment,
+  isOwnComment,
+  pinRootCause as setRootCause,
+} from "../lib/comments";
+import type { Incident } from "../types";
+import type { StoreActionContext } from "./storeActions";
+
+export const createCommentActions = ({ currentUser, allows, commit }: StoreActionContext) => {
+  const isValidComment = (body: string) => {
+    if (!body.trim()) {
+      toast.error("Comment cannot be empty");
+      return false;
+    }
+    if (body.length > MAX_COMMENT_LENGTH) {
+      toast.error(`Comments are limited to ${MAX_COMMENT_LENGTH.toLocaleString()} characters`);
+      return false;
+    }
+    return true;
+  };
+
+  // Looks up a comment the current user may change, toasting if they can't
+  const findOwnComment = (incident: Incident, commentId: number) => {
+    const comment = incident.comments.find(c => c.id === commentId);
+    if (!comment) return undefined;
+    if (!isOwnComment(comment, currentUser)) {
+      toast.error("You can only change your own comments");
+      return undefined;
+    }
+    return comment;
+  };
+
+  const addComment = (incident: Incident, body: string) => {
+    if (!isValidComment(body)) return false;
+    const updated = appendComment(incident, body, currentUser);
+    commit(`Commented on "${incident.title}"`, [{ id: incident.id, before: incident, after: updated }]);
+    return true;
+  };
+
+  const editComment = (incident: Incident, commentId: number, body: string) => {
+    if (!isValidComment(body)) return false;
+    const comment = findOwnComment(incident, commentId);
+    if (!comment) return true;
+    if (comment.body === body.trim()) return true;
+    const updated = updateComment(incident, commentId, body);
+    commit(`Edited a comment on "${incident.title}"`, [{ id: incident.id, before: incident, after: updated }]);
+    return true;
+  };
+
+  const deleteComment = (incident: Incident, commentId: number) => {
+    if (!findOwnComment(incident, commentId)) return;
+    const updated = removeComment(incident, commentId);
+    commit(`Deleted a comment on "${incident.title}"`, [{ id: incident.id, before: incident, after: updated }], "info");
+  };
+
+  const pinRootCause = (incident: Incident, commentId: number | null) => {
+    if (!allows("edit", [incident])) return;
+    if (incident.root_cause_comment_id === commentId) return;
+    const updated = setRootCause(incident, commentId);
+    const label = commentId === null ? `Unpinned the root cause of "${incident.title}"` : `Pinned the root cause of "${incident.title}"`;
+    commit(label, [{ id: incident.id, before: incident, after: updated }]);
+  };
+
+  return { addComment, editComment, deleteComment, pinRootCause };
+};
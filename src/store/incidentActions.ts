@@ -0,0 +1,157 @@
+import { toast } from "react-toastify";
+import { LINK_LABELS, addLink, createLink, hasLink, removeLink } from "../lib/incidentLinks";
+import {
+  applyIncidentEdit,
+  getEditableValues,
+  revertToRevision,
+  toTaxonomy,
+  type IncidentEdit,
+} from "../lib/incidentRevisions";
+import { createInitialTransition, transitionIncident } from "../lib/incidentStatus";
+import { parseTags } from "../lib/tags";
+import { createAlert, publishAlert } from "../notifications/incidentAlerts";
+import type { Incident, IncidentLinkType, IncidentStatus, IncidentTranscript, Severity } from "../types";
+import type { IncidentReport } from "./IncidentStoreContext";
+import { pluralize, type StoreActionContext } from "./storeActions";
+
+export const createIncidentActions = ({ allIncidents, currentUser, allows, commit }: StoreActionContext) => {
+  const reportIncident = ({ title, description, severity, taxonomy, tags }: IncidentReport, duplicateOf?: number) => {
+    if (!allows("create")) return null;
+    if (!title.trim() || !description.trim()) {
+      toast.error("Please fill all fields");
+      return null;
+    }
+    const reportedAt = new Date().toISOString();
+    const incident: Incident = {
+      id: Date.now(), // Use timestamp as unique ID
+      title: title.trim(),
+      description: description.trim(),
+      severity,
+      reported_at: reportedAt,
+      reporter: currentUser,
+      assignee: null,
+      status: "Open",
+      status_history: [createInitialTransition(reportedAt, currentUser)],
+      revisions: [],
+      taxonomy: toTaxonomy(taxonomy),
+      deleted_at: null,
+      tags: parseTags(tags.join(",")),
+      comments: [],
+      root_cause_comment_id: null,
+      transcript: null,
+      links: duplicateOf === undefined ? [] : [createLink("duplicate_of", duplicateOf, currentUser, reportedAt)],
+      version: 1,
+      updated_at: reportedAt,
+    };
+    commit(`Added "${incident.title}"`, [{ id: incident.id, before: null, after: incident }]);
+    publishAlert(createAlert("created", incident, { detail: `Reported by ${currentUser}` }));
+    return incident;
+  };
+
+  const changeStatus = (incident: Incident, to: IncidentStatus) => {
+    if (!allows("status")) return;
+    try {
+      const updated = transitionIncident(incident, to, currentUser);
+      commit(`Moved "${incident.title}" to ${to}`, [{ id: incident.id, before: incident, after: updated }]);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const editIncident = (incident: Incident, values: IncidentEdit) => {
+    if (!allows("edit", [incident])) return false;
+    if (!values.title || !values.description) {
+      toast.error("Please fill all fields");
+      return false;
+    }
+    const updated = applyIncidentEdit(incident, values, currentUser);
+    if (updated === incident) {
+      toast.info("No changes to save");
+      return true;
+    }
+    commit(`Updated "${updated.title}"`, [{ id: incident.id, before: incident, after: updated }]);
+    return true;
+  };
+
+  // Recorded as an edit, so the assignment shows in the revision history
+  const assignIncident = (incident: Incident, assignee: string | null) => {
+    if (!allows("edit", [incident])) return;
+    const name = assignee?.trim() || null;
+    const updated = applyIncidentEdit(incident, { ...getEditableValues(incident), assignee: name ?? "" }, currentUser);
+    if (updated === incident) return;
+    commit(
+      name ? `Assigned "${incident.title}" to ${name}` : `Unassigned "${incident.title}"`,
+      [{ id: incident.id, before: incident, after: updated }]
+    );
+  };
+
+  const revertIncident = (incident: Incident, revisionId: number) => {
+    if (!allows("edit", [incident])) return;
+    const updated = revertToRevision(incident, revisionId, currentUser);
+    if (updated === incident) {
+      toast.info("Incident already matches that version");
+      return;
+    }
+    commit(`Reverted "${updated.title}"`, [{ id: incident.id, before: incident, after: updated }]);
+  };
+
+  const linkIncidents = (source: Incident, type: IncidentLinkType, target: Incident) => {
+    if (!allows("edit", [source])) return;
+    if (source.id === target.id) {
+      toast.error("An incident can't be linked to itself");
+      return;
+    }
+    if (hasLink(allIncidents, source, type, target.id)) {
+      toast.info("Those incidents are already linked that way");
+      return;
+    }
+    const updated = addLink(source, createLink(type, target.id, currentUser));
+    commit(
+      `Linked "${source.title}" as ${LINK_LABELS[type].toLowerCase()} "${target.title}"`,
+      [{ id: source.id, before: source, after: updated }]
+    );
+  };
+
+  const unlinkIncidents = (source: Incident, type: IncidentLinkType, targetId: number) => {
+    if (!allows("edit", [source])) return;
+    const updated = removeLink(source, type, targetId);
+    commit(`Removed a link from "${source.title}"`, [{ id: source.id, before: source, after: updated }], "info");
+  };
+
+  const setTranscript = (incident: Incident, transcript: IncidentTranscript | null) => {
+    if (!allows("edit", [incident])) return;
+    const label = transcript
+      ? `${incident.transcript ? "Updated" : "Added"} the transcript of "${incident.title}"`
+      : `Removed the transcript of "${incident.title}"`;
+    commit(label, [{ id: incident.id, before: incident, after: { ...incident, transcript } }], transcript ? "success" : "info");
+  };
+
+  // Incidents that already match are left out of the batch
+  const setSeverity = (targets: Incident[], severity: Severity) => {
+    if (!allows("edit", targets)) return;
+    const changes = targets
+      .map(incident => ({
+        id: incident.id,
+        before: incident,
+        after: applyIncidentEdit(incident, { ...getEditableValues(incident), severity }, currentUser),
+      }))
+      .filter(change => change.after !== change.before);
+    if (changes.length === 0) {
+      toast.info(`Already ${severity}`);
+      return;
+    }
+    commit(`Set ${pluralize(changes.length)} to ${severity}`, changes);
+  };
+
+  return {
+    reportIncident,
+    changeStatus,
+    editIncident,
+    assignIncident,
+    revertIncident,
+    linkIncidents,
+    unlinkIncidents,
+    setTranscript,
+    setSeverity,
+  };
+};
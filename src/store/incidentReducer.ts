@@ -0,0 +1,46 @@
+import type { Incident } from "../types";
+
+export interface IncidentState {
+  incidents: Incident[];
+  // False until the first load from the current data source finishes
+  loaded: boolean;
+}
+
+export type IncidentAction =
+  | { type: "loading" }
+  | { type: "loaded"; incidents: Incident[] }
+  // Inserts new incidents at the top and replaces existing ones in place
+  | { type: "upserted"; incidents: Incident[] }
+  | { type: "removed"; ids: number[] }
+  // Written by another tab; copies no newer than the ones held are ignored
+  | { type: "merged"; incidents: Incident[]; removedIds: number[] };
+
+export const initialIncidentState: IncidentState = { incidents: [], loaded: false };
+
+export const incidentReducer = (state: IncidentState, action: IncidentAction): IncidentState => {
+  switch (action.type) {
+    case "loading":
+      return { ...state, loaded: false };
+    case "loaded":
+      return { incidents: action.incidents, loaded: true };
+    case "upserted": {
+      const byId = new Map(action.incidents.map(incident => [incident.id, incident]));
+      const existingIds = new Set(state.incidents.map(incident => incident.id));
+      return {
+        ...state,
+        incidents: [
+          ...action.incidents.filter(incident => !existingIds.has(incident.id)),
+          ...state.incidents.map(incident => byId.get(incident.id) ?? incident),
+        ],
+      };
+    }
+    case "removed":
+      return { ...state, incidents: state.incidents.filter(incident => !action.ids.includes(incident.id)) };
+    case "merged": {
+      const held = new Map(state.incidents.map(incident => [incident.id, incident.version]));
+      const newer = action.incidents.filter(incident => incident.version > (held.get(incident.id) ?? 0));
+      const merged = incidentReducer(state, { type: "upserted", incidents: newer });
+      return incidentReducer(merged, { type: "removed", ids: action.removedIds });
+    }
+  }
+};
@@ -0,0 +1,18 @@
+import type { Permission } from "../lib/roles";
+import type { IncidentChange } from "../lib/undoHistory";
+import type { Incident } from "../types";
+
+export type ToastKind = "success" | "info";
+
+/** What the provider hands to each group of actions so they can change incidents. */
+export interface StoreActionContext {
+  // Every incident from the current data source, trash included
+  allIncidents: Incident[];
+  currentUser: string;
+  // Whether the current role may do this; toasts when it may not
+  allows: (permission: Permission, incidents?: (Incident | undefined)[]) => boolean;
+  // Writes the changes and records them as one undoable step
+  commit: (label: string, changes: IncidentChange[], kind?: ToastKind) => void;
+}
+
+export const pluralize = (count: number) => `${count} incident${count === 1 ? "" : "s"}`;
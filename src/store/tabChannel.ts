@@ -0,0 +1,22 @@
+import type { DataSourceMode } from "../data/dataSource";
+import type { Incident } from "../types";
+
+/** A change another tab of the dashboard has committed. */
+export type TabMessage =
+  | { type: "incidents"; mode: DataSourceMode; puts: Incident[]; removedIds: number[] }
+  // Kept in this browser whatever the data source, so receivers just reread them
+  | { type: "tags" }
+  | { type: "attachments" };
+
+// Not available everywhere (e.g. older Safari); tabs then only see each other's changes on reload
+const channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel("incident-store");
+
+export const postTabMessage = (message: TabMessage) => {
+  channel?.postMessage(message);
+};
+
+export const subscribeToTabMessages = (listener: (message: TabMessage) => void) => {
+  const handleMessage = (event: MessageEvent<TabMessage>) => listener(event.data);
+  channel?.addEventListener("message", handleMessage);
+  return () => channel?.removeEventListener("message", handleMessage);
+};
@@ -0,0 +1,53 @@
+import { toast } from "react-toastify";
+import { addTags, normalizeTag, replaceTag } from "../lib/tags";
+import type { Incident } from "../types";
+import { pluralize, type StoreActionContext } from "./storeActions";
+import type { TagRegistry } from "./useTagRegistry";
+
+export const createTagActions = (
+  { allIncidents, allows, commit }: StoreActionContext,
+  { tags, rememberTags, forgetTag }: TagRegistry
+) => {
+  const tagIncidents = (targets: Incident[], names: string[]) => {
+    if (!allows("edit", targets)) return;
+    const changes = targets
+      .map(incident => ({ id: incident.id, before: incident, after: addTags(incident, names) }))
+      .filter(change => change.after !== change.before);
+    if (changes.length === 0) {
+      toast.info("Already tagged");
+      return;
+    }
+    commit(`Tagged ${pluralize(changes.length)} with ${names.join(", ")}`, changes);
+  };
+
+  // Renaming onto an existing tag merges the two. Trashed incidents are
+  // included so a restore doesn't bring the old name back.
+  const renameTag = (from: string, toInput: string) => {
+    const to = normalizeTag(toInput);
+    if (!to || to === from || !allows("manage")) return;
+    const merging = tags.some(tag => tag.name === to);
+    const changes = allIncidents
+      .map(incident => ({ id: incident.id, before: incident, after: replaceTag(incident, from, to) }))
+      .filter(change => change.after !== change.before);
+    forgetTag(from);
+    const label = merging ? `Merged tag "${from}" into "${to}"` : `Renamed tag "${from}" to "${to}"`;
+    if (changes.length > 0) {
+      commit(label, changes);
+    } else {
+      rememberTags([to]);
+      toast.success(label);
+    }
+  };
+
+  const deleteTag = (name: string) => {
+    if (!allows("manage")) return;
+    const changes = allIncidents
+      .map(incident => ({ id: incident.id, before: incident, after: replaceTag(incident, name, null) }))
+      .filter(change => change.after !== change.before);
+    forgetTag(name);
+    if (changes.length > 0) commit(`Removed tag "${name}" from ${pluralize(changes.length)}`, changes, "info");
+    else toast.info(`Deleted tag "${name}"`);
+  };
+
+  return { tagIncidents, renameTag, deleteTag };
+};
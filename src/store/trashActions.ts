@@ -0,0 +1,37 @@
+import { unlinkRemoved } from "../lib/incidentLinks";
+import { moveToTrash, restoreFromTrash } from "../lib/trash";
+import type { Incident } from "../types";
+import { pluralize, type StoreActionContext } from "./storeActions";
+
+export const createTrashActions = ({ allIncidents, allows, commit }: StoreActionContext) => {
+  const deleteIncidents = (targets: Incident[]) => {
+    if (targets.length === 0 || !allows("delete")) return;
+    const deletedAt = new Date().toISOString();
+    commit(
+      targets.length === 1 ? `Moved "${targets[0].title}" to the trash` : `Moved ${pluralize(targets.length)} to the trash`,
+      targets.map(incident => ({ id: incident.id, before: incident, after: moveToTrash(incident, deletedAt) })),
+      "info"
+    );
+  };
+
+  const restoreIncident = (incident: Incident) => {
+    if (!allows("delete")) return;
+    commit(`Restored "${incident.title}"`, [{ id: incident.id, before: incident, after: restoreFromTrash(incident) }]);
+  };
+
+  const purgeIncidents = (targets: Incident[]) => {
+    if (targets.length === 0 || !allows("delete")) return;
+    const removedIds = targets.map(incident => incident.id);
+    commit(
+      targets.length === 1 ? `Permanently deleted "${targets[0].title}"` : `Permanently deleted ${pluralize(targets.length)}`,
+      [
+        ...targets.map(incident => ({ id: incident.id, before: incident, after: null })),
+        // Undo brings the links back together with the incidents
+        ...unlinkRemoved(allIncidents, removedIds).map(({ before, after }) => ({ id: before.id, before, after })),
+      ],
+      "info"
+    );
+  };
+
+  return { deleteIncidents, restoreIncident, purgeIncidents };
+};
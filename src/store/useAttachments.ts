@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import {
+  addAttachments as storeAttachments,
+  deleteAttachment,
+  deleteAttachmentsForIncidents,
+  getAttachments,
+  restoreAttachments,
+  type Attachment,
+} from "../db/attachmentRepository";
+import { getAttachmentError } from "../lib/attachments";
+import type { Incident } from "../types";
+import type { StoreActionContext } from "./storeActions";
+import { postTabMessage, subscribeToTabMessages } from "./tabChannel";
+
+/**
+ * Evidence files in this browser, for every incident of every data source.
+ * They aren't versioned with the incidents, so changes to them are saved
+ * straight away rather than through undoable commits.
+ */
+export const useAttachments = ({ allIncidents, allows }: Pick<StoreActionContext, "allIncidents" | "allows">) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Files of permanently deleted incidents, kept for this session so Undo can put them back
+  const purgedAttachmentsRef = useRef(new Map<number, Attachment[]>());
+
+  useEffect(() => {
+    const loadAttachments = () => {
+      getAttachments()
+        .then(setAttachments)
+        .catch(error => console.error("Failed to load attachments:", error));
+    };
+    loadAttachments();
+    return subscribeToTabMessages(message => {
+      if (message.type === "attachments") loadAttachments();
+    });
+  }, []);
+
+  // Deletes the files of removed incidents, remembering them in case the removal is undone
+  const removeIncidentAttachments = (ids: number[]) => {
+    if (!attachments.some(attachment => ids.includes(attachment.incident_id))) return;
+    setAttachments(current => current.filter(attachment => !ids.includes(attachment.incident_id)));
+    deleteAttachmentsForIncidents(ids)
+      .then(removed => {
+        ids.forEach(id => {
+          purgedAttachmentsRef.current.set(id, removed.filter(attachment => attachment.incident_id === id));
+        });
+        postTabMessage({ type: "attachments" });
+      })
+      .catch(error => console.error("Failed to delete attachments:", error));
+  };
+
+  const restoreIncidentAttachments = (ids: number[]) => {
+    const restored = ids.flatMap(id => purgedAttachmentsRef.current.get(id) ?? []);
+    ids.forEach(id => purgedAttachmentsRef.current.delete(id));
+    if (restored.length === 0) return;
+    setAttachments(current => [...current, ...restored]);
+    restoreAttachments(restored)
+      .then(() => postTabMessage({ type: "attachments" }))
+      .catch(error => console.error("Failed to restore attachments:", error));
+  };
+
+  // Deletes the files of purged incidents for good; the caller tells other tabs
+  const discardIncidentAttachments = useCallback((ids: number[]) => {
+    setAttachments(current => current.filter(attachment => !ids.includes(attachment.incident_id)));
+    return deleteAttachmentsForIncidents(ids);
+  }, []);
+
+  const addAttachments = async (incident: Incident, files: File[]) => {
+    if (!allows("edit", [incident])) return;
+    const accepted = files.filter(file => {
+      const error = getAttachmentError(file);
+      if (error) toast.error(error);
+      return !error;
+    });
+    if (accepted.length === 0) return;
+    const createdAt = new Date().toISOString();
+    try {
+      const added = await storeAttachments(accepted.map(file => ({
+        incident_id: incident.id,
+        name: file.name,
+        type: file.type,
+        size: file.size,
+        created_at: createdAt,
+        blob: file,
+      })));
+      setAttachments(current => [...current, ...added]);
+      postTabMessage({ type: "attachments" });
+      toast.success(`Attached ${added.length === 1 ? `"${added[0].name}"` : `${added.length} files`} to "${incident.title}"`);
+    } catch (error) {
+      console.error("Failed to store attachments:", error);
+      toast.error((error as DOMException).name === "QuotaExceededError"
+        ? "Not enough browser storage left for these files"
+        : "Could not save the attachments");
+    }
+  };
+
+  const removeAttachment = async (attachment: Attachment) => {
+    if (!allows("edit", [allIncidents.find(incident => incident.id === attachment.incident_id)])) return;
+    try {
+      await deleteAttachment(attachment.id);
+      setAttachments(current => current.filter(a => a.id !== attachment.id));
+      postTabMessage({ type: "attachments" });
+      toast.info(`Removed "${attachment.name}"`);
+    } catch (error) {
+      console.error("Failed to delete attachment:", error);
+      toast.error(`Could not remove "${attachment.name}"`);
+    }
+  };
+
+  return {
+    attachments,
+    addAttachments,
+    removeAttachment,
+    removeIncidentAttachments,
+    restoreIncidentAttachments,
+    discardIncidentAttachments,
+  };
+};
@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import { compareSeverity } from "../lib/severity";
+import { SLA_LEVEL_RANK, getSlaStatus, normalizeSlaSettings, type SlaLevel, type SlaSettings } from "../lib/sla";
+import { isTrashed } from "../lib/trash";
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  createAlert,
+  publishAlert,
+  type NotificationSettings,
+} from "../notifications/incidentAlerts";
+import type { Incident } from "../types";
+
+// How often SLA countdowns and escalations are re-evaluated
+const SLA_TICK_MS = 30 * 1000;
+
+const loadSlaSettings = (): SlaSettings => {
+  try {
+    return normalizeSlaSettings(JSON.parse(localStorage.getItem('slaSettings') ?? "{}"));
+  } catch {
+    return normalizeSlaSettings({});
+  }
+};
+
+/** Alerts for incidents in `written` whose severity went up from their copy in `previous`. */
+export const publishEscalations = (written: Incident[], previous: Incident[]) => {
+  written.forEach(incident => {
+    const before = previous.find(i => i.id === incident.id);
+    if (before && !isTrashed(incident) && compareSeverity(incident.severity, before.severity) > 0) {
+      publishAlert(createAlert("escalated", incident, {
+        previousSeverity: before.severity,
+        detail: `${before.severity} → ${incident.severity}`,
+      }));
+    }
+  });
+};
+
+/**
+ * SLA and notification settings, kept in this browser, and the SLA clock.
+ * Warns once when an incident's SLA level gets worse.
+ */
+export const useSlaAlerts = (incidents: Incident[], loaded: boolean) => {
+  const [slaSettings, setSlaSettings] = useState(loadSlaSettings);
+
+  useEffect(() => {
+    localStorage.setItem('slaSettings', JSON.stringify(slaSettings));
+  }, [slaSettings]);
+
+  // Shared clock for every SLA countdown
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), SLA_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(() => {
+    try {
+      return { ...DEFAULT_NOTIFICATION_SETTINGS, ...JSON.parse(localStorage.getItem('notificationSettings') ?? "{}") };
+    } catch {
+      return DEFAULT_NOTIFICATION_SETTINGS;
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem('notificationSettings', JSON.stringify(notificationSettings));
+  }, [notificationSettings]);
+
+  // Levels seen on load are recorded silently so a reload doesn't repeat every warning
+  const slaLevelsRef = useRef<Map<string, SlaLevel> | null>(null);
+
+  useEffect(() => {
+    if (!loaded) {
+      slaLevelsRef.current = null;
+      return;
+    }
+    const previous = slaLevelsRef.current;
+    const levels = new Map<string, SlaLevel>();
+    incidents.forEach(incident => {
+      const status = getSlaStatus(incident, slaSettings, now);
+      if (!status) return;
+      const key = `${incident.id}:${status.phase}`;
+      levels.set(key, status.level);
+      const before = previous?.get(key) ?? "on_track";
+      if (!previous || SLA_LEVEL_RANK[status.level] <= SLA_LEVEL_RANK[before]) return;
+      const target = status.phase === "acknowledge" ? "acknowledgement" : "resolution";
+      const detail = status.level === "breached" ? `Past its ${target} SLA` : `Close to its ${target} SLA`;
+      if (status.level === "breached") {
+        toast.error(`"${incident.title}" is past its ${target} SLA`, { toastId: `sla-${key}` });
+      } else {
+        toast.warn(`"${incident.title}" is close to its ${target} SLA`, { toastId: `sla-${key}` });
+      }
+      // Every tab runs this check itself, so there is nothing to broadcast
+      publishAlert(createAlert("sla", incident, { detail }), { localOnly: true });
+    });
+    slaLevelsRef.current = levels;
+  }, [loaded, incidents, slaSettings, now]);
+
+  return { slaSettings, setSlaSettings, now, notificationSettings, setNotificationSettings };
+};
@@ -0,0 +1,35 @@
+import { useEffect, type Dispatch } from "react";
+import type { DataSourceMode, IncidentDataSource } from "../data/dataSource";
+import type { IncidentSyncStatus } from "../components/SyncIndicator";
+import { syncEngine } from "../sync/syncClient";
+import { useSyncState } from "../sync/useSyncState";
+import type { IncidentAction } from "./incidentReducer";
+
+/** Offline-first mode: runs the sync engine and reloads the replica when it pulls changes. */
+export const useSyncMode = (
+  dataSourceMode: DataSourceMode,
+  dataSource: IncidentDataSource,
+  dispatch: Dispatch<IncidentAction>
+) => {
+  const syncState = useSyncState();
+  const isSyncMode = dataSourceMode === "sync";
+
+  useEffect(() => {
+    if (!isSyncMode) return;
+    syncEngine.start();
+    return () => syncEngine.stop();
+  }, [isSyncMode]);
+
+  useEffect(() => {
+    if (isSyncMode && syncState.dataVersion > 0) {
+      dataSource.load().then(data => dispatch({ type: "loaded", incidents: data }));
+    }
+  }, [isSyncMode, dataSource, syncState.dataVersion, dispatch]);
+
+  const getSyncStatus = (id: number): IncidentSyncStatus =>
+    syncState.conflicts.some(conflict => conflict.id === id)
+      ? "conflict"
+      : syncState.pendingIds.includes(id) ? "pending" : "synced";
+
+  return { syncState, isSyncMode, getSyncStatus };
+};
@@ -0,0 +1,46 @@
+import { useEffect, useMemo, useState } from "react";
+import { getTagRecords, registerTags, unregisterTags } from "../db/tagRepository";
+import { summarizeTags } from "../lib/tags";
+import type { Incident } from "../types";
+import { postTabMessage, subscribeToTabMessages } from "./tabChannel";
+
+export type TagRegistry = ReturnType<typeof useTagRegistry>;
+
+/**
+ * The tag vocabulary kept in this browser, with the tags found on `incidents`
+ * merged in. Other tabs announce when they change it.
+ */
+export const useTagRegistry = (incidents: Incident[]) => {
+  const [registeredTags, setRegisteredTags] = useState<string[]>([]);
+  const tags = useMemo(() => summarizeTags(incidents, registeredTags), [incidents, registeredTags]);
+
+  useEffect(() => {
+    const loadTags = () => {
+      getTagRecords()
+        .then(records => setRegisteredTags(records.map(record => record.name)))
+        .catch(error => console.error("Failed to load tags:", error));
+    };
+    loadTags();
+    return subscribeToTabMessages(message => {
+      if (message.type === "tags") loadTags();
+    });
+  }, []);
+
+  const rememberTags = (used: string[]) => {
+    const names = [...new Set(used)].filter(name => !registeredTags.includes(name));
+    if (names.length === 0) return;
+    setRegisteredTags(current => [...new Set([...current, ...names])]);
+    registerTags(names)
+      .then(() => postTabMessage({ type: "tags" }))
+      .catch(error => console.error("Failed to register tags:", error));
+  };
+
+  const forgetTag = (name: string) => {
+    setRegisteredTags(current => current.filter(tag => tag !== name));
+    unregisterTags([name])
+      .then(() => postTabMessage({ type: "tags" }))
+      .catch(error => console.error("Failed to unregister tag:", error));
+  };
+
+  return { tags, rememberTags, forgetTag };
+};
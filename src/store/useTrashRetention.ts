@@ -0,0 +1,67 @@
+import { useEffect, useState, type Dispatch, type RefObject } from "react";
+import { toast } from "react-toastify";
+import type { IncidentDataSource } from "../data/dataSource";
+import { unlinkRemoved } from "../lib/incidentLinks";
+import { stampIncident } from "../lib/incidentVersion";
+import { getExpiredTrash, parseTrashRetentionDays } from "../lib/trash";
+import type { Incident } from "../types";
+import type { IncidentAction } from "./incidentReducer";
+import { pluralize } from "./storeActions";
+import { postTabMessage } from "./tabChannel";
+
+interface TrashRetentionOptions {
+  dataSource: IncidentDataSource;
+  loaded: boolean;
+  allIncidents: Incident[];
+  // Which data source `allIncidents` came from; unset while switching
+  loadedSourceRef: RefObject<IncidentDataSource | null>;
+  dispatch: Dispatch<IncidentAction>;
+  discardIncidentAttachments: (ids: number[]) => Promise<unknown>;
+}
+
+/**
+ * The trash retention setting, and the housekeeping that purges trash past it.
+ * Purging isn't an undoable change.
+ */
+export const useTrashRetention = ({
+  dataSource,
+  loaded,
+  allIncidents,
+  loadedSourceRef,
+  dispatch,
+  discardIncidentAttachments,
+}: TrashRetentionOptions) => {
+  const [trashRetentionDays, setTrashRetentionDays] = useState(
+    () => parseTrashRetentionDays(localStorage.getItem('trashRetentionDays'))
+  );
+  // The setting is per browser, so it only purges incidents stored in this
+  // browser; a shared trash is left for people to empty
+  const trashPurgeDays = dataSource.mode === "local" && trashRetentionDays > 0 ? trashRetentionDays : null;
+
+  useEffect(() => {
+    localStorage.setItem('trashRetentionDays', String(trashRetentionDays));
+  }, [trashRetentionDays]);
+
+  useEffect(() => {
+    if (!loaded || loadedSourceRef.current !== dataSource || trashPurgeDays === null) return;
+    const expired = getExpiredTrash(allIncidents, trashPurgeDays);
+    if (expired.length === 0) return;
+    const expiredIds = expired.map(incident => incident.id);
+    // Links pointing at purged incidents go with them
+    const unlinked = unlinkRemoved(allIncidents, expiredIds).map(({ before, after }) => stampIncident(after, before));
+    dispatch({ type: "removed", ids: expiredIds });
+    if (unlinked.length > 0) dispatch({ type: "upserted", incidents: unlinked });
+    Promise.all([
+      dataSource.applyChanges(unlinked, expiredIds, new Map(expired.map(incident => [incident.id, incident.version]))),
+      discardIncidentAttachments(expiredIds),
+    ])
+      .then(() => {
+        postTabMessage({ type: "incidents", mode: dataSource.mode, puts: unlinked, removedIds: expiredIds });
+        postTabMessage({ type: "attachments" });
+        toast.info(`Purged ${pluralize(expired.length)} from the trash`);
+      })
+      .catch(error => console.error("Failed to purge trash:", error));
+  }, [loaded, allIncidents, trashPurgeDays, dataSource, loadedSourceRef, dispatch, discardIncidentAttachments]);
+
+  return { trashRetentionDays, setTrashRetentionDays, trashPurgeDays };
+};
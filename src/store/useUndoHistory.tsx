@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import UndoToast from "../components/UndoToast";
+import type { IncidentDataSource } from "../data/dataSource";
+import {
+  EMPTY_HISTORY,
+  createEntry,
+  getOutdatedIds,
+  getTargetStates,
+  recordEntry,
+  redoEntry,
+  undoEntry,
+  withWrittenStates,
+  type HistoryEntry,
+  type IncidentChange,
+  type TargetState,
+  type UndoHistory,
+} from "../lib/undoHistory";
+import type { Incident } from "../types";
+import { pluralize, type ToastKind } from "./storeActions";
+
+// Undo toasts stay up long enough to reach the button
+const UNDO_TOAST_MS = 5000;
+
+/**
+ * Undo and redo for the changes committed through `writeStates`, which writes
+ * target states and returns the copies written. Entries recorded against
+ * another data source can't be replayed, so switching clears the history.
+ */
+export const useUndoHistory = (
+  dataSource: IncidentDataSource,
+  allIncidents: Incident[],
+  writeStates: (states: TargetState[]) => Incident[]
+) => {
+  const [history, setHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+
+  useEffect(() => {
+    setHistory(EMPTY_HISTORY);
+  }, [dataSource]);
+
+  // Toast buttons outlive the render that created them, so they go through a ref
+  const undoRef = useRef<(entryId?: number) => void>(() => {});
+
+  /** Records an entry whose changes are already written and offers to undo it. */
+  const record = (entry: HistoryEntry, kind: ToastKind = "success") => {
+    setHistory(current => recordEntry(current, entry));
+    toast[kind](
+      ({ closeToast }) => (
+        <UndoToast message={entry.label} onUndo={() => undoRef.current(entry.id)} closeToast={closeToast} />
+      ),
+      { autoClose: UNDO_TOAST_MS }
+    );
+  };
+
+  /** Applies a change and records it so it can be undone. */
+  const commit = (label: string, changes: IncidentChange[], kind: ToastKind = "success") => {
+    const entry = createEntry(label, changes);
+    record(withWrittenStates(entry, "redo", writeStates(getTargetStates(entry, "redo"))), kind);
+  };
+
+  // Undo and redo replay recorded copies, so they stop if anyone else has changed the incidents since
+  const refuseOutdated = (states: TargetState[], direction: "undo" | "redo") => {
+    const outdatedIds = getOutdatedIds(states, allIncidents);
+    if (outdatedIds.length === 0) return false;
+    toast.error(`Can't ${direction}: ${pluralize(outdatedIds.length)} changed since. Make the change by hand instead.`);
+    return true;
+  };
+
+  const undo = (entryId?: number) => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry || (entryId !== undefined && entry.id !== entryId)) {
+      toast.info(entry ? "Later changes have to be undone first" : "Nothing to undo");
+      return;
+    }
+    const states = getTargetStates(entry, "undo");
+    if (refuseOutdated(states, "undo")) return;
+    const written = withWrittenStates(entry, "undo", writeStates(states));
+    setHistory(current => undoEntry(current, written));
+    toast.info(`Undone: ${entry.label}`);
+  };
+
+  const redo = () => {
+    const entry = history.future[history.future.length - 1];
+    if (!entry) {
+      toast.info("Nothing to redo");
+      return;
+    }
+    const states = getTargetStates(entry, "redo");
+    if (refuseOutdated(states, "redo")) return;
+    const written = withWrittenStates(entry, "redo", writeStates(states));
+    setHistory(current => redoEntry(current, written));
+    toast.info(`Redone: ${entry.label}`);
+  };
+
+  useEffect(() => {
+    undoRef.current = undo;
+  });
+
+  return {
+    commit,
+    record,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undo: () => undo(),
+    redo,
+  };
+};
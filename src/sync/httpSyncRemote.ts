@@ -0,0 +1,41 @@
+import { API_BASE, ApiError, fetchAllIncidents, request } from "../data/remoteDataSource";
+import type { Incident } from "../types";
+import type { PushResult, SyncRemote } from "./syncEngine";
+
+// The server answers a failed precondition with 412 and its current copy
+const withPrecondition = async (send: () => Promise<unknown>): Promise<PushResult> => {
+  try {
+    await send();
+    return { ok: true };
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 412) {
+      const current = (error.body as { current?: Incident | null } | null)?.current ?? null;
+      return { ok: false, current };
+    }
+    throw error;
+  }
+};
+
+const preconditionHeaders = (baseVersion: number | null): Record<string, string> =>
+  baseVersion === null ? { "If-None-Match": "*" } : { "If-Match": `"${baseVersion}"` };
+
+export const httpSyncRemote: SyncRemote = {
+  fetchAll: fetchAllIncidents,
+  put: (incident, baseVersion) =>
+    withPrecondition(() =>
+      request(`${API_BASE}/${incident.id}`, {
+        method: "PUT",
+        headers: preconditionHeaders(baseVersion),
+        body: JSON.stringify(incident),
+      })
+    ),
+  remove: (id, baseVersion) =>
+    withPrecondition(async () => {
+      try {
+        await request(`${API_BASE}/${id}`, { method: "DELETE", headers: preconditionHeaders(baseVersion) });
+      } catch (error) {
+        // Already gone is as good as deleted
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+      }
+    }),
+};
@@ -0,0 +1,5 @@
+import { httpSyncRemote } from "./httpSyncRemote";
+import { createSyncEngine } from "./syncEngine";
+
+// Shared engine for the "Offline-first sync" data source
+export const syncEngine = createSyncEngine(httpSyncRemote);
@@ -0,0 +1,160 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { sampleIncident } from "../test/fixtures";
+import type { Incident } from "../types";
+import type { SyncRemote } from "./syncEngine";
+
+let repository: typeof import("../db/incidentRepository");
+let outbox: typeof import("../db/outboxRepository");
+let sync: typeof import("./syncEngine");
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  vi.resetModules();
+  repository = await import("../db/incidentRepository");
+  outbox = await import("../db/outboxRepository");
+  sync = await import("./syncEngine");
+});
+
+// A server that applies the same If-Match / If-None-Match rules as server/app.ts
+const createRemote = (initial: Incident[] = []) => {
+  const incidents = new Map(initial.map(incident => [incident.id, incident]));
+  const matches = (id: number, baseVersion: number | null) => (incidents.get(id)?.version ?? null) === baseVersion;
+  const remote: SyncRemote = {
+    fetchAll: async () => [...incidents.values()],
+    put: async (incident, baseVersion) => {
+      if (!matches(incident.id, baseVersion)) return { ok: false, current: incidents.get(incident.id) ?? null };
+      incidents.set(incident.id, incident);
+      return { ok: true };
+    },
+    remove: async (id, baseVersion) => {
+      if (!matches(id, baseVersion)) return { ok: false, current: incidents.get(id) ?? null };
+      incidents.delete(id);
+      return { ok: true };
+    },
+  };
+  return { remote, incidents };
+};
+
+// Lets the debounced sync that follows a resolution start, then waits for it
+const flushScheduled = async (engine: ReturnType<typeof sync.createSyncEngine>) => {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  await engine.syncNow();
+};
+
+describe("pushing the outbox", () => {
+  it("sends queued changes and clears them once acknowledged", async () => {
+    const { remote, incidents } = createRemote();
+    const engine = sync.createSyncEngine(remote);
+    await outbox.recordLocalChanges([sampleIncident(100), sampleIncident(101)], []);
+    await engine.syncNow();
+
+    expect([...incidents.keys()]).toEqual([100, 101]);
+    expect(await outbox.getOutbox()).toEqual([]);
+    expect(engine.getState()).toMatchObject({ pendingIds: [], conflicts: [], error: null, syncing: false });
+    expect(engine.getState().lastSyncedAt).not.toBeNull();
+
+    await outbox.recordLocalChanges([sampleIncident(100, { title: "Renamed", version: 2 })], [101], new Map([[101, 1]]));
+    await engine.syncNow();
+
+    expect(incidents.get(100)?.title).toBe("Renamed");
+    expect(incidents.has(101)).toBe(false);
+    expect(await outbox.getOutbox()).toEqual([]);
+  });
+
+  it("queues incidents that existed before sync was enabled", async () => {
+    const { remote, incidents } = createRemote();
+    await repository.putIncident(sampleIncident(100));
+    await sync.createSyncEngine(remote).syncNow();
+
+    expect(incidents.get(100)).toEqual(sampleIncident(100));
+  });
+});
+
+describe("conflicts", () => {
+  // Both sides start from version 1; the server then moves to 2 before the local edit is pushed
+  const conflicted = async () => {
+    const server = createRemote([sampleIncident(100)]);
+    const engine = sync.createSyncEngine(server.remote, { debounceMs: 0 });
+    await engine.syncNow();
+    server.incidents.set(100, sampleIncident(100, { title: "Remote edit", version: 2 }));
+    await outbox.recordLocalChanges([sampleIncident(100, { title: "Local edit", version: 2 })], []);
+    await engine.syncNow();
+    return { ...server, engine };
+  };
+
+  it("keeps both copies when the server refuses a push with 412", async () => {
+    const { incidents, engine } = await conflicted();
+
+    expect(incidents.get(100)?.title).toBe("Remote edit");
+    expect((await repository.getIncident(100))?.title).toBe("Local edit");
+    expect(engine.getState().pendingIds).toEqual([100]);
+    expect(engine.getState().conflicts).toMatchObject([
+      { id: 100, local: { title: "Local edit" }, remote: { title: "Remote edit", version: 2 } },
+    ]);
+  });
+
+  it("pushes the local copy on top of the server's when resolved as local", async () => {
+    const { incidents, engine } = await conflicted();
+    await engine.resolveConflict(100, "local");
+    await flushScheduled(engine);
+
+    expect(incidents.get(100)).toMatchObject({ title: "Local edit", version: 3 });
+    expect(await repository.getIncident(100)).toMatchObject({ title: "Local edit", version: 3 });
+    expect(engine.getState()).toMatchObject({ pendingIds: [], conflicts: [] });
+  });
+
+  it("takes the server copy and drops the local change when resolved as remote", async () => {
+    const { incidents, engine } = await conflicted();
+    const dataVersion = engine.getState().dataVersion;
+    await engine.resolveConflict(100, "remote");
+    await flushScheduled(engine);
+
+    expect(await repository.getIncident(100)).toEqual(incidents.get(100));
+    expect(incidents.get(100)?.title).toBe("Remote edit");
+    expect(engine.getState()).toMatchObject({ pendingIds: [], conflicts: [] });
+    expect(engine.getState().dataVersion).toBeGreaterThan(dataVersion);
+  });
+
+  it("follows a later server deletion once resolved as remote", async () => {
+    const { incidents, engine } = await conflicted();
+    incidents.delete(100);
+    await engine.resolveConflict(100, "remote");
+    await flushScheduled(engine);
+
+    expect(await repository.getIncident(100)).toBeUndefined();
+    expect(engine.getState()).toMatchObject({ pendingIds: [], conflicts: [] });
+  });
+});
+
+describe("pulling the server snapshot", () => {
+  it("mirrors server changes locally and reports whether anything changed", async () => {
+    const { remote, incidents } = createRemote([sampleIncident(100), sampleIncident(101)]);
+    const engine = sync.createSyncEngine(remote);
+    await engine.syncNow();
+    expect((await repository.getAllIncidents()).map(incident => incident.id)).toEqual([100, 101]);
+    expect(engine.getState().dataVersion).toBe(1);
+
+    incidents.set(100, sampleIncident(100, { title: "Renamed on the server", version: 2 }));
+    incidents.delete(101);
+    incidents.set(102, sampleIncident(102));
+    await engine.syncNow();
+
+    expect(await repository.getAllIncidents()).toEqual([...incidents.values()].sort((a, b) => a.id - b.id));
+    expect(engine.getState().dataVersion).toBe(2);
+
+    await engine.syncNow();
+    expect(engine.getState().dataVersion).toBe(2);
+  });
+
+  it("leaves incidents with queued changes alone", async () => {
+    const { remote, incidents } = createRemote([sampleIncident(100)]);
+    await outbox.applyRemoteSnapshot([sampleIncident(100)]);
+    await outbox.recordLocalChanges([sampleIncident(100, { title: "Local edit", version: 2 })], []);
+    incidents.set(100, sampleIncident(100, { title: "Remote edit", version: 2 }));
+
+    expect(await outbox.applyRemoteSnapshot(await remote.fetchAll())).toBe(false);
+    expect((await repository.getIncident(100))?.title).toBe("Local edit");
+  });
+});
@@ -0,0 +1,208 @@
+import { getIncident } from "../db/incidentRepository";
+import {
+  acknowledgePush,
+  applyRemoteSnapshot,
+  getOutbox,
+  initializeOutbox,
+  markConflict,
+  resolveConflict,
+  type OutboxEntry,
+} from "../db/outboxRepository";
+import { hasSameContent } from "../lib/incidentVersion";
+import type { Incident } from "../types";
+
+export type PushResult = { ok: true } | { ok: false; current: Incident | null };
+
+/** The server side of sync. Pushes carry the base version as a precondition. */
+export interface SyncRemote {
+  fetchAll: () => Promise<Incident[]>;
+  put: (incident: Incident, baseVersion: number | null) => Promise<PushResult>;
+  remove: (id: number, baseVersion: number | null) => Promise<PushResult>;
+}
+
+export interface SyncConflict {
+  id: number;
+  // null when that side deleted the incident
+  local: Incident | null;
+  remote: Incident | null;
+  localChangedAt: string;
+  detectedAt: string;
+}
+
+export interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  lastSyncedAt: string | null;
+  error: string | null;
+  pendingIds: number[];
+  conflicts: SyncConflict[];
+  // Bumped whenever sync wrote to the local store, so views know to reload
+  dataVersion: number;
+}
+
+export interface SyncEngineOptions {
+  intervalMs?: number;
+  debounceMs?: number;
+}
+
+export type ConflictChoice = "local" | "remote";
+
+// Last writer wins: whichever side changed most recently
+export const pickNewest = (conflict: SyncConflict): ConflictChoice => {
+  const remoteChangedAt = conflict.remote?.updated_at ?? conflict.detectedAt;
+  return conflict.localChangedAt >= remoteChangedAt ? "local" : "remote";
+};
+
+export const createSyncEngine = (remote: SyncRemote, options: SyncEngineOptions = {}) => {
+  const { intervalMs = 30_000, debounceMs = 500 } = options;
+
+  let state: SyncState = {
+    online: typeof navigator === "undefined" ? true : navigator.onLine,
+    syncing: false,
+    lastSyncedAt: null,
+    error: null,
+    pendingIds: [],
+    conflicts: [],
+    dataVersion: 0,
+  };
+  const listeners = new Set<() => void>();
+  let running: Promise<void> | null = null;
+  let rerun = false;
+  let intervalId: ReturnType<typeof setInterval> | undefined;
+  let debounceId: ReturnType<typeof setTimeout> | undefined;
+
+  const setState = (patch: Partial<SyncState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(listener => listener());
+  };
+
+  const refreshOutboxState = async () => {
+    const entries = await getOutbox();
+    const conflicts = await Promise.all(
+      entries
+        .filter((entry): entry is OutboxEntry & Required<Pick<OutboxEntry, "conflict">> => !!entry.conflict)
+        .map(async (entry): Promise<SyncConflict> => ({
+          id: entry.id,
+          local: entry.op === "delete" ? null : (await getIncident(entry.id)) ?? null,
+          remote: entry.conflict.remote,
+          localChangedAt: entry.queued_at,
+          detectedAt: entry.conflict.detected_at,
+        }))
+    );
+    setState({ pendingIds: entries.map(entry => entry.id), conflicts });
+  };
+
+  const push = async (entry: OutboxEntry): Promise<boolean> => {
+    const local = entry.op === "put" ? await getIncident(entry.id) : undefined;
+    if (entry.op === "put" && !local) return false;
+
+    const result = local
+      ? await remote.put(local, entry.base_version)
+      : await remote.remove(entry.id, entry.base_version);
+
+    if (result.ok) {
+      await acknowledgePush(entry.id, entry.queued_at, local?.version ?? null);
+      return false;
+    }
+    // Both sides made the same change (e.g. identical seed data): take the server copy
+    if ((local && result.current && hasSameContent(local, result.current)) || (!local && !result.current)) {
+      await markConflict(entry.id, result.current);
+      await resolveConflict(entry.id, "remote");
+      return true;
+    }
+    await markConflict(entry.id, result.current);
+    return false;
+  };
+
+  const runSync = async () => {
+    setState({ syncing: true });
+    let changed = false;
+    try {
+      await initializeOutbox();
+      for (const entry of await getOutbox()) {
+        if (!entry.conflict) {
+          changed = (await push(entry)) || changed;
+        }
+      }
+      changed = (await applyRemoteSnapshot(await remote.fetchAll())) || changed;
+      setState({ lastSyncedAt: new Date().toISOString(), error: null });
+    } catch (error) {
+      console.error("Sync failed:", error);
+      setState({
+        error: error instanceof TypeError
+          ? "Server unreachable; changes will sync when it is back"
+          : (error as Error).message,
+      });
+    } finally {
+      await refreshOutboxState().catch(error => console.error("Failed to read outbox:", error));
+      setState({ syncing: false, ...(changed && { dataVersion: state.dataVersion + 1 }) });
+    }
+  };
+
+  /** Runs a push/pull cycle. Calls made while one is running queue one more cycle. */
+  const syncNow = (): Promise<void> => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        rerun = false;
+        if (state.online) await runSync();
+      } while (rerun);
+      running = null;
+    })();
+    return running;
+  };
+
+  const schedule = () => {
+    clearTimeout(debounceId);
+    debounceId = setTimeout(syncNow, debounceMs);
+  };
+
+  const handleOnline = () => {
+    setState({ online: true });
+    syncNow();
+  };
+
+  const handleOffline = () => setState({ online: false });
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    syncNow,
+
+    // Called after every local write
+    schedule,
+
+    start: () => {
+      window.addEventListener("online", handleOnline);
+      window.addEventListener("offline", handleOffline);
+      intervalId = setInterval(syncNow, intervalMs);
+      syncNow();
+    },
+
+    stop: () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      clearInterval(intervalId);
+      clearTimeout(debounceId);
+    },
+
+    resolveConflict: async (id: number, choice: ConflictChoice) => {
+      await resolveConflict(id, choice);
+      await refreshOutboxState();
+      setState({ dataVersion: state.dataVersion + 1 });
+      schedule();
+    },
+  };
+};
+
+export type SyncEngine = ReturnType<typeof createSyncEngine>;
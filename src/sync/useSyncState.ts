@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { syncEngine } from "./syncClient";
+
+export const useSyncState = () => useSyncExternalStore(syncEngine.subscribe, syncEngine.getState);
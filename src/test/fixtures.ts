@@ -0,0 +1,10 @@
+import { initialIncidents } from "../data/initialIncidents";
+import type { Incident } from "../types";
+
+/** A complete incident for tests: the first sample incident under another id, with `changes` applied. */
+export const sampleIncident = (id: number, changes: Partial<Incident> = {}): Incident => ({
+  ...initialIncidents[0],
+  id,
+  title: `Incident ${id}`,
+  ...changes,
+});
@@ -0,0 +1,113 @@
+import type { SeverityName } from "./config/severity";
+import type { IncidentTaxonomy, TaxonomyKey } from "./config/taxonomy";
+
+// Levels are defined in src/config/severity.ts
+export type Severity = SeverityName;
+// "sla" puts the most overdue first; it needs the SLA settings, so only the dashboard offers it
+export type SortOrder = "newest" | "oldest" | "sla";
+
+export type IncidentStatus =
+  | "Open"
+  | "Triaged"
+  | "Investigating"
+  | "Mitigated"
+  | "Resolved"
+  | "Closed";
+
+export interface StatusTransition {
+  from: IncidentStatus | null;
+  to: IncidentStatus;
+  at: string;
+  by: string;
+}
+
+export type EditableField = "title" | "description" | "severity" | "assignee" | TaxonomyKey;
+
+export interface FieldChange {
+  field: EditableField;
+  from: string;
+  to: string;
+}
+
+export interface IncidentRevision {
+  id: number;
+  at: string;
+  by: string;
+  changes: FieldChange[];
+  // Set when the revision was produced by reverting to an earlier one
+  reverted_to?: number;
+}
+
+export interface IncidentComment {
+  id: number;
+  author: string;
+  // Markdown; rendered by src/components/Markdown.tsx
+  body: string;
+  created_at: string;
+  edited_at: string | null;
+}
+
+export type TranscriptRole = "system" | "user" | "assistant";
+
+export interface TranscriptTurn {
+  role: TranscriptRole;
+  content: string;
+}
+
+// A marked character range within one turn, e.g. the hallucinated claim
+export interface TranscriptHighlight {
+  turn: number;
+  start: number;
+  end: number;
+  note: string;
+}
+
+export interface IncidentTranscript {
+  model: string;
+  // Sampling settings such as temperature or max_tokens
+  parameters: Record<string, string | number | boolean>;
+  turns: TranscriptTurn[];
+  highlights: TranscriptHighlight[];
+}
+
+export type IncidentLinkType = "duplicate_of" | "caused_by" | "related_to" | "regression_of";
+
+// Stored on the incident the link points away from
+export interface IncidentLink {
+  type: IncidentLinkType;
+  target: number;
+  created_at: string;
+  by: string;
+}
+
+export interface Incident {
+  id: number;
+  title: string;
+  description: string;
+  severity: Severity;
+  reported_at: string;
+  // Who filed it; null for records from before reporters were recorded
+  reporter: string | null;
+  // Who is working on it; see src/lib/assignment.ts
+  assignee: string | null;
+  status: IncidentStatus;
+  status_history: StatusTransition[];
+  revisions: IncidentRevision[];
+  // Structured classification; see src/config/taxonomy.ts
+  taxonomy: IncidentTaxonomy;
+  // Free-form labels, normalized by src/lib/tags.ts
+  tags: string[];
+  // Investigation notes, oldest first; see src/lib/comments.ts
+  comments: IncidentComment[];
+  // The comment pinned as the root cause, if any
+  root_cause_comment_id: number | null;
+  // The conversation that produced the incident; see src/lib/transcript.ts
+  transcript: IncidentTranscript | null;
+  // Relationships to other incidents; see src/lib/incidentLinks.ts
+  links: IncidentLink[];
+  // Set while the incident is in the trash; see src/lib/trash.ts
+  deleted_at: string | null;
+  // Incremented on every write; used for sync conflict detection
+  version: number;
+  updated_at: string;
+}
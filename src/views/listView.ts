@@ -0,0 +1,86 @@
+import { SELECT_TAXONOMY_FIELDS, isTaxonomyValue, type IncidentTaxonomy } from "../config/taxonomy";
+import { isIncidentStatus } from "../lib/incidentStatus";
+import { isSeverity } from "../lib/severity";
+import { parseTags } from "../lib/tags";
+import type { IncidentStatus, Severity, SortOrder } from "../types";
+
+/** Everything that determines what the incident list shows. */
+export interface ListView {
+  severity: Severity | "All";
+  status: IncidentStatus | "All";
+  taxonomy: IncidentTaxonomy;
+  // Incidents must carry every listed tag
+  tags: string[];
+  search: string;
+  // Only incidents past their SLA target
+  breaching: boolean;
+  // Only incidents the current user reported / is assigned
+  reportedByMe: boolean;
+  assignedToMe: boolean;
+  sort: SortOrder;
+  expanded: number[];
+}
+
+export const DEFAULT_LIST_VIEW: ListView = {
+  severity: "All",
+  status: "All",
+  taxonomy: {},
+  tags: [],
+  search: "",
+  breaching: false,
+  reportedByMe: false,
+  assignedToMe: false,
+  sort: "newest",
+  expanded: [],
+};
+
+// Default values are left out so a plain URL means the default view
+export const toSearchParams = (view: ListView): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (view.severity !== "All") params.set("severity", view.severity);
+  if (view.status !== "All") params.set("status", view.status);
+  SELECT_TAXONOMY_FIELDS.forEach(({ key }) => {
+    if (view.taxonomy[key]) params.set(key, view.taxonomy[key]);
+  });
+  if (view.tags.length > 0) params.set("tags", view.tags.join(","));
+  if (view.search) params.set("q", view.search);
+  if (view.breaching) params.set("sla", "breaching");
+  if (view.reportedByMe) params.set("reporter", "me");
+  if (view.assignedToMe) params.set("assignee", "me");
+  if (view.sort !== "newest") params.set("sort", view.sort);
+  if (view.expanded.length > 0) params.set("expanded", view.expanded.join(","));
+  return params;
+};
+
+const SORT_ORDERS: SortOrder[] = ["newest", "oldest", "sla"];
+
+// Unknown or malformed values fall back to the default rather than failing
+export const fromSearchParams = (params: URLSearchParams): ListView => {
+  const severity = params.get("severity");
+  const status = params.get("status");
+  const taxonomy: IncidentTaxonomy = {};
+  SELECT_TAXONOMY_FIELDS.forEach(({ key }) => {
+    const value = params.get(key);
+    if (value && isTaxonomyValue(key, value)) taxonomy[key] = value;
+  });
+
+  return {
+    severity: isSeverity(severity) ? severity : "All",
+    status: isIncidentStatus(status) ? status : "All",
+    taxonomy,
+    tags: parseTags(params.get("tags") ?? ""),
+    search: params.get("q") ?? "",
+    breaching: params.get("sla") === "breaching",
+    reportedByMe: params.get("reporter") === "me",
+    assignedToMe: params.get("assignee") === "me",
+    sort: SORT_ORDERS.find(order => order === params.get("sort")) ?? "newest",
+    expanded: (params.get("expanded") ?? "")
+      .split(",")
+      .map(Number)
+      .filter(id => Number.isInteger(id) && id > 0),
+  };
+};
+
+// Compares the filtering parts of two views (ignores which rows are expanded)
+export const isSameFilter = (a: ListView, b: ListView) =>
+  toSearchParams({ ...a, expanded: [] }).toString() === toSearchParams({ ...b, expanded: [] }).toString();
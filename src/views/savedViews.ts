@@ -0,0 +1,39 @@
+import { fromSearchParams, toSearchParams, type ListView } from "./listView";
+
+export interface SavedView {
+  id: number;
+  name: string;
+  // Stored as a query string so it survives changes to the ListView shape
+  query: string;
+}
+
+const STORAGE_KEY = "savedViews";
+
+export const getSavedViews = (): SavedView[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeSavedViews = (views: SavedView[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+};
+
+/** Saves the filters of `view` under `name`, replacing a saved view with the same name. */
+export const saveView = (name: string, view: ListView): SavedView[] => {
+  const entry: SavedView = { id: Date.now(), name, query: toSearchParams({ ...view, expanded: [] }).toString() };
+  const views = [...getSavedViews().filter(saved => saved.name !== name), entry];
+  storeSavedViews(views);
+  return views;
+};
+
+export const deleteSavedView = (id: number): SavedView[] => {
+  const views = getSavedViews().filter(saved => saved.id !== id);
+  storeSavedViews(views);
+  return views;
+};
+
+export const toListView = (saved: SavedView): ListView => fromSearchParams(new URLSearchParams(saved.query));
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import type { IncidentDataSource } from "../data/dataSource";
+import { buildQuery, getIndexedFilter, type IncidentQuery } from "../lib/incidentQuery";
+import { QueryParseError } from "../lib/searchQuery";
+import type { Incident } from "../types";
+
+const getFilterKey = (query: IncidentQuery) => {
+  try {
+    const filter = getIndexedFilter(buildQuery(query));
+    return Object.keys(filter).length > 0 ? JSON.stringify(filter) : null;
+  } catch (error) {
+    if (error instanceof QueryParseError) return null;
+    throw error;
+  }
+};
+
+/**
+ * The ids the data source's indexes allow for a list query, or null to consider
+ * every incident. The lookup reruns whenever the incidents change; until it is
+ * back, every incident is considered, so a fresh write never drops out of view.
+ */
+export const useIndexedIds = (dataSource: IncidentDataSource, query: IncidentQuery, incidents: Incident[]) => {
+  const filterKey = dataSource.findIds ? getFilterKey(query) : null;
+  const [found, setFound] = useState<{ filterKey: string; incidents: Incident[]; ids: Set<number> | null } | null>(null);
+
+  useEffect(() => {
+    if (filterKey === null || !dataSource.findIds) return;
+    let current = true;
+    dataSource.findIds(JSON.parse(filterKey))
+      .then(ids => current && setFound({ filterKey, incidents, ids }))
+      .catch(error => console.error("Failed to look up incidents:", error));
+    return () => {
+      current = false;
+    };
+  }, [dataSource, filterKey, incidents]);
+
+  return found && found.filterKey === filterKey && found.incidents === incidents ? found.ids : null;
+};
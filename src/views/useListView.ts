@@ -0,0 +1,36 @@
+import { useCallback, useMemo } from "react";
+import { useLocation, useSearchParams } from "react-router";
+import { fromSearchParams, toSearchParams, type ListView } from "./listView";
+
+// Marks history entries created by typing in the search box
+interface HistoryState {
+  searchEdit?: boolean;
+}
+
+type ViewPatch = Partial<ListView> | ((view: ListView) => Partial<ListView>);
+
+/**
+ * List view state mirrored in the URL query string. Each change adds a history
+ * entry, except that consecutive search edits share one, so back/forward steps
+ * through filter changes rather than keystrokes.
+ */
+export const useListView = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const view = useMemo(() => fromSearchParams(searchParams), [searchParams]);
+
+  const updateView = useCallback((patch: ViewPatch) => {
+    const changes = typeof patch === "function" ? patch(view) : patch;
+    const next = toSearchParams({ ...view, ...changes });
+    if (next.toString() === toSearchParams(view).toString()) return;
+
+    const searchEdit = Object.keys(changes).length === 1 && "search" in changes;
+    const previous = location.state as HistoryState | null;
+    setSearchParams(next, {
+      replace: searchEdit && !!previous?.searchEdit,
+      state: { searchEdit } satisfies HistoryState,
+    });
+  }, [view, location.state, setSearchParams]);
+
+  return [view, updateView] as const;
+};
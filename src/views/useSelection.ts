@@ -0,0 +1,35 @@
+import { useRef, useState } from "react";
+
+/**
+ * Checkbox selection over an ordered list. A range toggle (shift-click) applies
+ * the clicked row's new state to every row between it and the last one clicked.
+ */
+export const useSelection = (orderedIds: number[]) => {
+  const [selected, setSelected] = useState<ReadonlySet<number>>(() => new Set());
+  const anchorRef = useRef<number | null>(null);
+
+  const toggle = (id: number, extendRange = false) => {
+    const anchor = anchorRef.current;
+    const select = !selected.has(id);
+    let ids = [id];
+    if (extendRange && anchor !== null && orderedIds.includes(anchor) && orderedIds.includes(id)) {
+      const [from, to] = [orderedIds.indexOf(anchor), orderedIds.indexOf(id)].sort((a, b) => a - b);
+      ids = orderedIds.slice(from, to + 1);
+    }
+    anchorRef.current = id;
+    setSelected(previous => {
+      const next = new Set(previous);
+      ids.forEach(i => (select ? next.add(i) : next.delete(i)));
+      return next;
+    });
+  };
+
+  const selectAll = (ids: number[]) => setSelected(new Set(ids));
+
+  const clear = () => {
+    anchorRef.current = null;
+    setSelected(new Set());
+  };
+
+  return { selected, toggle, selectAll, clear };
+};
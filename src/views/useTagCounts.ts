@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import type { IncidentDataSource } from "../data/dataSource";
+import { compareTagSummaries, type TagSummary } from "../lib/tags";
+
+/**
+ * Tag summaries with their counts read from the data source's tags index when
+ * it has one. Until a lookup for the current summaries is back, the counts
+ * worked out in memory are shown.
+ */
+export const useTagCounts = (dataSource: IncidentDataSource, tags: TagSummary[]) => {
+  const [counted, setCounted] = useState<{ tags: TagSummary[]; result: TagSummary[] } | null>(null);
+
+  useEffect(() => {
+    if (!dataSource.countTags) return;
+    let current = true;
+    dataSource.countTags(tags.map(tag => tag.name))
+      .then(counts => {
+        if (!current) return;
+        const result = tags.map(tag => ({ ...tag, count: counts.get(tag.name) ?? tag.count })).sort(compareTagSummaries);
+        setCounted({ tags, result });
+      })
+      .catch(error => console.error("Failed to count tags:", error));
+    return () => {
+      current = false;
+    };
+  }, [dataSource, tags]);
+
+  return counted?.tags === tags ? counted.result : tags;
+};
@@ -1,7 +1,18 @@
-import { defineConfig } from 'vite'
+import { defineConfig } from 'vitest/config'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // `npm run server` serves the incident API on 3001
+    proxy: {
+      '/api': 'http://localhost:3001',
+    },
+  },
+  test: {
+    // Browser storage is provided per test file by fake-indexeddb
+    environment: 'node',
+    include: ['src/**/*.test.ts', 'server/**/*.test.ts'],
+  },
 })